@@ -0,0 +1,32 @@
+-- Local stand-in for the proxy's api_keys_archive table, matching the keys in analytics-engine.json
+-- (the last two keys in that traffic are deliberately left unregistered; Zk3v sends no traffic
+-- of its own, but its premium domain shows up as a referrer)
+--
+--   wrangler d1 execute DB --local --file fixtures/api-keys-archive.sql
+
+CREATE TABLE IF NOT EXISTS api_keys_archive (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    api_key TEXT NOT NULL UNIQUE,
+    email TEXT,
+    name TEXT,
+    organization TEXT,
+    is_academic INTEGER NOT NULL DEFAULT 0,
+    max_per_second INTEGER,
+    max_per_day INTEGER,
+    premium_domain TEXT,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TEXT,
+    credit_card_on_file INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT OR IGNORE INTO api_keys_archive (api_key, email, name, organization, is_academic, max_per_second, max_per_day, premium_domain, created_at, expires_at, credit_card_on_file) VALUES
+    ('PFjNXBbH290en1kFI653iL', 'data-team@example.edu', 'Research Data Services', 'Example University', 1, 10, 100000, NULL, datetime('now', '-400 days'), NULL, 0),
+    ('iQ6yJzcDBhz0qXkrss9bGL', 'api@bibliometrics.example.com', 'Bibliometrics Inc', 'Bibliometrics Inc', 0, 1, 20000, 'bibliometrics.example.com', datetime('now', '-200 days'), datetime('now', '+20 days'), 1),
+    ('bHvkxYNQBRU27L2kUTI8G5', 'library@example.edu', 'University Library', 'Example University', 1, 10, 100000, NULL, datetime('now', '-150 days'), NULL, 0),
+    ('xasTHfHPlreMOr2yr0YJHh', 'dev@scholarapp.example.org', 'Scholar App', 'ScholarApp Foundation', 0, 20, 500000, 'scholarapp.example.org', datetime('now', '-90 days'), datetime('now', '+180 days'), 1),
+    ('o9auaCEz8xKXRe04MTgQZA', 'jane.doe@example.ac.uk', 'Jane Doe', 'Example College London', 1, 10, 100000, NULL, datetime('now', '-60 days'), datetime('now', '-3 days'), 0),
+    ('oWdPkrilOXZ6O56j5BPhf7', 'ops@metrics.example.net', 'Metrics Dashboard', 'Metrics Ltd', 0, 5, 50000, NULL, datetime('now', '-45 days'), NULL, 1),
+    ('8ryTiqDVcv8CjSnpdPsfC0', 'lab@example.edu', 'Citation Lab', 'Example University', 1, 10, 100000, NULL, datetime('now', '-30 days'), NULL, 0),
+    ('t4th98mwDhmPuB6bVjjBZk', 'student@example.ac.uk', 'Thesis Project', 'Example College London', 1, 10, 100000, NULL, datetime('now', '-10 days'), datetime('now', '+5 days'), 0),
+    ('Zk3vQp8LwN2rT5yH7cJ1aB', 'pilot@example.org', 'Pilot Integration', 'Example Nonprofit', 0, 10, 100000, 'scholar.example.edu', datetime('now', '-120 days'), NULL, 0),
+    ('Mn4bVc6XzL9kJh2Gf5Ds8A', 'new.user@example.edu', 'New Key', 'Example University', 1, 10, 100000, NULL, datetime('now', '-2 days'), NULL, 0);
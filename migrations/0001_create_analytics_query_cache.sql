@@ -0,0 +1,9 @@
+-- Cached Analytics Engine SQL results (see src/cache.ts)
+CREATE TABLE IF NOT EXISTS analytics_query_cache (
+    cache_key TEXT PRIMARY KEY,
+    body TEXT NOT NULL,
+    stored_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_query_cache_expires_at ON analytics_query_cache (expires_at);
@@ -0,0 +1,188 @@
+import type { TimeRange, Anomaly, AnomalyMetric, StatusTimelineDataPoint } from './types';
+import { bucketIntervalFor } from './timerange';
+
+/**
+ * Anomaly detection for timeline series
+ *
+ * Each metric is compared against an exponentially weighted moving average
+ * (EWMA) of the buckets before it. A bucket is flagged when it sits more than
+ * THRESHOLD deviations away from that baseline, in either direction.
+ */
+
+// Bucket totals the detector works on
+export interface AnomalySeriesPoint {
+    timestamp: string;
+    requestCount: number;
+    errorCount: number;
+    avgResponseTime: number;
+}
+
+// Weight of the newest bucket in the moving average and variance
+const ALPHA = 0.3;
+
+// Deviations from the baseline needed to flag a bucket
+const THRESHOLD = 3;
+
+// Buckets needed before the baseline is trusted
+const WARMUP_BUCKETS = 6;
+
+// Error rate and latency are too noisy below this many requests per bucket
+const MIN_BUCKET_REQUESTS = 20;
+
+// Partial buckets at the range edges are scaled up, unless they are mostly outside the range
+const MIN_BUCKET_COVERAGE = 0.5;
+
+// Smallest deviation used per metric, so near-constant series do not flag small wiggles
+const MIN_DEVIATION: Record<AnomalyMetric, number> = {
+    requestCount: 5,
+    errorRate: 2,
+    avgResponseTime: 25,
+};
+
+// Smallest deviation relative to the baseline value
+const MIN_RELATIVE_DEVIATION = 0.1;
+
+const METRICS: AnomalyMetric[] = ['requestCount', 'errorRate', 'avgResponseTime'];
+
+const UNIT_MS = { MINUTE: 60000, HOUR: 3600000, DAY: 86400000 };
+
+interface GridBucket {
+    timestamp: string;
+    values: Record<AnomalyMetric, number | null>;
+}
+
+/**
+ * Collapse a per-status-code timeline into per-bucket totals
+ */
+export function seriesFromStatusTimeline(rows: StatusTimelineDataPoint[]): AnomalySeriesPoint[] {
+    const buckets = new Map<string, { requestCount: number; errorCount: number; weightedResponseTime: number }>();
+
+    for (const row of rows) {
+        const bucket = buckets.get(row.timestamp) || { requestCount: 0, errorCount: 0, weightedResponseTime: 0 };
+        bucket.requestCount += row.requestCount;
+        bucket.weightedResponseTime += row.avgResponseTime * row.requestCount;
+        if (row.statusCode >= 400) {
+            bucket.errorCount += row.requestCount;
+        }
+        buckets.set(row.timestamp, bucket);
+    }
+
+    return Array.from(buckets.entries()).map(([timestamp, bucket]) => ({
+        timestamp,
+        requestCount: bucket.requestCount,
+        errorCount: bucket.errorCount,
+        avgResponseTime: bucket.requestCount > 0 ? bucket.weightedResponseTime / bucket.requestCount : 0,
+    }));
+}
+
+/**
+ * Flag spikes and drops in request volume, error rate and latency
+ *
+ * Points are timeline buckets for the range (as returned by the timeline
+ * queries); buckets missing from them count as having no traffic. When a
+ * baseline series is given (typically the previous window) it warms up the
+ * moving average, so the start of the range can be flagged too.
+ */
+export function detectAnomalies(
+    points: AnomalySeriesPoint[],
+    range: TimeRange,
+    baseline?: { points: AnomalySeriesPoint[]; range: TimeRange }
+): Anomaly[] {
+    const warmup = baseline ? buildGrid(baseline.points, baseline.range) : [];
+    const grid = buildGrid(points, range);
+    const anomalies: Anomaly[] = [];
+
+    for (const metric of METRICS) {
+        let mean = 0;
+        let variance = 0;
+        let seen = 0;
+
+        warmup.concat(grid).forEach((bucket, index) => {
+            const value = bucket.values[metric];
+            if (value === null) {
+                return;
+            }
+
+            // Flagged buckets are clamped to the threshold before they update the
+            // baseline, so one outlier does not mask the buckets after it
+            let update = value;
+
+            if (seen >= WARMUP_BUCKETS) {
+                const deviation = Math.max(Math.sqrt(variance), MIN_DEVIATION[metric], Math.abs(mean) * MIN_RELATIVE_DEVIATION);
+                const zScore = (value - mean) / deviation;
+                update = Math.min(mean + THRESHOLD * deviation, Math.max(mean - THRESHOLD * deviation, value));
+
+                if (Math.abs(zScore) >= THRESHOLD && index >= warmup.length) {
+                    anomalies.push({
+                        timestamp: bucket.timestamp,
+                        metric,
+                        direction: zScore > 0 ? 'spike' : 'drop',
+                        value: Math.round(value * 100) / 100,
+                        expected: Math.round(mean * 100) / 100,
+                        zScore: Math.round(zScore * 100) / 100,
+                    });
+                }
+            }
+
+            if (seen === 0) {
+                mean = update;
+            } else {
+                const diff = update - mean;
+                const increment = ALPHA * diff;
+                mean += increment;
+                variance = (1 - ALPHA) * (variance + diff * increment);
+            }
+            seen++;
+        });
+    }
+
+    return anomalies.sort((a, b) => parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp));
+}
+
+/**
+ * Lay points out on every bucket of the range, with the value of each metric
+ * (null where the bucket cannot be judged)
+ */
+function buildGrid(points: AnomalySeriesPoint[], range: TimeRange): GridBucket[] {
+    const interval = bucketIntervalFor(range);
+    const bucketMs = interval.value * UNIT_MS[interval.unit];
+    const fromMs = range.from.getTime();
+    const toMs = range.to.getTime();
+
+    const pointsByBucket = new Map<number, AnomalySeriesPoint>();
+    for (const point of points) {
+        pointsByBucket.set(Math.floor(parseTimestamp(point.timestamp) / bucketMs) * bucketMs, point);
+    }
+
+    const grid: GridBucket[] = [];
+    for (let start = Math.floor(fromMs / bucketMs) * bucketMs; start < toMs; start += bucketMs) {
+        const point = pointsByBucket.get(start);
+        const coverage = (Math.min(start + bucketMs, toMs) - Math.max(start, fromMs)) / bucketMs;
+        const requestCount = point ? point.requestCount : 0;
+        const judgeable = requestCount >= MIN_BUCKET_REQUESTS;
+
+        grid.push({
+            timestamp: point ? point.timestamp : formatTimestamp(start),
+            values: {
+                requestCount: coverage >= MIN_BUCKET_COVERAGE ? requestCount / coverage : null,
+                errorRate: judgeable ? (point!.errorCount / requestCount) * 100 : null,
+                avgResponseTime: judgeable ? point!.avgResponseTime : null,
+            },
+        });
+    }
+    return grid;
+}
+
+/**
+ * Analytics Engine returns bucket timestamps as "YYYY-MM-DD HH:MM:SS" in UTC
+ */
+function parseTimestamp(timestamp: string): number {
+    const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(timestamp)
+        ? timestamp.replace(' ', 'T') + 'Z'
+        : timestamp;
+    return new Date(normalized).getTime();
+}
+
+function formatTimestamp(ms: number): string {
+    return new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+}
@@ -0,0 +1,154 @@
+import type { Env } from './types';
+import { AnalyticsEngineError, AnalyticsTimeoutError, AnalyticsUnavailableError, AnalyticsRateLimitError, errorForStatus } from './errors';
+
+/**
+ * Where Analytics Engine SQL queries are run
+ *
+ * Queries are written in the Analytics Engine (ClickHouse) dialect; a
+ * backend returns the rows as the SQL API would, or throws one of the
+ * AnalyticsEngineError classes.
+ */
+export interface AnalyticsBackend {
+    query(sql: string): Promise<any[]>;
+}
+
+/**
+ * Analytics Engine SQL API response structure
+ */
+interface AnalyticsEngineResponse {
+    data?: unknown[];
+    meta?: {
+        name: string;
+        type: string;
+    }[];
+    rows?: number;
+}
+
+// Attempts per query, including the first; only rate limits and upstream failures are retried
+const MAX_QUERY_ATTEMPTS = 3;
+
+// Backoff before retry n is a random delay up to min(MAX, BASE * 2^n) ("full jitter")
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 2000;
+
+// Per-attempt time limit
+const QUERY_TIMEOUT_MS = 15000;
+
+// Time limit for a query across all its attempts and backoffs. Workers do not cap wall
+// time while waiting on fetch, so this is what bounds a request: without it three slow
+// upstream failures would hold a dashboard panel for over 45s
+const QUERY_BUDGET_MS = 30000;
+
+// Builds the "local" backend; set by the dev entry point (src/dev.ts), so the
+// fixture traffic and the SQLite translator stay out of the deployed bundle
+let localBackend: ((env: Env) => AnalyticsBackend) | null = null;
+
+export function registerLocalBackend(factory: (env: Env) => AnalyticsBackend): void {
+    localBackend = factory;
+}
+
+/**
+ * Backend for the ANALYTICS_BACKEND var: "local" runs queries against
+ * fixture traffic in D1, anything else uses the Cloudflare SQL API
+ */
+export function analyticsBackend(env: Env): AnalyticsBackend {
+    if (env.ANALYTICS_BACKEND === 'local') {
+        if (!localBackend) {
+            throw new Error('ANALYTICS_BACKEND=local needs the dev entry point: wrangler dev src/dev.ts');
+        }
+        return localBackend(env);
+    }
+    return new HttpAnalyticsBackend(env.ACCOUNT_ID, env.API_TOKEN);
+}
+
+/**
+ * The Cloudflare Analytics Engine SQL API
+ */
+export class HttpAnalyticsBackend implements AnalyticsBackend {
+    constructor(
+        private accountId: string,
+        private apiToken: string
+    ) {}
+
+    /**
+     * Send SQL query to the SQL API, retrying rate limits and upstream failures
+     */
+    async query(sql: string): Promise<any[]> {
+        const deadline = Date.now() + QUERY_BUDGET_MS;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.attempt(sql, Math.min(QUERY_TIMEOUT_MS, deadline - Date.now()));
+            } catch (error) {
+                if (!(error instanceof AnalyticsEngineError) || !error.retryable || attempt >= MAX_QUERY_ATTEMPTS) {
+                    throw error;
+                }
+
+                const backoffMs = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+                const retryAfterMs = error instanceof AnalyticsRateLimitError && error.retryAfterSeconds !== null
+                    ? Math.min(error.retryAfterSeconds * 1000, RETRY_MAX_DELAY_MS)
+                    : 0;
+                const delayMs = Math.max(backoffMs, retryAfterMs);
+                // No point retrying when the budget ends before the retry could start
+                if (Date.now() + delayMs >= deadline) {
+                    throw error;
+                }
+                console.warn(`Retrying Analytics Engine query (attempt ${attempt + 1}/${MAX_QUERY_ATTEMPTS}):`, error.message);
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        }
+    }
+
+    /**
+     * One request to the SQL API, aborted after timeoutMs
+     */
+    private async attempt(sql: string, timeoutMs: number): Promise<any[]> {
+        const apiUrl = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/analytics_engine/sql`;
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+        try {
+            let response: Response;
+            try {
+                response = await fetch(apiUrl, {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Bearer ${this.apiToken}`,
+                    },
+                    body: sql,
+                    signal: controller.signal,
+                });
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    throw new AnalyticsTimeoutError(timeoutMs);
+                }
+                console.error('Error reaching Analytics Engine:', error);
+                throw new AnalyticsUnavailableError();
+            }
+
+            if (!response.ok) {
+                // The upstream text can echo the query and account details, so it is logged rather than returned
+                const errorText = await response.text();
+                console.error(`Analytics Engine query failed: ${response.status} ${errorText}`);
+                throw errorForStatus(response.status, parseRetryAfter(response.headers.get('Retry-After')));
+            }
+
+            const result: AnalyticsEngineResponse = await response.json();
+            return result.data || [];
+        } catch (error) {
+            if (controller.signal.aborted && !(error instanceof AnalyticsEngineError)) {
+                throw new AnalyticsTimeoutError(timeoutMs);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+/**
+ * Seconds from a Retry-After header (delta-seconds form only), or null
+ */
+function parseRetryAfter(header: string | null): number | null {
+    const seconds = header === null ? NaN : Number(header);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
@@ -0,0 +1,160 @@
+/**
+ * D1-backed cache for Analytics Engine SQL results
+ *
+ * Entries are keyed on a hash of the normalized query text, so identical
+ * queries from different dashboard users share one SQL API call. Each
+ * entry is fresh for its kind's TTL, then served stale (and refreshed in
+ * the background) for a while longer before it expires.
+ */
+
+// Kinds of query, which decide how long results stay fresh
+export type QueryKind = 'timeline' | 'ranking' | 'breakdown' | 'lookup';
+
+// HIT: fresh entry, STALE: expired entry served while refreshing, MISS: not cached, BYPASS: ?fresh=1
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+const QUERY_TTLS: Record<QueryKind, { ttlSeconds: number; staleSeconds: number }> = {
+    timeline: { ttlSeconds: 60, staleSeconds: 300 },
+    ranking: { ttlSeconds: 120, staleSeconds: 600 },
+    breakdown: { ttlSeconds: 300, staleSeconds: 1800 },
+    lookup: { ttlSeconds: 900, staleSeconds: 3600 },
+};
+
+// Larger results are not cached (D1 rows are capped at 2 MB)
+const MAX_CACHED_BYTES = 1_000_000;
+
+// Share of writes that also delete expired entries
+const PRUNE_PROBABILITY = 0.02;
+
+/**
+ * Per-request view of the query cache
+ *
+ * Records the status of every lookup so the response can report it.
+ */
+export class QueryCache {
+    private statuses: CacheStatus[] = [];
+
+    constructor(
+        private db: D1Database,
+        private ctx: ExecutionContext,
+        private fresh: boolean = false
+    ) {}
+
+    /**
+     * Return cached rows for a query, or run it with load and cache the result
+     */
+    async get(query: string, kind: QueryKind, load: () => Promise<any[]>): Promise<any[]> {
+        const key = await cacheKey(query);
+        const policy = QUERY_TTLS[kind];
+
+        if (this.fresh) {
+            const rows = await load();
+            this.statuses.push('BYPASS');
+            this.store(key, rows, policy.ttlSeconds + policy.staleSeconds);
+            return rows;
+        }
+
+        const cached = await this.read(key);
+        if (cached) {
+            const ageSeconds = (Date.now() - cached.storedAt) / 1000;
+            if (ageSeconds <= policy.ttlSeconds) {
+                this.statuses.push('HIT');
+                return cached.rows;
+            }
+
+            this.statuses.push('STALE');
+            this.ctx.waitUntil(
+                load()
+                    .then(rows => this.store(key, rows, policy.ttlSeconds + policy.staleSeconds))
+                    .catch(error => console.error('Error refreshing cached query:', error))
+            );
+            return cached.rows;
+        }
+
+        const rows = await load();
+        this.statuses.push('MISS');
+        this.store(key, rows, policy.ttlSeconds + policy.staleSeconds);
+        return rows;
+    }
+
+    /**
+     * Overall status for the request: the least cached of its lookups
+     */
+    status(): CacheStatus | null {
+        for (const status of ['BYPASS', 'MISS', 'STALE', 'HIT'] as CacheStatus[]) {
+            if (this.statuses.includes(status)) {
+                return status;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Copy of a response with X-Cache-Status and per-lookup counts added
+     */
+    withStatusHeaders(response: Response): Response {
+        const status = this.status();
+        if (!status) {
+            return response;
+        }
+
+        const counts = (['HIT', 'STALE', 'MISS', 'BYPASS'] as CacheStatus[])
+            .map(s => `${s.toLowerCase()}=${this.statuses.filter(x => x === s).length}`)
+            .join(', ');
+
+        const headers = new Headers(response.headers);
+        headers.set('X-Cache-Status', status);
+        headers.set('X-Cache-Queries', counts);
+        return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+    }
+
+    private async read(key: string): Promise<{ rows: any[]; storedAt: number } | null> {
+        try {
+            const row = await this.db
+                .prepare('SELECT body, stored_at FROM analytics_query_cache WHERE cache_key = ? AND expires_at > ?')
+                .bind(key, Date.now())
+                .first<{ body: string; stored_at: number }>();
+            return row ? { rows: JSON.parse(row.body), storedAt: row.stored_at } : null;
+        } catch (error) {
+            // A broken cache should only cost speed
+            console.error('Error reading query cache:', error);
+            return null;
+        }
+    }
+
+    private store(key: string, rows: any[], lifetimeSeconds: number): void {
+        const body = JSON.stringify(rows);
+        if (body.length > MAX_CACHED_BYTES) {
+            return;
+        }
+
+        const now = Date.now();
+        const write = async () => {
+            const statements = [
+                this.db
+                    .prepare('INSERT OR REPLACE INTO analytics_query_cache (cache_key, body, stored_at, expires_at) VALUES (?, ?, ?, ?)')
+                    .bind(key, body, now, now + lifetimeSeconds * 1000)
+            ];
+            if (Math.random() < PRUNE_PROBABILITY) {
+                statements.push(this.db.prepare('DELETE FROM analytics_query_cache WHERE expires_at <= ?').bind(now));
+            }
+            await this.db.batch(statements);
+        };
+
+        this.ctx.waitUntil(
+            write().catch(error => console.error('Error writing query cache:', error))
+        );
+    }
+}
+
+/**
+ * Hex SHA-256 of the query with indentation and blank lines removed
+ *
+ * Only whitespace around lines is dropped: string literals cannot contain
+ * newlines, but they can contain runs of spaces that must stay significant.
+ */
+export async function cacheKey(query: string): Promise<string> {
+    const normalized = query.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,13 @@
+import worker from './index';
+import { registerLocalBackend } from './backend';
+import { LocalAnalyticsBackend } from './sqlite';
+
+/**
+ * Entry point for wrangler dev: the deployed Worker plus the local analytics
+ * backend (ANALYTICS_BACKEND=local), which is kept out of src/index.ts so the
+ * fixture traffic is not bundled on deploy
+ */
+
+registerLocalBackend(env => new LocalAnalyticsBackend(env.DB, env.ANALYTICS_DATASET));
+
+export default worker;
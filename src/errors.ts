@@ -0,0 +1,88 @@
+/**
+ * Errors raised while talking to the Analytics Engine SQL API
+ *
+ * Each class carries the HTTP status and error code the API responds with,
+ * so the router can turn any of them into the standard error envelope.
+ */
+
+/**
+ * Base class for failed Analytics Engine queries
+ */
+export class AnalyticsEngineError extends Error {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly code: string,
+        readonly retryable: boolean = false
+    ) {
+        super(message);
+        this.name = 'AnalyticsEngineError';
+    }
+}
+
+/**
+ * The account ID or API token was rejected (a configuration problem, not the caller's)
+ */
+export class AnalyticsAuthError extends AnalyticsEngineError {
+    constructor(message: string = 'Analytics Engine rejected the configured credentials') {
+        super(message, 502, 'analytics_auth_failed');
+        this.name = 'AnalyticsAuthError';
+    }
+}
+
+/**
+ * The SQL API is rate limiting this account
+ */
+export class AnalyticsRateLimitError extends AnalyticsEngineError {
+    constructor(readonly retryAfterSeconds: number | null = null) {
+        super('Analytics Engine is rate limiting queries, try again shortly', 429, 'analytics_rate_limited', true);
+        this.name = 'AnalyticsRateLimitError';
+    }
+}
+
+/**
+ * The SQL API refused the query itself; queries are built here, never taken
+ * from the caller, so this is a server bug
+ */
+export class AnalyticsQueryError extends AnalyticsEngineError {
+    constructor(message: string = 'Analytics Engine could not run the query') {
+        super(message, 500, 'analytics_bad_query');
+        this.name = 'AnalyticsQueryError';
+    }
+}
+
+/**
+ * The SQL API is down or unreachable
+ */
+export class AnalyticsUnavailableError extends AnalyticsEngineError {
+    constructor(message: string = 'Analytics Engine is unavailable, try again shortly') {
+        super(message, 503, 'analytics_unavailable', true);
+        this.name = 'AnalyticsUnavailableError';
+    }
+}
+
+/**
+ * A query ran past its time limit
+ */
+export class AnalyticsTimeoutError extends AnalyticsEngineError {
+    constructor(timeoutMs: number) {
+        super(`Analytics Engine query timed out after ${timeoutMs / 1000}s`, 504, 'analytics_timeout');
+        this.name = 'AnalyticsTimeoutError';
+    }
+}
+
+/**
+ * Map a failed SQL API response to the matching error
+ */
+export function errorForStatus(status: number, retryAfterSeconds: number | null = null): AnalyticsEngineError {
+    if (status === 401 || status === 403) {
+        return new AnalyticsAuthError();
+    }
+    if (status === 429) {
+        return new AnalyticsRateLimitError(retryAfterSeconds);
+    }
+    if (status >= 500) {
+        return new AnalyticsUnavailableError();
+    }
+    return new AnalyticsQueryError();
+}
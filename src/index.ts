@@ -1,5 +1,10 @@
-import type { Env, Period, TopUsersResponse, TopAnonymousResponse, TimelineResponse } from './types';
-import { getTopUsers, getTopAnonymousUsers, getUsageTimeline, getUserStatusBreakdown, getAnonymousStatusBreakdown, getUserTimeline, getAnonymousTimeline, getTopIpInBucket, getSampleUrlsForUser, getSampleUrlsForBucket, getTopUserAgentsForUser, getTopReferrersForUser, getTopUserAgentsForBucket, getTopReferrersForBucket, getTopUserAgentsAggregate, getTopReferrersAggregate } from './queries';
+import type { Env, TopUsersResponse, TopAnonymousResponse, TimelineResponse, SegmentTimelineResponse, LatencyHistogramResponse, RequestRatesResponse, RateLimitResponse, SearchResponse, TopOrganizationsResponse, OrganizationResponse, PremiumDomainsResponse, KeyExpiryResponse, DormantKeysResponse, UnknownKeysResponse, ApiErrorResponse, Segment, SegmentInfo, TimeRange } from './types';
+import { getTopUsers, getTopAnonymousUsers, getUsageTimeline, getUserStatusBreakdown, getAnonymousStatusBreakdown, getUserTimeline, getAnonymousTimeline, getTopIpInBucket, getSampleUrlsForUser, getSampleUrlsForBucket, getTopUserAgentsForUser, getTopReferrersForUser, getTopUserAgentsForBucket, getTopReferrersForBucket, getTopUserAgentsAggregate, getTopReferrersAggregate, getLatencyHistogram, getEntityBreakdownAggregate, getEntityBreakdownForUser, getEntityBreakdownForBucket, getQueryParamUsageAggregate, getQueryParamUsageForUser, getQueryParamUsageForBucket, getRateLimitCompliance, getRequestRates, topListPage, searchUsage, getTopOrganizations, getOrganizationUsage, getOrganizationTimeline, getStatusBreakdownAggregate, getSegmentTimeline, parseSegment, segmentKeysTruncated, getPremiumDomainUsage, getKeyExpiryReport, getDormantKeyReport, DORMANT_LOOKBACK_PRESET, getApiKeyUsage, getUnknownKeyReport, RATE_WINDOW_SECONDS } from './queries';
+import { parseTimeRange, resolvePreset, describeRange, bucketIntervalFor, previousRange } from './timerange';
+import { QueryValidationError } from './sql';
+import { AnalyticsEngineError, AnalyticsRateLimitError } from './errors';
+import { detectAnomalies, seriesFromStatusTimeline } from './anomalies';
+import { QueryCache } from './cache';
 
 export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -26,9 +31,11 @@ export default {
             return authResponse;
         }
 
-        // Route: API endpoints
+        // Route: API endpoints (Analytics Engine results are cached unless ?fresh=1)
         if (url.pathname.startsWith('/api/')) {
-            return handleApiRequest(request, url, env, corsHeaders);
+            const cache = new QueryCache(env.DB, ctx, url.searchParams.get('fresh') === '1');
+            const response = await handleApiRequest(request, url, { ...env, QUERY_CACHE: cache }, corsHeaders);
+            return cache.withStatusHeaders(response);
         }
 
         // Route: Serve HTML dashboard
@@ -135,94 +142,203 @@ function checkAuth(request: Request, env: Env): Response | null {
  */
 async function handleApiRequest(request: Request, url: URL, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
     try {
-        const period = (url.searchParams.get('period') || 'hour') as Period;
+        const range = parseTimeRange(url.searchParams);
         const limit = parseInt(url.searchParams.get('limit') || '10', 10);
 
-        // Validate period
-        if (period !== 'hour' && period !== 'day') {
-            return jsonResponse({ error: 'Invalid period. Use "hour" or "day".' }, 400, corsHeaders);
+        // Validate time range (from/to, range preset or legacy period)
+        if ('error' in range) {
+            return errorResponse(400, 'invalid_range', range.error, corsHeaders);
         }
 
-        // Route: Top authenticated users
+        // Overview routes can be narrowed to academic, non_academic or anonymous traffic
+        const segment = parseSegment(url.searchParams.get('segment'));
+
+        // Route: Top authenticated users (sort: any of TOP_LIST_SORTS, order: asc or desc,
+        // paged by offset or by the nextCursor of the previous page)
         if (url.pathname === '/api/top-users') {
-            const data = await getTopUsers(env, period, limit);
+            const { range: pageRange, page } = topListPage(url.searchParams, range);
+            const [topList, segmentInfo] = await Promise.all([
+                getTopUsers(env, pageRange, limit, page, segment),
+                describeSegment(env, segment, pageRange)
+            ]);
             const response: TopUsersResponse = {
-                period,
-                data,
+                ...describeRange(pageRange),
+                ...segmentInfo,
+                ...topList,
                 timestamp: new Date().toISOString()
             };
             return jsonResponse(response, 200, corsHeaders);
         }
 
-        // Route: Top anonymous users
+        // Route: Top anonymous users (same sort, order and paging as top users)
         if (url.pathname === '/api/top-anonymous') {
-            const data = await getTopAnonymousUsers(env, period, limit);
+            const { range: pageRange, page } = topListPage(url.searchParams, range);
+            const [topList, segmentInfo] = await Promise.all([
+                getTopAnonymousUsers(env, pageRange, limit, page, segment),
+                describeSegment(env, segment, pageRange)
+            ]);
             const response: TopAnonymousResponse = {
-                period,
+                ...describeRange(pageRange),
+                ...segmentInfo,
+                ...topList,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Top organizations (traffic summed across each organization's keys)
+        if (url.pathname === '/api/top-organizations') {
+            const [report, segmentInfo] = await Promise.all([
+                getTopOrganizations(env, range, limit, segment),
+                describeSegment(env, segment, range)
+            ]);
+            const response: TopOrganizationsResponse = {
+                ...describeRange(range),
+                ...segmentInfo,
+                ...report,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Premium domains (traffic of keys with a premium_domain, and requests referred from it)
+        if (url.pathname === '/api/premium-domains') {
+            const data = await getPremiumDomainUsage(env, range);
+            const response: PremiumDomainsResponse = {
+                ...describeRange(range),
+                bucketInterval: bucketIntervalFor(range),
                 data,
                 timestamp: new Date().toISOString()
             };
             return jsonResponse(response, 200, corsHeaders);
         }
 
-        // Route: Usage timeline
+        // Route: Organization totals and member keys with their share of traffic
+        if (url.pathname === '/api/organization') {
+            const organization = url.searchParams.get('organization');
+            if (!organization) {
+                return errorResponse(400, 'missing_parameter', 'organization parameter is required', corsHeaders);
+            }
+            const usage = await getOrganizationUsage(env, organization, range);
+            if (!usage) {
+                return errorResponse(404, 'not_found', 'No API keys are registered to this organization', corsHeaders);
+            }
+            const response: OrganizationResponse = {
+                ...describeRange(range),
+                ...usage,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Organization timeline with status code breakdown
+        if (url.pathname === '/api/organization-timeline') {
+            const organization = url.searchParams.get('organization');
+            if (!organization) {
+                return errorResponse(400, 'missing_parameter', 'organization parameter is required', corsHeaders);
+            }
+            const data = await getOrganizationTimeline(env, organization, range);
+            const anomalies = detectAnomalies(seriesFromStatusTimeline(data), range);
+            return jsonResponse({ ...describeRange(range), data, anomalies, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Usage timeline (with the previous window for comparison and anomaly baseline)
         if (url.pathname === '/api/usage-timeline') {
-            const data = await getUsageTimeline(env, period);
+            const previous = previousRange(range);
+            const [data, previousData, segmentInfo] = await Promise.all([
+                getUsageTimeline(env, range, segment),
+                getUsageTimeline(env, previous, segment),
+                describeSegment(env, segment, range)
+            ]);
             const response: TimelineResponse = {
-                period,
+                ...describeRange(range),
+                ...segmentInfo,
+                bucketInterval: bucketIntervalFor(range),
+                data,
+                previous: {
+                    ...describeRange(previous),
+                    data: previousData
+                },
+                anomalies: detectAnomalies(data, range, { points: previousData, range: previous }),
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Usage timeline split by segment (for the stacked chart)
+        if (url.pathname === '/api/segment-timeline') {
+            const [data, segmentTruncated] = await Promise.all([
+                getSegmentTimeline(env, range),
+                segmentKeysTruncated(env, 'academic', range)
+            ]);
+            const response: SegmentTimelineResponse = {
+                ...describeRange(range),
+                bucketInterval: bucketIntervalFor(range),
                 data,
+                segmentTruncated,
                 timestamp: new Date().toISOString()
             };
             return jsonResponse(response, 200, corsHeaders);
         }
 
+        // Route: Status breakdown (aggregate across all requests)
+        if (url.pathname === '/api/status-breakdown') {
+            const [data, segmentInfo] = await Promise.all([
+                getStatusBreakdownAggregate(env, range, segment),
+                describeSegment(env, segment, range)
+            ]);
+            return jsonResponse({ ...describeRange(range), ...segmentInfo, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
         // Route: User status breakdown
         if (url.pathname === '/api/user-status-breakdown') {
             const apiKey = url.searchParams.get('apiKey');
             if (!apiKey) {
-                return jsonResponse({ error: 'apiKey parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
             }
-            const data = await getUserStatusBreakdown(env, apiKey, period);
-            return jsonResponse({ period, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+            const data = await getUserStatusBreakdown(env, apiKey, range);
+            return jsonResponse({ ...describeRange(range), data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
         // Route: Anonymous user status breakdown
         if (url.pathname === '/api/anonymous-status-breakdown') {
             const bucket = url.searchParams.get('bucket');
             if (!bucket) {
-                return jsonResponse({ error: 'bucket parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
             }
-            const data = await getAnonymousStatusBreakdown(env, bucket, period);
-            return jsonResponse({ period, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+            const data = await getAnonymousStatusBreakdown(env, bucket, range);
+            return jsonResponse({ ...describeRange(range), data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
         // Route: User timeline with status code breakdown
         if (url.pathname === '/api/user-timeline') {
             const apiKey = url.searchParams.get('apiKey');
             if (!apiKey) {
-                return jsonResponse({ error: 'apiKey parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
             }
-            const data = await getUserTimeline(env, apiKey, period);
-            return jsonResponse({ period, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+            const data = await getUserTimeline(env, apiKey, range);
+            const anomalies = detectAnomalies(seriesFromStatusTimeline(data), range);
+            return jsonResponse({ ...describeRange(range), data, anomalies, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
         // Route: Anonymous timeline with status code breakdown
         if (url.pathname === '/api/anonymous-timeline') {
             const bucket = url.searchParams.get('bucket');
             if (!bucket) {
-                return jsonResponse({ error: 'bucket parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
             }
-            const data = await getAnonymousTimeline(env, bucket, period);
-            return jsonResponse({ period, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+            const data = await getAnonymousTimeline(env, bucket, range);
+            const anomalies = detectAnomalies(seriesFromStatusTimeline(data), range);
+            return jsonResponse({ ...describeRange(range), data, anomalies, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
         // Route: Get top IP in anonymous bucket
         if (url.pathname === '/api/top-ip-in-bucket') {
             const bucket = url.searchParams.get('bucket');
             if (!bucket) {
-                return jsonResponse({ error: 'bucket parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
             }
-            const ipAddress = await getTopIpInBucket(env, bucket, period);
+            const ipAddress = await getTopIpInBucket(env, bucket, range);
             return jsonResponse({ bucket, ipAddress, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
@@ -230,10 +346,10 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
         if (url.pathname === '/api/sample-urls-user') {
             const apiKey = url.searchParams.get('apiKey');
             if (!apiKey) {
-                return jsonResponse({ error: 'apiKey parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
             }
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const urls = await getSampleUrlsForUser(env, apiKey, period, limit);
+            const urls = await getSampleUrlsForUser(env, apiKey, range, limit);
             return jsonResponse({ urls, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
@@ -241,10 +357,10 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
         if (url.pathname === '/api/sample-urls-bucket') {
             const bucket = url.searchParams.get('bucket');
             if (!bucket) {
-                return jsonResponse({ error: 'bucket parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
             }
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const urls = await getSampleUrlsForBucket(env, bucket, period, limit);
+            const urls = await getSampleUrlsForBucket(env, bucket, range, limit);
             return jsonResponse({ urls, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
@@ -252,10 +368,10 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
         if (url.pathname === '/api/user-agents-user') {
             const apiKey = url.searchParams.get('apiKey');
             if (!apiKey) {
-                return jsonResponse({ error: 'apiKey parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
             }
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const data = await getTopUserAgentsForUser(env, apiKey, period, limit);
+            const data = await getTopUserAgentsForUser(env, apiKey, range, limit);
             return jsonResponse({ data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
@@ -263,10 +379,10 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
         if (url.pathname === '/api/referrers-user') {
             const apiKey = url.searchParams.get('apiKey');
             if (!apiKey) {
-                return jsonResponse({ error: 'apiKey parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
             }
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const data = await getTopReferrersForUser(env, apiKey, period, limit);
+            const data = await getTopReferrersForUser(env, apiKey, range, limit);
             return jsonResponse({ data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
@@ -274,10 +390,10 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
         if (url.pathname === '/api/user-agents-bucket') {
             const bucket = url.searchParams.get('bucket');
             if (!bucket) {
-                return jsonResponse({ error: 'bucket parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
             }
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const data = await getTopUserAgentsForBucket(env, bucket, period, limit);
+            const data = await getTopUserAgentsForBucket(env, bucket, range, limit);
             return jsonResponse({ data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
@@ -285,32 +401,195 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
         if (url.pathname === '/api/referrers-bucket') {
             const bucket = url.searchParams.get('bucket');
             if (!bucket) {
-                return jsonResponse({ error: 'bucket parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
             }
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const data = await getTopReferrersForBucket(env, bucket, period, limit);
+            const data = await getTopReferrersForBucket(env, bucket, range, limit);
             return jsonResponse({ data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
         // Route: Get top user agents (aggregate across all requests)
         if (url.pathname === '/api/user-agents-aggregate') {
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const data = await getTopUserAgentsAggregate(env, period, limit);
-            return jsonResponse({ data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+            const [data, segmentInfo] = await Promise.all([
+                getTopUserAgentsAggregate(env, range, limit, segment),
+                describeSegment(env, segment, range)
+            ]);
+            return jsonResponse({ ...segmentInfo, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
         }
 
         // Route: Get top referrers (aggregate across all requests)
         if (url.pathname === '/api/referrers-aggregate') {
             const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-            const data = await getTopReferrersAggregate(env, period, limit);
-            return jsonResponse({ data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+            const [data, segmentInfo] = await Promise.all([
+                getTopReferrersAggregate(env, range, limit, segment),
+                describeSegment(env, segment, range)
+            ]);
+            return jsonResponse({ ...segmentInfo, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Get entity breakdown (aggregate across all requests)
+        if (url.pathname === '/api/entities-aggregate') {
+            const [data, segmentInfo] = await Promise.all([
+                getEntityBreakdownAggregate(env, range, segment),
+                describeSegment(env, segment, range)
+            ]);
+            return jsonResponse({ ...describeRange(range), ...segmentInfo, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Get entity breakdown for user
+        if (url.pathname === '/api/entities-user') {
+            const apiKey = url.searchParams.get('apiKey');
+            if (!apiKey) {
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
+            }
+            const data = await getEntityBreakdownForUser(env, apiKey, range);
+            return jsonResponse({ ...describeRange(range), data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Get entity breakdown for anonymous bucket
+        if (url.pathname === '/api/entities-bucket') {
+            const bucket = url.searchParams.get('bucket');
+            if (!bucket) {
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
+            }
+            const data = await getEntityBreakdownForBucket(env, bucket, range);
+            return jsonResponse({ ...describeRange(range), data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Get query parameter usage (aggregate across all requests)
+        if (url.pathname === '/api/query-params-aggregate') {
+            const [data, segmentInfo] = await Promise.all([
+                getQueryParamUsageAggregate(env, range, limit, segment),
+                describeSegment(env, segment, range)
+            ]);
+            return jsonResponse({ ...describeRange(range), ...segmentInfo, data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Get query parameter usage for user
+        if (url.pathname === '/api/query-params-user') {
+            const apiKey = url.searchParams.get('apiKey');
+            if (!apiKey) {
+                return errorResponse(400, 'missing_parameter', 'apiKey parameter is required', corsHeaders);
+            }
+            const data = await getQueryParamUsageForUser(env, apiKey, range, limit);
+            return jsonResponse({ ...describeRange(range), data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Get query parameter usage for anonymous bucket
+        if (url.pathname === '/api/query-params-bucket') {
+            const bucket = url.searchParams.get('bucket');
+            if (!bucket) {
+                return errorResponse(400, 'missing_parameter', 'bucket parameter is required', corsHeaders);
+            }
+            const data = await getQueryParamUsageForBucket(env, bucket, range, limit);
+            return jsonResponse({ ...describeRange(range), data, timestamp: new Date().toISOString() }, 200, corsHeaders);
+        }
+
+        // Route: Response time histogram (overall or for a segment, or for one apiKey / bucket)
+        if (url.pathname === '/api/latency-histogram') {
+            const apiKey = url.searchParams.get('apiKey');
+            const bucket = url.searchParams.get('bucket');
+            const [{ bins, percentiles }, segmentInfo] = await Promise.all([
+                getLatencyHistogram(env, range, apiKey, bucket, segment),
+                describeSegment(env, segment, range)
+            ]);
+            const response: LatencyHistogramResponse = {
+                ...describeRange(range),
+                ...segmentInfo,
+                bins,
+                percentiles,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Average, p99 and peak request rates (overall or for a segment, or for one apiKey / bucket)
+        if (url.pathname === '/api/request-rates') {
+            const apiKey = url.searchParams.get('apiKey');
+            const bucket = url.searchParams.get('bucket');
+            const [rates, segmentInfo] = await Promise.all([
+                getRequestRates(env, range, apiKey, bucket, segment),
+                describeSegment(env, segment, range)
+            ]);
+            const response: RequestRatesResponse = {
+                ...describeRange(range),
+                ...segmentInfo,
+                ...rates,
+                windowSeconds: RATE_WINDOW_SECONDS,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Rate limit compliance (observed traffic against D1 limits)
+        if (url.pathname === '/api/rate-limits') {
+            const report = await getRateLimitCompliance(env, range, limit);
+            const response: RateLimitResponse = {
+                ...describeRange(range),
+                ...report,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Keys used after expires_at, and busy keys expiring within days (default 30)
+        if (url.pathname === '/api/key-expiry') {
+            const days = parseInt(url.searchParams.get('days') || '30', 10);
+            const minRequests = parseInt(url.searchParams.get('minRequests') || '100', 10);
+            const report = await getKeyExpiryReport(env, range, days, minRequests, limit);
+            const response: KeyExpiryResponse = {
+                ...describeRange(range),
+                ...report,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Keys in traffic without an api_keys_archive row (limit: keys listed, default 20)
+        if (url.pathname === '/api/unknown-keys') {
+            const report = await getUnknownKeyReport(env, range, limit);
+            const response: UnknownKeysResponse = {
+                ...describeRange(range),
+                ...report,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Dormant, never used and sharply declining keys; days (7, 30 or 90) is the idle window, ending now
+        if (url.pathname === '/api/dormant-keys') {
+            const days = parseInt(url.searchParams.get('days') || '30', 10);
+            const report = await getDormantKeyReport(env, days, limit);
+            const response: DormantKeysResponse = {
+                ...describeRange(resolvePreset(DORMANT_LOOKBACK_PRESET)),
+                ...report,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
+        }
+
+        // Route: Search keys, names, emails, organizations, IP addresses and buckets
+        if (url.pathname === '/api/search') {
+            const query = url.searchParams.get('q');
+            if (!query) {
+                return errorResponse(400, 'missing_parameter', 'q parameter is required', corsHeaders);
+            }
+            const data = await searchUsage(env, query, range, limit);
+            const response: SearchResponse = {
+                ...describeRange(range),
+                query,
+                data,
+                timestamp: new Date().toISOString()
+            };
+            return jsonResponse(response, 200, corsHeaders);
         }
 
         // Route: Get IP geolocation info
         if (url.pathname === '/api/ip-info') {
             const ip = url.searchParams.get('ip');
             if (!ip) {
-                return jsonResponse({ error: 'ip parameter is required' }, 400, corsHeaders);
+                return errorResponse(400, 'missing_parameter', 'ip parameter is required', corsHeaders);
             }
 
             try {
@@ -363,9 +642,10 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
             }
         }
 
-        // Route: Get all API keys
+        // Route: Get all API keys (usage=1 adds each key's recent traffic as a usage field)
         if (url.pathname === '/api/api-keys') {
             if (request.method === 'GET') {
+                let keys: Record<string, unknown>[];
                 try {
                     const result = await env.DB
                         .prepare(`
@@ -386,19 +666,23 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
                             ORDER BY created_at DESC
                         `)
                         .all();
-
-                    return jsonResponse({
-                        data: result.results,
-                        count: result.results.length,
-                        timestamp: new Date().toISOString()
-                    }, 200, corsHeaders);
+                    keys = result.results;
                 } catch (error) {
                     console.error('Error fetching API keys:', error);
-                    return jsonResponse({
-                        error: 'Failed to fetch API keys',
-                        message: error instanceof Error ? error.message : 'Unknown error'
-                    }, 500, corsHeaders);
+                    return errorResponse(500, 'database_error', 'Failed to fetch API keys', corsHeaders);
+                }
+
+                // Analytics Engine errors here surface like those of any other usage query
+                if (url.searchParams.get('usage') === '1') {
+                    const usage = await getApiKeyUsage(env, keys.map(key => String(key.api_key)));
+                    keys = keys.map(key => ({ ...key, usage: usage.get(String(key.api_key)) }));
                 }
+
+                return jsonResponse({
+                    data: keys,
+                    count: keys.length,
+                    timestamp: new Date().toISOString()
+                }, 200, corsHeaders);
             }
 
             if (request.method === 'PATCH') {
@@ -406,9 +690,7 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
                     const body = await request.json() as { id: number; name?: string; max_per_second?: number };
 
                     if (!body.id) {
-                        return jsonResponse({
-                            error: 'Missing required field: id'
-                        }, 400, corsHeaders);
+                        return errorResponse(400, 'missing_parameter', 'Missing required field: id', corsHeaders);
                     }
 
                     // Build update query based on provided fields
@@ -426,9 +708,7 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
                     }
 
                     if (updates.length === 0) {
-                        return jsonResponse({
-                            error: 'No fields to update'
-                        }, 400, corsHeaders);
+                        return errorResponse(400, 'invalid_parameter', 'No fields to update', corsHeaders);
                     }
 
                     // Add id to values for WHERE clause
@@ -451,25 +731,64 @@ async function handleApiRequest(request: Request, url: URL, env: Env, corsHeader
                     }, 200, corsHeaders);
                 } catch (error) {
                     console.error('Error updating API key:', error);
-                    return jsonResponse({
-                        error: 'Failed to update API key',
-                        message: error instanceof Error ? error.message : 'Unknown error'
-                    }, 500, corsHeaders);
+                    return errorResponse(500, 'database_error', 'Failed to update API key', corsHeaders);
                 }
             }
         }
 
-        return jsonResponse({ error: 'API endpoint not found' }, 404, corsHeaders);
+        return errorResponse(404, 'not_found', 'API endpoint not found', corsHeaders);
 
     } catch (error) {
+        // Rejected query input (malformed key, bucket, etc.) is the caller's fault
+        if (error instanceof QueryValidationError) {
+            return errorResponse(400, 'invalid_parameter', error.message, corsHeaders);
+        }
+
+        // Analytics Engine failures already carry their status and code (details were logged where they happened)
+        if (error instanceof AnalyticsEngineError) {
+            return errorResponse(error.status, error.code, error.message, corsHeaders, {
+                retryable: error.retryable,
+                retryAfter: error instanceof AnalyticsRateLimitError ? error.retryAfterSeconds : null
+            });
+        }
+
         console.error('API error:', error);
-        return jsonResponse({
-            error: 'Internal server error',
-            message: error instanceof Error ? error.message : 'Unknown error'
-        }, 500, corsHeaders);
+        return errorResponse(500, 'internal_error', 'Internal server error', corsHeaders);
     }
 }
 
+/**
+ * Error envelope shared by every API route: { error, code, retryable, retryAfter?, timestamp }
+ *
+ * error is a message meant for people (the dashboard shows it as is), code is stable for scripts.
+ */
+function errorResponse(
+    status: number,
+    code: string,
+    message: string,
+    corsHeaders: Record<string, string>,
+    options: { retryable?: boolean; retryAfter?: number | null } = {}
+): Response {
+    const retryAfter = options.retryAfter ?? null;
+    const body: ApiErrorResponse = {
+        error: message,
+        code,
+        retryable: options.retryable ?? false,
+        ...(retryAfter !== null ? { retryAfter } : {}),
+        timestamp: new Date().toISOString()
+    };
+    const headers = retryAfter !== null ? { ...corsHeaders, 'Retry-After': String(Math.ceil(retryAfter)) } : corsHeaders;
+    return jsonResponse(body, status, headers);
+}
+
+/**
+ * Segment fields for the routes that take ?segment; the truncation check reuses
+ * the academic keys lookup of the route's own queries
+ */
+async function describeSegment(env: Env, segment: Segment | null, range: TimeRange): Promise<SegmentInfo> {
+    return { segment, segmentTruncated: await segmentKeysTruncated(env, segment, range) };
+}
+
 /**
  * JSON response helper
  */
@@ -540,6 +859,9 @@ function getHtmlDashboard(): string {
             height: 30px;
             animation: spin 1s linear infinite;
         }
+        .sort-header::after {
+            content: attr(data-arrow);
+        }
         @keyframes spin {
             0% { transform: rotate(0deg); }
             100% { transform: rotate(360deg); }
@@ -563,20 +885,37 @@ function getHtmlDashboard(): string {
                     <p class="text-gray-600 mt-1">Real-time usage monitoring and insights</p>
                 </div>
                 <div class="flex gap-2">
+                    <!-- Search keys, emails, organizations, IPs and buckets -->
+                    <div class="relative">
+                        <input id="searchInput" type="search" autocomplete="off" placeholder="Search keys, emails, IPs..."
+                            class="px-3 py-2 w-64 border border-gray-300 rounded-lg">
+                        <div id="searchResults" class="hidden absolute right-0 z-20 mt-1 w-96 max-h-96 overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 text-sm"></div>
+                    </div>
                     <a href="/api-keys" class="px-4 py-2 rounded-lg bg-purple-600 text-white font-medium hover:bg-purple-700 transition">
                         API Keys
                     </a>
-                    <button id="btnHour" class="px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition">
-                        Last Hour
-                    </button>
-                    <button id="btnDay" class="px-4 py-2 rounded-lg bg-white text-gray-700 font-medium border border-gray-300 hover:bg-gray-50 transition">
-                        Last 24 Hours
-                    </button>
+                    <div id="rangePresets" class="flex gap-1">
+                        <button data-range="1h" class="range-btn px-3 py-2 rounded-lg font-medium transition">1h</button>
+                        <button data-range="24h" class="range-btn px-3 py-2 rounded-lg font-medium transition">24h</button>
+                        <button data-range="7d" class="range-btn px-3 py-2 rounded-lg font-medium transition">7d</button>
+                        <button data-range="30d" class="range-btn px-3 py-2 rounded-lg font-medium transition">30d</button>
+                        <button data-range="90d" class="range-btn px-3 py-2 rounded-lg font-medium transition">90d</button>
+                    </div>
                     <button id="btnRefresh" class="px-4 py-2 rounded-lg bg-green-600 text-white font-medium hover:bg-green-700 transition">
                         Refresh
                     </button>
                 </div>
             </div>
+            <!-- Custom time range -->
+            <div class="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-700">
+                <span>From</span>
+                <input id="rangeFrom" type="datetime-local" class="px-2 py-1 border border-gray-300 rounded">
+                <span>to</span>
+                <input id="rangeTo" type="datetime-local" class="px-2 py-1 border border-gray-300 rounded">
+                <button id="btnApplyRange" class="px-3 py-1 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition">
+                    Apply
+                </button>
+            </div>
             <div id="lastUpdated" class="text-sm text-gray-500 mt-2"></div>
         </div>
 
@@ -595,9 +934,12 @@ function getHtmlDashboard(): string {
                     </div>
                     <p class="text-sm text-gray-600" id="contextUserEmail"></p>
                 </div>
-                <button id="backToOverview" class="px-4 py-2 rounded-lg bg-gray-600 text-white font-medium hover:bg-gray-700 transition">
-                    ← Back to Overview
-                </button>
+                <div class="flex items-center gap-6">
+                    <div id="contextRates" class="flex gap-4 text-sm"></div>
+                    <button id="backToOverview" class="px-4 py-2 rounded-lg bg-gray-600 text-white font-medium hover:bg-gray-700 transition">
+                        ← Back to Overview
+                    </button>
+                </div>
             </div>
         </div>
 
@@ -605,30 +947,70 @@ function getHtmlDashboard(): string {
         <div class="glass rounded-lg shadow-xl p-6 mb-6">
             <div class="flex justify-between items-center mb-4">
                 <h2 class="text-xl font-bold text-gray-800" id="timelineTitle">Usage</h2>
-                <div id="chartLoading" class="hidden">
-                    <div class="spinner" style="width: 20px; height: 20px; border-width: 2px;"></div>
+                <div class="flex items-center gap-4">
+                    <div id="overviewChartToggles" class="flex items-center gap-4">
+                        <!-- Narrows every overview panel to one segment -->
+                        <select id="segmentSelect" class="px-2 py-1 border border-gray-300 rounded text-sm text-gray-700" title="Segment">
+                            <option value="">All traffic</option>
+                            <option value="academic">Academic</option>
+                            <option value="non_academic">Non-academic</option>
+                            <option value="anonymous">Anonymous</option>
+                        </select>
+                        <span id="segmentTruncated" class="hidden text-xs text-yellow-700" title="Only the busiest keys were checked for is_academic; quieter academic keys are counted as non-academic">⚠ approximate split</span>
+                        <label class="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                            <input id="showSegments" type="checkbox" class="rounded">
+                            By segment
+                        </label>
+                        <label class="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                            <input id="showPreviousPeriod" type="checkbox" class="rounded" checked>
+                            Previous period
+                        </label>
+                        <label class="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                            <input id="showLatencyBands" type="checkbox" class="rounded">
+                            Latency percentiles
+                        </label>
+                    </div>
+                    <div id="chartLoading" class="hidden">
+                        <div class="spinner" style="width: 20px; height: 20px; border-width: 2px;"></div>
+                    </div>
                 </div>
             </div>
             <div class="relative h-64">
                 <canvas id="timelineChart"></canvas>
             </div>
+            <div id="anomalySummary" class="hidden mt-4 flex flex-wrap gap-2"></div>
         </div>
 
         <!-- Tables Container -->
         <div id="mainView" class="grid grid-cols-1 lg:grid-cols-2 gap-6" style="grid-auto-rows: auto;">
             <!-- Top Authenticated Users -->
             <div class="glass rounded-lg shadow-xl p-6">
-                <h2 class="text-xl font-bold text-gray-800 mb-4">Top API Key Users</h2>
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-xl font-bold text-gray-800">Top API Key Users</h2>
+                    <select data-table="users" class="sort-select px-2 py-1 border border-gray-300 rounded text-sm text-gray-700" title="Sort by">
+                        <option value="requestCount">Requests</option>
+                        <option value="requestsPerSecond">Avg RPS</option>
+                        <option value="peakRequestsPerSecond">Peak RPS</option>
+                        <option value="avgResponseTime">Avg time</option>
+                        <option value="p50ResponseTime">p50 time</option>
+                        <option value="p95ResponseTime">p95 time</option>
+                        <option value="p99ResponseTime">p99 time</option>
+                        <option value="successRate">Success rate</option>
+                        <option value="errorCount">Errors</option>
+                        <option value="serverErrorCount">5xx errors</option>
+                        <option value="throttledCount">429s</option>
+                    </select>
+                </div>
                 <div class="overflow-x-auto">
                     <table class="w-full text-sm">
                         <thead>
                             <tr class="border-b-2 border-gray-300">
                                 <th class="text-left py-2 px-2 font-semibold text-gray-700">#</th>
                                 <th class="text-left py-2 px-2 font-semibold text-gray-700">User</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">RPS</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Success</th>
+                                <th data-table="users" data-sort="requestCount" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Requests</th>
+                                <th data-table="users" data-sort="peakRequestsPerSecond" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600" title="Busiest ${RATE_WINDOW_SECONDS}-second window">Peak RPS</th>
+                                <th data-table="users" data-sort="avgResponseTime" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Avg Time</th>
+                                <th data-table="users" data-sort="successRate" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Success</th>
                             </tr>
                         </thead>
                         <tbody id="topUsersTable">
@@ -654,17 +1036,32 @@ function getHtmlDashboard(): string {
 
             <!-- Top Anonymous Users -->
             <div class="glass rounded-lg shadow-xl p-6">
-                <h2 class="text-xl font-bold text-gray-800 mb-4">Top Anonymous Users</h2>
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-xl font-bold text-gray-800">Top Anonymous Users</h2>
+                    <select data-table="anonymous" class="sort-select px-2 py-1 border border-gray-300 rounded text-sm text-gray-700" title="Sort by">
+                        <option value="requestCount">Requests</option>
+                        <option value="requestsPerSecond">Avg RPS</option>
+                        <option value="peakRequestsPerSecond">Peak RPS</option>
+                        <option value="avgResponseTime">Avg time</option>
+                        <option value="p50ResponseTime">p50 time</option>
+                        <option value="p95ResponseTime">p95 time</option>
+                        <option value="p99ResponseTime">p99 time</option>
+                        <option value="successRate">Success rate</option>
+                        <option value="errorCount">Errors</option>
+                        <option value="serverErrorCount">5xx errors</option>
+                        <option value="throttledCount">429s</option>
+                    </select>
+                </div>
                 <div class="overflow-x-auto">
                     <table class="w-full text-sm">
                         <thead>
                             <tr class="border-b-2 border-gray-300">
                                 <th class="text-left py-2 px-2 font-semibold text-gray-700">#</th>
                                 <th class="text-left py-2 px-2 font-semibold text-gray-700">IP</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">RPS</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
-                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Success</th>
+                                <th data-table="anonymous" data-sort="requestCount" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Requests</th>
+                                <th data-table="anonymous" data-sort="peakRequestsPerSecond" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600" title="Busiest ${RATE_WINDOW_SECONDS}-second window">Peak RPS</th>
+                                <th data-table="anonymous" data-sort="avgResponseTime" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Avg Time</th>
+                                <th data-table="anonymous" data-sort="successRate" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Success</th>
                             </tr>
                         </thead>
                         <tbody id="topAnonymousTable">
@@ -688,6 +1085,57 @@ function getHtmlDashboard(): string {
                 </div>
             </div>
 
+            <!-- Top Organizations -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <h2 class="text-xl font-bold text-gray-800 mb-4">Top Organizations</h2>
+                <div id="organizationsSummary" class="text-sm text-gray-600 mb-2"></div>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-sm">
+                        <thead>
+                            <tr class="border-b-2 border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">#</th>
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Organization</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700" title="Keys with traffic / registered keys">Keys</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Errors</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Success</th>
+                            </tr>
+                        </thead>
+                        <tbody id="topOrganizationsTable">
+                            <tr>
+                                <td colspan="7" class="text-center py-8 text-gray-500">Loading...</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <!-- Premium Customers -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <h2 class="text-xl font-bold text-gray-800 mb-4">Premium Customers</h2>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-sm">
+                        <thead>
+                            <tr class="border-b-2 border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Domain</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700" title="Requests made with the domain's keys / referred from the domain">Key / Referrer</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">p95</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Error Rate</th>
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Trend</th>
+                            </tr>
+                        </thead>
+                        <tbody id="premiumDomainsTable">
+                            <tr>
+                                <td colspan="7" class="text-center py-8 text-gray-500">Loading...</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
             <!-- Top Referrers (Aggregate) -->
             <div class="glass rounded-lg shadow-xl p-6">
                 <h2 class="text-xl font-bold text-gray-800 mb-4">Top Referrers</h2>
@@ -703,6 +1151,169 @@ function getHtmlDashboard(): string {
                     <p class="text-gray-500">Loading...</p>
                 </div>
             </div>
+
+            <!-- Status Codes (Aggregate) -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <h2 class="text-xl font-bold text-gray-800 mb-4">Status Codes</h2>
+                <div id="aggregateStatusContainer" class="text-sm">
+                    <p class="text-gray-500">Loading...</p>
+                </div>
+            </div>
+
+            <!-- Query Features (Aggregate) -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <h2 class="text-xl font-bold text-gray-800 mb-4">Query Features</h2>
+                <div id="aggregateQueryParamsContainer" class="text-sm">
+                    <p class="text-gray-500">Loading...</p>
+                </div>
+            </div>
+
+            <!-- Entity Breakdown (Aggregate) -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <h2 class="text-xl font-bold text-gray-800 mb-4">API Endpoints</h2>
+                <div id="aggregateEntitiesContainer" class="text-sm">
+                    <p class="text-gray-500">Loading...</p>
+                </div>
+            </div>
+
+            <!-- Rate Limit Compliance -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <div class="flex flex-col md:flex-row justify-between items-start md:items-center gap-2 mb-4">
+                    <h2 class="text-xl font-bold text-gray-800">Rate Limit Compliance</h2>
+                    <div class="flex gap-1 text-sm">
+                        <button data-list="keys" class="rate-limit-tab px-3 py-1 rounded">Closest to limit</button>
+                        <button data-list="throttled" class="rate-limit-tab px-3 py-1 rounded">Throttled</button>
+                        <button data-list="underused" class="rate-limit-tab px-3 py-1 rounded">Under allocation</button>
+                    </div>
+                </div>
+                <div id="rateLimitSummary" class="text-sm text-gray-600 mb-2"></div>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-sm">
+                        <thead>
+                            <tr class="border-b-2 border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">User</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Peak / sec</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Daily</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">429s</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody id="rateLimitTable">
+                            <tr>
+                                <td colspan="6" class="text-center py-8 text-gray-500">Loading...</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <!-- Dormant Keys -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <div class="flex flex-col md:flex-row justify-between items-start md:items-center gap-2 mb-4">
+                    <h2 class="text-xl font-bold text-gray-800">Dormant Keys</h2>
+                    <div class="flex gap-2 text-sm">
+                        <select id="dormantWindow" class="px-2 py-1 border border-gray-300 rounded text-gray-700" title="No traffic for">
+                            <option value="7">Idle 7 days</option>
+                            <option value="30" selected>Idle 30 days</option>
+                            <option value="90">Idle 90 days</option>
+                        </select>
+                        <div class="flex gap-1">
+                            <button data-list="dormant" class="dormant-tab px-3 py-1 rounded">Dormant</button>
+                            <button data-list="neverUsed" class="dormant-tab px-3 py-1 rounded">Never used</button>
+                            <button data-list="declining" class="dormant-tab px-3 py-1 rounded">Declining</button>
+                        </div>
+                    </div>
+                </div>
+                <div id="dormantSummary" class="text-sm text-gray-600 mb-2"></div>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-sm">
+                        <thead id="dormantHead"></thead>
+                        <tbody id="dormantTable">
+                            <tr>
+                                <td colspan="4" class="text-center py-8 text-gray-500">Loading...</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <!-- Unknown Keys -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <h2 class="text-xl font-bold text-gray-800 mb-1">Unknown Keys</h2>
+                <p class="text-sm text-gray-500 mb-2">Keys sent in requests that are not in api_keys_archive: mistyped, revoked or forged</p>
+                <div id="unknownKeysSummary" class="text-sm text-gray-600 mb-2"></div>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-sm">
+                        <thead>
+                            <tr class="border-b-2 border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Key</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Errors</th>
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Status Codes</th>
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Top IPs</th>
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Top User Agents</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Last Seen</th>
+                            </tr>
+                        </thead>
+                        <tbody id="unknownKeysTable">
+                            <tr>
+                                <td colspan="7" class="text-center py-8 text-gray-500">Loading...</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <!-- Key Expiry -->
+            <div class="glass rounded-lg shadow-xl p-6 lg:col-span-2">
+                <div class="flex flex-col md:flex-row justify-between items-start md:items-center gap-2 mb-4">
+                    <h2 class="text-xl font-bold text-gray-800">Key Expiry</h2>
+                    <div class="flex gap-1 text-sm">
+                        <button data-list="expired" class="key-expiry-tab px-3 py-1 rounded">Used after expiry</button>
+                        <button data-list="expiring" class="key-expiry-tab px-3 py-1 rounded">Expiring soon</button>
+                    </div>
+                </div>
+                <div id="keyExpirySummary" class="text-sm text-gray-600 mb-2"></div>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-sm">
+                        <thead>
+                            <tr class="border-b-2 border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">User</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Expires</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Last Seen</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">After Expiry</th>
+                            </tr>
+                        </thead>
+                        <tbody id="keyExpiryTable">
+                            <tr>
+                                <td colspan="5" class="text-center py-8 text-gray-500">Loading...</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+
+        <!-- Organization Member Keys (hidden by default) -->
+        <div id="organizationDetail" class="hidden glass rounded-lg shadow-xl p-6 mb-6">
+            <h3 class="text-xl font-bold text-gray-800 mb-4">Member Keys</h3>
+            <div class="overflow-x-auto">
+                <table class="w-full text-sm">
+                    <thead>
+                        <tr class="border-b-2 border-gray-300">
+                            <th class="text-left py-2 px-2 font-semibold text-gray-700">Key</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                            <th class="py-2 px-2 font-semibold text-gray-700 w-1/4">Share</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Errors</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Success</th>
+                        </tr>
+                    </thead>
+                    <tbody id="organizationKeysTable"></tbody>
+                </table>
+            </div>
         </div>
 
         <!-- Status Breakdown Section (hidden by default) -->
@@ -725,6 +1336,33 @@ function getHtmlDashboard(): string {
                 </div>
             </div>
 
+            <!-- Entity Breakdown -->
+            <div class="glass rounded-lg shadow-xl p-6 mb-6">
+                <h3 class="text-xl font-bold text-gray-800 mb-4">API Endpoints</h3>
+                <div id="entitiesContainer" class="text-sm">
+                    <!-- Will be populated dynamically -->
+                </div>
+            </div>
+
+            <!-- Query Features -->
+            <div class="glass rounded-lg shadow-xl p-6 mb-6">
+                <h3 class="text-xl font-bold text-gray-800 mb-4">Query Features</h3>
+                <div id="queryParamsContainer" class="text-sm">
+                    <!-- Will be populated dynamically -->
+                </div>
+            </div>
+
+            <!-- Response Time Distribution -->
+            <div class="glass rounded-lg shadow-xl p-6 mb-6">
+                <div class="flex justify-between items-center mb-4">
+                    <h3 class="text-xl font-bold text-gray-800">Response Time Distribution</h3>
+                    <div id="latencyPercentilesSummary" class="text-sm text-gray-600"></div>
+                </div>
+                <div class="relative h-48">
+                    <canvas id="latencyHistogramChart"></canvas>
+                </div>
+            </div>
+
             <!-- Sample URLs -->
             <div class="glass rounded-lg shadow-xl p-6 mb-6">
                 <h3 class="text-xl font-bold text-gray-800 mb-4">Sample URLs</h3>
@@ -756,8 +1394,21 @@ function getHtmlDashboard(): string {
 
     <script>
         // State
-        let currentPeriod = 'hour';
+        // Either a preset ('1h', '24h', '7d', '30d', '90d') or an explicit ISO from/to pair
+        let currentRange = { preset: '1h', from: null, to: null };
+        const RANGE_PRESETS = { '1h': 3600000, '24h': 86400000, '7d': 604800000, '30d': 2592000000, '90d': 7776000000 };
         let timelineChart = null;
+        let latencyHistogramChart = null;
+        let overviewTimeline = null;
+        let segmentTimeline = null;
+        // Segment the overview is narrowed to ('' for all traffic)
+        let currentSegment = '';
+        let rateLimitReport = null;
+        let rateLimitList = 'keys';
+        let keyExpiryReport = null;
+        let keyExpiryList = 'expired';
+        let dormantReport = null;
+        let dormantList = 'dormant';
         let currentView = {
             type: 'overview', // 'overview', 'user', or 'anonymous'
             apiKey: null,
@@ -766,19 +1417,31 @@ function getHtmlDashboard(): string {
             email: null
         };
 
-        // Pagination state
-        let allUsers = [];
-        let allAnonymousUsers = [];
-        let usersPage = 1;
-        let anonymousPage = 1;
+        // Pagination state: the current page of each top list, as the API returned it,
+        // and the nextCursors that led to it (empty on the first page). Cursors keep the
+        // first page's from/to, so preset ranges do not move while paging.
+        let usersList = null;
+        let anonymousList = null;
+        const topListCursors = { users: [], anonymous: [] };
+        // Column and direction each top list is ranked by server-side
+        const topListSort = {
+            users: { sort: 'requestCount', order: 'desc' },
+            anonymous: { sort: 'requestCount', order: 'desc' }
+        };
+        let bypassCache = false;
         const pageSize = 10;
 
+        // Search box state: pending debounce timer and the latest request
+        let searchTimer = null;
+        let searchSequence = 0;
+
         // Cache for enriched anonymous user data
         const topIpCache = new Map(); // bucket -> { ip, org, location, etc. }
 
         // DOM elements
-        const btnHour = document.getElementById('btnHour');
-        const btnDay = document.getElementById('btnDay');
+        const rangeButtons = document.querySelectorAll('.range-btn');
+        const rangeFrom = document.getElementById('rangeFrom');
+        const rangeTo = document.getElementById('rangeTo');
         const btnRefresh = document.getElementById('btnRefresh');
         const chartLoading = document.getElementById('chartLoading');
         const error = document.getElementById('error');
@@ -786,6 +1449,7 @@ function getHtmlDashboard(): string {
         const userContext = document.getElementById('userContext');
         const statusBreakdown = document.getElementById('statusBreakdown');
         const mainView = document.getElementById('mainView');
+        const organizationDetail = document.getElementById('organizationDetail');
 
         // Initialize
         document.addEventListener('DOMContentLoaded', () => {
@@ -795,22 +1459,126 @@ function getHtmlDashboard(): string {
 
         // Event listeners
         function setupEventListeners() {
-            btnHour.addEventListener('click', () => {
-                currentPeriod = 'hour';
-                updatePeriodButtons();
-                loadData();
+            const searchInput = document.getElementById('searchInput');
+            searchInput.addEventListener('input', () => {
+                clearTimeout(searchTimer);
+                searchTimer = setTimeout(() => runSearch(searchInput.value), 300);
+            });
+            searchInput.addEventListener('keydown', (e) => {
+                if (e.key === 'Escape') {
+                    hideSearchResults();
+                }
+            });
+            document.addEventListener('click', (e) => {
+                if (!e.target.closest('#searchResults') && e.target !== searchInput) {
+                    hideSearchResults();
+                }
+            });
+
+            rangeButtons.forEach(btn => {
+                btn.addEventListener('click', () => {
+                    currentRange = { preset: btn.dataset.range, from: null, to: null };
+                    updateRangeControls();
+                    loadData();
+                });
             });
 
-            btnDay.addEventListener('click', () => {
-                currentPeriod = 'day';
-                updatePeriodButtons();
+            document.getElementById('btnApplyRange').addEventListener('click', () => {
+                if (!rangeFrom.value) {
+                    showError('Please choose a start time for the custom range.');
+                    return;
+                }
+                const from = new Date(rangeFrom.value);
+                const to = rangeTo.value ? new Date(rangeTo.value) : new Date();
+                if (from >= to) {
+                    showError('The start of the range must be before the end.');
+                    return;
+                }
+                currentRange = { preset: null, from: from.toISOString(), to: to.toISOString() };
+                updateRangeControls();
                 loadData();
             });
 
+            // Refresh skips the server-side query cache
             btnRefresh.addEventListener('click', () => {
+                bypassCache = true;
+                loadData().finally(() => {
+                    bypassCache = false;
+                });
+            });
+
+            // Latency bands and the previous period belong to the single-series chart
+            document.getElementById('showLatencyBands').addEventListener('change', () => {
+                document.getElementById('showSegments').checked = false;
+                renderOverviewTimeline(overviewTimeline);
+            });
+
+            document.getElementById('showPreviousPeriod').addEventListener('change', () => {
+                document.getElementById('showSegments').checked = false;
+                renderOverviewTimeline(overviewTimeline);
+            });
+
+            document.getElementById('segmentSelect').addEventListener('change', (e) => {
+                currentSegment = e.target.value;
+                topListCursors.users = [];
+                topListCursors.anonymous = [];
+                updateURL(false);
                 loadData();
             });
 
+            document.getElementById('showSegments').addEventListener('change', async (e) => {
+                if (!e.target.checked) {
+                    renderOverviewTimeline(overviewTimeline);
+                    return;
+                }
+                try {
+                    segmentTimeline = await fetchJson('/api/segment-timeline?' + rangeQuery());
+                    renderSegmentTimeline(segmentTimeline);
+                } catch (err) {
+                    showError(describeError(err, 'Failed to load the segment timeline. Please try again.'));
+                }
+            });
+
+            // Clicking the active column flips the order; another column starts descending
+            document.querySelectorAll('.sort-header').forEach(header => {
+                header.addEventListener('click', () => {
+                    const current = topListSort[header.dataset.table];
+                    const order = current.sort === header.dataset.sort && current.order === 'desc' ? 'asc' : 'desc';
+                    resortTopList(header.dataset.table, header.dataset.sort, order);
+                });
+            });
+
+            document.querySelectorAll('.sort-select').forEach(select => {
+                select.addEventListener('change', () => {
+                    resortTopList(select.dataset.table, select.value, 'desc');
+                });
+            });
+
+            document.querySelectorAll('.rate-limit-tab').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    rateLimitList = btn.dataset.list;
+                    renderRateLimitReport(rateLimitReport);
+                });
+            });
+
+            document.querySelectorAll('.dormant-tab').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    dormantList = btn.dataset.list;
+                    renderDormantReport(dormantReport);
+                });
+            });
+
+            document.getElementById('dormantWindow').addEventListener('change', async () => {
+                renderDormantReport(await loadDormantReport());
+            });
+
+            document.querySelectorAll('.key-expiry-tab').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    keyExpiryList = btn.dataset.list;
+                    renderKeyExpiryReport(keyExpiryReport);
+                });
+            });
+
             // Back to overview button
             const backBtn = document.getElementById('backToOverview');
             if (backBtn) {
@@ -831,32 +1599,30 @@ function getHtmlDashboard(): string {
 
             // Pagination event listeners
             document.getElementById('usersPrevPage').addEventListener('click', () => {
-                if (usersPage > 1) {
-                    usersPage--;
-                    renderTopUsers(allUsers);
+                if (topListCursors.users.length > 0) {
+                    topListCursors.users.pop();
+                    loadTopListPage('users');
                 }
             });
 
             document.getElementById('usersNextPage').addEventListener('click', () => {
-                const totalPages = Math.ceil(allUsers.length / pageSize);
-                if (usersPage < totalPages) {
-                    usersPage++;
-                    renderTopUsers(allUsers);
+                if (usersList && usersList.nextCursor) {
+                    topListCursors.users.push(usersList.nextCursor);
+                    loadTopListPage('users');
                 }
             });
 
             document.getElementById('anonymousPrevPage').addEventListener('click', () => {
-                if (anonymousPage > 1) {
-                    anonymousPage--;
-                    renderTopAnonymous(allAnonymousUsers, currentPeriod);
+                if (topListCursors.anonymous.length > 0) {
+                    topListCursors.anonymous.pop();
+                    loadTopListPage('anonymous');
                 }
             });
 
             document.getElementById('anonymousNextPage').addEventListener('click', () => {
-                const totalPages = Math.ceil(allAnonymousUsers.length / pageSize);
-                if (anonymousPage < totalPages) {
-                    anonymousPage++;
-                    renderTopAnonymous(allAnonymousUsers, currentPeriod);
+                if (anonymousList && anonymousList.nextCursor) {
+                    topListCursors.anonymous.push(anonymousList.nextCursor);
+                    loadTopListPage('anonymous');
                 }
             });
         }
@@ -866,12 +1632,25 @@ function getHtmlDashboard(): string {
             const params = new URLSearchParams(window.location.search);
             const apiKey = params.get('user');
             const bucket = params.get('anonymous');
+            const organization = params.get('organization');
+            const range = params.get('range');
+            const from = params.get('from');
+            const to = params.get('to');
             const period = params.get('period');
-
-            if (period && (period === 'hour' || period === 'day')) {
-                currentPeriod = period;
-                updatePeriodButtons();
+            const segment = params.get('segment');
+
+            currentSegment = ['academic', 'non_academic', 'anonymous'].includes(segment) ? segment : '';
+            document.getElementById('segmentSelect').value = currentSegment;
+
+            if (from && to) {
+                currentRange = { preset: null, from, to };
+            } else if (range && RANGE_PRESETS[range]) {
+                currentRange = { preset: range, from: null, to: null };
+            } else if (period === 'hour' || period === 'day') {
+                // Links from before custom ranges existed
+                currentRange = { preset: period === 'hour' ? '1h' : '24h', from: null, to: null };
             }
+            updateRangeControls();
 
             if (apiKey) {
                 // Will load user data, but need to fetch user info first
@@ -880,6 +1659,9 @@ function getHtmlDashboard(): string {
             } else if (bucket) {
                 currentView = { type: 'anonymous', apiKey: null, bucket, name: bucket, email: 'Anonymous User Group' };
                 loadData();
+            } else if (organization) {
+                currentView = { type: 'organization', apiKey: null, bucket: null, name: organization, email: null, organization };
+                loadData();
             } else {
                 showOverview();
             }
@@ -887,12 +1669,22 @@ function getHtmlDashboard(): string {
 
         function updateURL(pushState = true) {
             const params = new URLSearchParams();
-            params.set('period', currentPeriod);
+            if (currentRange.preset) {
+                params.set('range', currentRange.preset);
+            } else {
+                params.set('from', currentRange.from);
+                params.set('to', currentRange.to);
+            }
+            if (currentSegment) {
+                params.set('segment', currentSegment);
+            }
 
             if (currentView.type === 'user' && currentView.apiKey) {
                 params.set('user', currentView.apiKey);
             } else if (currentView.type === 'anonymous' && currentView.bucket) {
                 params.set('anonymous', currentView.bucket);
+            } else if (currentView.type === 'organization' && currentView.organization) {
+                params.set('organization', currentView.organization);
             }
 
             const newURL = window.location.pathname + '?' + params.toString();
@@ -910,15 +1702,76 @@ function getHtmlDashboard(): string {
             loadData();
         }
 
-        // Update period button styles
-        function updatePeriodButtons() {
-            if (currentPeriod === 'hour') {
-                btnHour.className = 'px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition';
-                btnDay.className = 'px-4 py-2 rounded-lg bg-white text-gray-700 font-medium border border-gray-300 hover:bg-gray-50 transition';
-            } else {
-                btnHour.className = 'px-4 py-2 rounded-lg bg-white text-gray-700 font-medium border border-gray-300 hover:bg-gray-50 transition';
-                btnDay.className = 'px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition';
+        // Fetch an API route as JSON, throwing the error envelope's message on failure
+        async function fetchJson(url, options) {
+            const response = await fetch(url, options);
+            const body = await response.json().catch(() => null);
+            if (!response.ok) {
+                const err = new Error(body && body.error ? body.error : 'Request failed with status ' + response.status);
+                err.code = body && body.code;
+                err.retryable = Boolean(body && body.retryable);
+                throw err;
+            }
+            return body;
+        }
+
+        // Message for a failed request: the API's own message when there is one
+        function describeError(err, fallback) {
+            if (!err || !err.code) {
+                return fallback;
+            }
+            return err.message + (err.retryable ? ' (temporary, try again in a moment)' : '') + ' [' + err.code + ']';
+        }
+
+        // Query string fragment for the current time range
+        function rangeQuery() {
+            const fresh = bypassCache ? '&fresh=1' : '';
+            if (currentRange.preset) {
+                return 'range=' + currentRange.preset + fresh;
+            }
+            return 'from=' + encodeURIComponent(currentRange.from) + '&to=' + encodeURIComponent(currentRange.to) + fresh;
+        }
+
+        // Query string fragment narrowing overview routes to the selected segment
+        function segmentQuery() {
+            return currentSegment ? '&segment=' + currentSegment : '';
+        }
+
+        // Length of the current range in milliseconds
+        function rangeSpanMs() {
+            if (currentRange.preset) {
+                return RANGE_PRESETS[currentRange.preset];
+            }
+            return new Date(currentRange.to) - new Date(currentRange.from);
+        }
+
+        // Update preset button styles and custom range inputs
+        function updateRangeControls() {
+            rangeButtons.forEach(btn => {
+                btn.className = btn.dataset.range === currentRange.preset
+                    ? 'range-btn px-3 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition'
+                    : 'range-btn px-3 py-2 rounded-lg bg-white text-gray-700 font-medium border border-gray-300 hover:bg-gray-50 transition';
+            });
+
+            if (!currentRange.preset) {
+                rangeFrom.value = toLocalInputValue(new Date(currentRange.from));
+                rangeTo.value = toLocalInputValue(new Date(currentRange.to));
+            }
+        }
+
+        // Format a Date for a datetime-local input (local time, minute precision)
+        function toLocalInputValue(date) {
+            const offsetMs = date.getTimezoneOffset() * 60000;
+            return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+        }
+
+        // Timeline axis label: include the date once the range spans multiple days
+        function formatTimelineLabel(timestamp) {
+            const date = new Date(timestamp);
+            if (rangeSpanMs() > 2 * 86400000) {
+                return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
             }
+            return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
         }
 
         // Load all data
@@ -929,45 +1782,82 @@ function getHtmlDashboard(): string {
             try {
                 if (currentView.type === 'overview') {
                     // Reset pagination when loading new data
-                    usersPage = 1;
-                    anonymousPage = 1;
+                    topListCursors.users = [];
+                    topListCursors.anonymous = [];
                     topIpCache.clear(); // Clear cache when reloading data
 
-                    // Load overview data (fetch 100 results for pagination)
-                    const [usersData, anonymousData, timelineData, aggregateUserAgentsData, aggregateReferrersData] = await Promise.all([
-                        fetch('/api/top-users?period=' + currentPeriod + '&limit=100').then(r => r.json()),
-                        fetch('/api/top-anonymous?period=' + currentPeriod + '&limit=100').then(r => r.json()),
-                        fetch('/api/usage-timeline?period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/user-agents-aggregate?period=' + currentPeriod + '&limit=10').then(r => r.json()),
-                        fetch('/api/referrers-aggregate?period=' + currentPeriod + '&limit=10').then(r => r.json())
+                    // Load overview data (the first page of each top list)
+                    // (all narrowed to the selected segment except rate limits and the segment timeline)
+                    const showSegments = document.getElementById('showSegments').checked;
+                    const [usersData, anonymousData, timelineData, aggregateUserAgentsData, aggregateReferrersData, aggregateEntitiesData, aggregateQueryParamsData, rateLimitData, organizationsData, statusData, segmentTimelineData, premiumDomainsData, keyExpiryData, dormantData, unknownKeysData] = await Promise.all([
+                        fetchJson('/api/top-users?' + rangeQuery() + topListQuery('users')),
+                        fetchJson('/api/top-anonymous?' + rangeQuery() + topListQuery('anonymous')),
+                        fetchJson('/api/usage-timeline?' + rangeQuery() + segmentQuery()),
+                        fetchJson('/api/user-agents-aggregate?' + rangeQuery() + segmentQuery() + '&limit=10'),
+                        fetchJson('/api/referrers-aggregate?' + rangeQuery() + segmentQuery() + '&limit=10'),
+                        fetchJson('/api/entities-aggregate?' + rangeQuery() + segmentQuery()),
+                        fetchJson('/api/query-params-aggregate?' + rangeQuery() + segmentQuery() + '&limit=10'),
+                        fetchJson('/api/rate-limits?' + rangeQuery() + '&limit=100').catch(err => ({ error: err.message })),
+                        fetchJson('/api/top-organizations?' + rangeQuery() + segmentQuery() + '&limit=10').catch(err => ({ error: err.message })),
+                        fetchJson('/api/status-breakdown?' + rangeQuery() + segmentQuery()),
+                        showSegments ? fetchJson('/api/segment-timeline?' + rangeQuery()) : null,
+                        fetchJson('/api/premium-domains?' + rangeQuery()).catch(err => ({ error: err.message })),
+                        fetchJson('/api/key-expiry?' + rangeQuery() + '&limit=100').catch(err => ({ error: err.message })),
+                        loadDormantReport(),
+                        fetchJson('/api/unknown-keys?' + rangeQuery() + '&limit=20').catch(err => ({ error: err.message }))
                     ]);
 
-                    // Store all data for pagination
-                    allUsers = usersData.data;
-                    allAnonymousUsers = anonymousData.data;
+                    // Keep the pages for the pagination controls
+                    usersList = usersData;
+                    anonymousList = anonymousData;
+                    markTopListSort('users');
+                    markTopListSort('anonymous');
 
                     // Update UI for overview
                     userContext.classList.add('hidden');
                     statusBreakdown.classList.add('hidden');
+                    organizationDetail.classList.add('hidden');
                     mainView.classList.remove('hidden');
                     document.getElementById('timelineTitle').textContent = 'Usage';
+                    document.getElementById('overviewChartToggles').classList.remove('hidden');
 
                     // Render data with pagination
-                    renderTopUsers(allUsers);
-                    renderTopAnonymous(allAnonymousUsers, currentPeriod);
-                    renderOverviewTimeline(timelineData.data);
+                    renderTopUsers(usersList);
+                    renderTopAnonymous(anonymousList, rangeQuery());
+                    overviewTimeline = timelineData;
+                    segmentTimeline = segmentTimelineData;
+                    document.getElementById('segmentTruncated').classList.toggle('hidden',
+                        !(timelineData.segmentTruncated || (segmentTimelineData && segmentTimelineData.segmentTruncated)));
+                    if (segmentTimeline) {
+                        renderSegmentTimeline(segmentTimeline);
+                    } else {
+                        renderOverviewTimeline(timelineData);
+                    }
+                    renderStatusTable(statusData.data, 'aggregateStatusContainer');
                     renderAggregateUserAgents(aggregateUserAgentsData.data);
                     renderAggregateReferrers(aggregateReferrersData.data);
+                    renderEntityBreakdown('aggregateEntitiesContainer', aggregateEntitiesData.data);
+                    renderRateLimitReport(rateLimitData);
+                    renderTopOrganizations(organizationsData);
+                    renderPremiumDomains(premiumDomainsData);
+                    renderKeyExpiryReport(keyExpiryData);
+                    renderDormantReport(dormantData);
+                    renderUnknownKeys(unknownKeysData);
+                    renderQueryParamUsage('aggregateQueryParamsContainer', aggregateQueryParamsData.data);
 
                 } else if (currentView.type === 'user') {
                     // Load user-specific data
-                    const [timelineResponse, statusResponse, usersData, sampleUrlsResponse, userAgentsResponse, referrersResponse] = await Promise.all([
-                        fetch('/api/user-timeline?apiKey=' + encodeURIComponent(currentView.apiKey) + '&period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/user-status-breakdown?apiKey=' + encodeURIComponent(currentView.apiKey) + '&period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/top-users?period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/sample-urls-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&period=' + currentPeriod + '&limit=10').then(r => r.json()),
-                        fetch('/api/user-agents-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&period=' + currentPeriod + '&limit=10').then(r => r.json()),
-                        fetch('/api/referrers-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&period=' + currentPeriod + '&limit=10').then(r => r.json())
+                    const [timelineResponse, statusResponse, usersData, sampleUrlsResponse, userAgentsResponse, referrersResponse, histogramResponse, entitiesResponse, queryParamsResponse, ratesResponse] = await Promise.all([
+                        fetchJson('/api/user-timeline?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery()),
+                        fetchJson('/api/user-status-breakdown?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery()),
+                        fetchJson('/api/top-users?' + rangeQuery()),
+                        fetchJson('/api/sample-urls-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/user-agents-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/referrers-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/latency-histogram?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery()),
+                        fetchJson('/api/entities-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery()),
+                        fetchJson('/api/query-params-user?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/request-rates?apiKey=' + encodeURIComponent(currentView.apiKey) + '&' + rangeQuery())
                     ]);
 
                     // If we don't have name/email yet, get it from the users list
@@ -982,28 +1872,38 @@ function getHtmlDashboard(): string {
                     // Update UI for user view
                     userContext.classList.remove('hidden');
                     statusBreakdown.classList.remove('hidden');
+                    organizationDetail.classList.add('hidden');
                     mainView.classList.add('hidden');
                     document.getElementById('contextUserName').textContent = currentView.name || 'Unknown User';
                     document.getElementById('contextUserEmail').textContent = currentView.email || currentView.apiKey;
                     document.getElementById('timelineTitle').textContent = 'Request Timeline by Status Code';
+                    document.getElementById('overviewChartToggles').classList.add('hidden');
 
                     // Render data
-                    renderUserTimeline(timelineResponse.data);
+                    renderUserTimeline(timelineResponse.data, timelineResponse.anomalies);
                     renderStatusChart(statusResponse.data);
                     renderStatusTable(statusResponse.data);
                     renderSampleUrls(sampleUrlsResponse.urls);
                     renderUserAgents(userAgentsResponse.data);
                     renderReferrers(referrersResponse.data);
+                    renderLatencyHistogram(histogramResponse);
+                    renderEntityBreakdown('entitiesContainer', entitiesResponse.data);
+                    renderQueryParamUsage('queryParamsContainer', queryParamsResponse.data);
+                    renderContextRates(ratesResponse);
 
                 } else if (currentView.type === 'anonymous') {
                     // Load anonymous bucket data with IP enrichment
-                    const [timelineResponse, statusResponse, topIpResponse, sampleUrlsResponse, userAgentsResponse, referrersResponse] = await Promise.all([
-                        fetch('/api/anonymous-timeline?bucket=' + encodeURIComponent(currentView.bucket) + '&period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/anonymous-status-breakdown?bucket=' + encodeURIComponent(currentView.bucket) + '&period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/top-ip-in-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&period=' + currentPeriod).then(r => r.json()),
-                        fetch('/api/sample-urls-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&period=' + currentPeriod + '&limit=10').then(r => r.json()),
-                        fetch('/api/user-agents-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&period=' + currentPeriod + '&limit=10').then(r => r.json()),
-                        fetch('/api/referrers-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&period=' + currentPeriod + '&limit=10').then(r => r.json())
+                    const [timelineResponse, statusResponse, topIpResponse, sampleUrlsResponse, userAgentsResponse, referrersResponse, histogramResponse, entitiesResponse, queryParamsResponse, ratesResponse] = await Promise.all([
+                        fetchJson('/api/anonymous-timeline?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery()),
+                        fetchJson('/api/anonymous-status-breakdown?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery()),
+                        fetchJson('/api/top-ip-in-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery()),
+                        fetchJson('/api/sample-urls-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/user-agents-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/referrers-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/latency-histogram?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery()),
+                        fetchJson('/api/entities-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery()),
+                        fetchJson('/api/query-params-bucket?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery() + '&limit=10'),
+                        fetchJson('/api/request-rates?bucket=' + encodeURIComponent(currentView.bucket) + '&' + rangeQuery())
                     ]);
 
                     // Get IP geolocation info if we have an IP
@@ -1043,47 +1943,632 @@ function getHtmlDashboard(): string {
                     // Update UI for anonymous view
                     userContext.classList.remove('hidden');
                     statusBreakdown.classList.remove('hidden');
+                    organizationDetail.classList.add('hidden');
                     mainView.classList.add('hidden');
                     document.getElementById('contextUserName').textContent = displayName;
                     document.getElementById('contextUserEmail').textContent = displayDetails;
                     document.getElementById('timelineTitle').textContent = 'Request Timeline by Status Code';
+                    document.getElementById('overviewChartToggles').classList.add('hidden');
 
                     // Render data
-                    renderUserTimeline(timelineResponse.data);
+                    renderUserTimeline(timelineResponse.data, timelineResponse.anomalies);
                     renderStatusChart(statusResponse.data);
                     renderStatusTable(statusResponse.data);
                     renderSampleUrls(sampleUrlsResponse.urls);
                     renderUserAgents(userAgentsResponse.data);
                     renderReferrers(referrersResponse.data);
+                    renderLatencyHistogram(histogramResponse);
+                    renderEntityBreakdown('entitiesContainer', entitiesResponse.data);
+                    renderQueryParamUsage('queryParamsContainer', queryParamsResponse.data);
+                    renderContextRates(ratesResponse);
+
+                } else if (currentView.type === 'organization') {
+                    // Load totals and member keys, and the timeline across all of them
+                    const [usageResponse, timelineResponse] = await Promise.all([
+                        fetchJson('/api/organization?organization=' + encodeURIComponent(currentView.organization) + '&' + rangeQuery()),
+                        fetchJson('/api/organization-timeline?organization=' + encodeURIComponent(currentView.organization) + '&' + rangeQuery())
+                    ]);
+
+                    // Update UI for organization view
+                    userContext.classList.remove('hidden');
+                    statusBreakdown.classList.add('hidden');
+                    organizationDetail.classList.remove('hidden');
+                    mainView.classList.add('hidden');
+                    document.getElementById('contextUserName').textContent = usageResponse.organization;
+                    document.getElementById('contextUserEmail').textContent = usageResponse.activeKeyCount + ' of ' + usageResponse.keyCount + ' keys active · '
+                        + usageResponse.requestCount.toLocaleString() + ' requests · '
+                        + usageResponse.avgResponseTime.toFixed(0) + 'ms avg (p95 ' + usageResponse.p95ResponseTime.toFixed(0) + 'ms) · '
+                        + usageResponse.successRate.toFixed(1) + '% success';
+                    document.getElementById('timelineTitle').textContent = 'Request Timeline by Status Code';
+                    document.getElementById('overviewChartToggles').classList.add('hidden');
+                    document.getElementById('contextRates').innerHTML = '';
+
+                    renderUserTimeline(timelineResponse.data, timelineResponse.anomalies);
+                    renderOrganizationKeys(usageResponse.keys);
                 }
 
                 lastUpdated.textContent = 'Last updated: ' + new Date().toLocaleTimeString();
                 updateURL(false); // Update URL without pushing to history
 
             } catch (err) {
-                showError('Failed to load analytics data. Please try again.');
+                showError(describeError(err, 'Failed to load analytics data. Please try again.'));
                 console.error('Error loading data:', err);
             } finally {
                 showLoading(false);
             }
         }
 
-        // Render top authenticated users table
-        function renderTopUsers(users) {
+        // Rank movement since the previous period (▲ moved up, ▼ moved down)
+        function formatRankChange(row) {
+            if (row.previousRank === null) {
+                return '<div class="text-xs font-medium text-indigo-600" title="Not ranked in the previous period">new</div>';
+            }
+            if (row.rankChange === 0) {
+                return '';
+            }
+            const up = row.rankChange > 0;
+            return '<div class="text-xs font-medium ' + (up ? 'text-green-600' : 'text-red-600') + '" title="Previously #' + row.previousRank + '">'
+                + (up ? '▲' : '▼') + Math.abs(row.rankChange) + '</div>';
+        }
+
+        // Request count change since the previous period
+        function formatCountChange(row) {
+            const sign = row.requestCountChange >= 0 ? '+' : '';
+            const percent = row.requestCountChangePercent === null ? '' : ' (' + sign + row.requestCountChangePercent.toFixed(0) + '%)';
+            const color = row.requestCountChange >= 0 ? 'text-green-600' : 'text-red-600';
+            return '<div class="text-xs font-normal ' + color + '" title="Previous period: ' + row.previousRequestCount.toLocaleString() + '">'
+                + sign + row.requestCountChange.toLocaleString() + percent + '</div>';
+        }
+
+        // Search keys and buckets for the search box, ignoring answers to older input
+        async function runSearch(value) {
+            const query = value.trim();
+            const sequence = ++searchSequence;
+            if (query.length < 2) {
+                hideSearchResults();
+                return;
+            }
+            try {
+                const results = await fetchJson('/api/search?q=' + encodeURIComponent(query) + '&' + rangeQuery() + '&limit=20');
+                if (sequence === searchSequence) {
+                    renderSearchResults(results.data);
+                }
+            } catch (err) {
+                if (sequence === searchSequence) {
+                    renderSearchResults([], describeError(err, 'Search failed. Please try again.'));
+                }
+            }
+        }
+
+        // List search results; choosing one opens its detail view
+        function renderSearchResults(results, message) {
+            const container = document.getElementById('searchResults');
+            container.innerHTML = '';
+            container.classList.remove('hidden');
+
+            if (results.length === 0) {
+                const empty = document.createElement('div');
+                empty.className = 'px-3 py-2 text-gray-500';
+                empty.textContent = message || 'No matching keys or buckets';
+                container.appendChild(empty);
+                return;
+            }
+
+            const fieldLabels = { apiKey: 'key', name: 'name', email: 'email', organization: 'organization', ip: 'IP', bucket: 'bucket' };
+            results.forEach(result => {
+                const item = document.createElement('button');
+                item.type = 'button';
+                item.className = 'block w-full text-left px-3 py-2 border-b border-gray-100 hover:bg-indigo-50';
+
+                const title = document.createElement('div');
+                title.className = 'flex justify-between gap-2';
+                const label = document.createElement('span');
+                label.className = 'font-medium text-gray-800 truncate';
+                label.textContent = result.type === 'anonymous'
+                    ? result.bucket + ' (anonymous)'
+                    : [result.organization, result.name].filter(Boolean).join(' - ') || result.apiKey;
+                const count = document.createElement('span');
+                count.className = 'text-gray-600 whitespace-nowrap';
+                count.textContent = result.requestCount.toLocaleString() + ' req';
+                title.append(label, count);
+
+                const details = document.createElement('div');
+                details.className = 'text-xs text-gray-500 truncate';
+                details.textContent = fieldLabels[result.matchedField] + ': ' + result.matchedValue
+                    + (result.requestCount > 0 ? ' · ' + result.successRate.toFixed(1) + '% success · ' + result.avgResponseTime.toFixed(0) + 'ms avg' : '');
+
+                item.append(title, details);
+                item.addEventListener('click', () => openSearchResult(result));
+                container.appendChild(item);
+            });
+        }
+
+        function hideSearchResults() {
+            document.getElementById('searchResults').classList.add('hidden');
+        }
+
+        function openSearchResult(result) {
+            if (result.type === 'anonymous') {
+                currentView = { type: 'anonymous', apiKey: null, bucket: result.bucket, name: result.bucket, email: 'Anonymous User Group' };
+            } else {
+                currentView = { type: 'user', apiKey: result.apiKey, bucket: null, name: result.name, email: result.email };
+            }
+            hideSearchResults();
+            document.getElementById('searchInput').value = '';
+            updateURL(true);
+            loadData();
+        }
+
+        // Query parameters for the current page of a top list, ranked by its selected column;
+        // later pages are asked for by cursor, which carries the range, sort and offset
+        function topListQuery(table) {
+            const cursors = topListCursors[table];
+            if (cursors.length > 0) {
+                return '&limit=' + pageSize + '&cursor=' + encodeURIComponent(cursors[cursors.length - 1]) + segmentQuery();
+            }
+            const { sort, order } = topListSort[table];
+            return '&limit=' + pageSize + '&sort=' + sort + '&order=' + order + segmentQuery();
+        }
+
+        // Mark the active header and direction of a top list
+        function markTopListSort(table) {
+            const { sort, order } = topListSort[table];
+            document.querySelectorAll('.sort-header[data-table="' + table + '"]').forEach(header => {
+                const active = header.dataset.sort === sort;
+                header.classList.toggle('text-indigo-600', active);
+                header.classList.toggle('text-gray-700', !active);
+                header.dataset.arrow = active ? (order === 'desc' ? ' ↓' : ' ↑') : '';
+            });
+            document.querySelector('.sort-select[data-table="' + table + '"]').value = sort;
+        }
+
+        // Re-rank one top list server-side and go back to its first page
+        function resortTopList(table, sort, order) {
+            topListSort[table] = { sort, order };
+            markTopListSort(table);
+            topListCursors[table] = [];
+            loadTopListPage(table);
+        }
+
+        // Fetch and show the current page of one top list
+        async function loadTopListPage(table) {
+            const path = table === 'users' ? '/api/top-users?' : '/api/top-anonymous?';
+            try {
+                const list = await fetchJson(path + rangeQuery() + topListQuery(table));
+                if (table === 'users') {
+                    usersList = list;
+                    renderTopUsers(usersList);
+                } else {
+                    anonymousList = list;
+                    renderTopAnonymous(anonymousList, rangeQuery());
+                }
+            } catch (err) {
+                showError(describeError(err, 'Failed to load the list. Please try again.'));
+            }
+        }
+
+        // Average, p99 and peak request rates shown in the detail banner
+        function renderContextRates(rates) {
+            const container = document.getElementById('contextRates');
+            if (!rates || rates.error) {
+                container.innerHTML = '';
+                return;
+            }
+            const stat = (label, value, title) => \`
+                <div class="text-right" title="\${title}">
+                    <div class="text-xs text-gray-500">\${label}</div>
+                    <div class="font-semibold text-gray-800">\${value.toFixed(value < 10 ? 2 : 1)}/s</div>
+                </div>
+            \`;
+            container.innerHTML = stat('Avg', rates.requestsPerSecond, 'Average over the selected range')
+                + stat('p99', rates.p99RequestsPerSecond, '99th percentile of ' + rates.windowSeconds + '-second windows with traffic')
+                + stat('Peak', rates.peakRequestsPerSecond, 'Busiest ' + rates.windowSeconds + '-second window');
+        }
+
+        const RATE_LIMIT_STATUS_STYLES = {
+            throttled: ['Throttled', 'bg-red-100 text-red-800'],
+            near_limit: ['Near limit', 'bg-yellow-100 text-yellow-800'],
+            ok: ['OK', 'bg-green-100 text-green-800'],
+            underused: ['Under allocation', 'bg-blue-100 text-blue-800'],
+            no_limit: ['No limit', 'bg-gray-100 text-gray-700']
+        };
+
+        function formatQuotaPercent(percent) {
+            if (percent === null) {
+                return '';
+            }
+            const color = percent >= 100 ? 'text-red-600' : percent >= 80 ? 'text-yellow-600' : 'text-gray-500';
+            return '<div class="text-xs ' + color + '">' + percent.toFixed(1) + '% of limit</div>';
+        }
+
+        // Render rate limit compliance table for the selected list
+        function renderRateLimitReport(report) {
+            rateLimitReport = report;
+
+            document.querySelectorAll('.rate-limit-tab').forEach(btn => {
+                btn.className = btn.dataset.list === rateLimitList
+                    ? 'rate-limit-tab px-3 py-1 rounded bg-indigo-600 text-white'
+                    : 'rate-limit-tab px-3 py-1 rounded bg-white text-gray-700 border border-gray-300 hover:bg-gray-50';
+            });
+
+            const tbody = document.getElementById('rateLimitTable');
+            const summary = document.getElementById('rateLimitSummary');
+
+            if (!report || report.error) {
+                summary.textContent = '';
+                tbody.innerHTML = '<tr><td colspan="6" class="text-center py-8 text-gray-500">Rate limit report unavailable</td></tr>';
+                if (report && report.error) {
+                    tbody.querySelector('td').textContent += ': ' + report.error;
+                }
+                return;
+            }
+
+            summary.textContent = report.keyCount.toLocaleString() + ' active keys · '
+                + report.throttled.length.toLocaleString() + ' consistently throttled · '
+                + report.underused.length.toLocaleString() + ' under 10% of their allocation'
+                + (report.keysTruncated ? ' (only the busiest keys were compared)' : '');
+
+            const rows = report[rateLimitList];
+            if (rows.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="6" class="text-center py-8 text-gray-500">No keys</td></tr>';
+                return;
+            }
+
+            tbody.innerHTML = rows.map(row => {
+                const [statusLabel, statusClass] = RATE_LIMIT_STATUS_STYLES[row.status];
+                return \`
+                <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50"
+                    data-type="user"
+                    data-apikey="\${row.apiKey}"
+                    data-name="\${(row.name || 'Unknown').replace(/"/g, '&quot;')}"
+                    data-email="\${(row.email || '').replace(/"/g, '&quot;')}">
+                    <td class="py-2 px-2">
+                        <div class="font-medium text-gray-800">\${row.name || 'Unknown'}</div>
+                        <div class="text-xs text-gray-500">\${row.email || row.apiKey.substring(0, 12) + '...'}</div>
+                    </td>
+                    <td class="py-2 px-2 text-right font-semibold text-gray-800">\${row.requestCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right">
+                        <div>\${row.peakRequestsPerSecond.toLocaleString()}\${row.maxPerSecond ? ' / ' + row.maxPerSecond.toLocaleString() : ''}</div>
+                        \${formatQuotaPercent(row.perSecondQuotaPercent)}
+                    </td>
+                    <td class="py-2 px-2 text-right">
+                        <div title="\${row.dailyRequestsProjected ? 'Projected to 24h from the selected range' : 'Busiest day in the selected range'}">\${row.dailyRequestsProjected ? '~' : ''}\${row.dailyRequests.toLocaleString()}\${row.maxPerDay ? ' / ' + row.maxPerDay.toLocaleString() : ''}</div>
+                        \${formatQuotaPercent(row.dailyQuotaPercent)}
+                    </td>
+                    <td class="py-2 px-2 text-right">
+                        <div>\${row.throttledCount.toLocaleString()}</div>
+                        \${row.throttledCount > 0 ? '<div class="text-xs text-gray-500">' + row.throttledRate.toFixed(1) + '% · ' + row.throttledBucketShare.toFixed(0) + '% of buckets</div>' : ''}
+                    </td>
+                    <td class="py-2 px-2 text-right">
+                        <span class="inline-block px-2 py-1 rounded text-xs font-medium \${statusClass}">\${statusLabel}</span>
+                    </td>
+                </tr>
+                \`;
+            }).join('');
+        }
+
+        // Render the organizations with the most traffic across their keys
+        function renderTopOrganizations(report) {
+            const tbody = document.getElementById('topOrganizationsTable');
+            const summary = document.getElementById('organizationsSummary');
+
+            if (!report || report.error) {
+                summary.textContent = '';
+                tbody.innerHTML = '<tr><td colspan="7" class="text-center py-8 text-gray-500">Organization report unavailable</td></tr>';
+                if (report && report.error) {
+                    tbody.querySelector('td').textContent += ': ' + report.error;
+                }
+                return;
+            }
+
+            summary.textContent = report.total.toLocaleString() + ' organizations with traffic'
+                + (report.truncated ? ', showing the ' + report.data.length + ' busiest' : '')
+                + (report.keysTruncated ? ' (totals cover only the busiest keys and are understated)' : '');
+
+            if (report.data.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="7" class="text-center py-8 text-gray-500">No data available</td></tr>';
+                return;
+            }
+
+            tbody.innerHTML = report.data.map((org, index) => \`
+                <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50"
+                    data-type="organization"
+                    data-organization="\${org.organization.replace(/"/g, '&quot;')}">
+                    <td class="py-2 px-2 text-gray-600">\${index + 1}</td>
+                    <td class="py-2 px-2 font-medium text-gray-800">\${org.organization}</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${org.activeKeyCount} / \${org.keyCount}</td>
+                    <td class="py-2 px-2 text-right font-semibold text-gray-800">\${org.requestCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${org.avgResponseTime.toFixed(0)}ms</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${org.errorCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right">
+                        <span class="inline-block px-2 py-1 rounded text-xs font-medium \${org.successRate >= 95 ? 'bg-green-100 text-green-800' : org.successRate >= 80 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}">
+                            \${org.successRate.toFixed(1)}%
+                        </span>
+                    </td>
+                </tr>
+            \`).join('');
+        }
+
+        // Render keys seen in traffic without an api_keys_archive row
+        function renderUnknownKeys(report) {
+            const tbody = document.getElementById('unknownKeysTable');
+            const summary = document.getElementById('unknownKeysSummary');
+
+            if (!report || report.error) {
+                summary.textContent = '';
+                tbody.innerHTML = '<tr><td colspan="7" class="text-center py-8 text-gray-500">Unknown keys unavailable</td></tr>';
+                if (report && report.error) {
+                    tbody.querySelector('td').textContent += ': ' + report.error;
+                }
+                return;
+            }
+
+            summary.textContent = report.keyCount.toLocaleString() + ' unknown keys · '
+                + report.requestCount.toLocaleString() + ' requests'
+                + (report.keys.length < report.keyCount ? ' · showing the busiest ' + report.keys.length : '')
+                + (report.keysTruncated ? ' (only the busiest keys were checked, so quieter unknown keys may be missing)' : '');
+
+            if (report.keys.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="7" class="text-center py-8 text-gray-500">No unknown keys in this range</td></tr>';
+                return;
+            }
+
+            const escape = value => String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+            tbody.innerHTML = report.keys.map(key => \`
+                <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50 align-top"
+                    data-type="user"
+                    data-apikey="\${escape(key.apiKey)}"
+                    data-name="Unknown key"
+                    data-email="">
+                    <td class="py-2 px-2">
+                        <code class="text-xs bg-gray-100 px-2 py-1 rounded">\${escape(key.apiKey)}</code>
+                    </td>
+                    <td class="py-2 px-2 text-right font-semibold text-gray-800">\${key.requestCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right \${key.errorRate >= 50 ? 'text-red-600 font-semibold' : 'text-gray-600'}">\${key.errorRate.toFixed(1)}%</td>
+                    <td class="py-2 px-2 text-xs">
+                        \${key.statusCodes.slice(0, 4).map(status => \`
+                            <span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded \${status.statusCode >= 400 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}">\${status.statusCode} · \${status.percentage.toFixed(0)}%</span>
+                        \`).join('')}
+                    </td>
+                    <td class="py-2 px-2 text-xs text-gray-600">
+                        \${key.topIps.map(ip => '<div>' + escape(ip.ip) + ' <span class="text-gray-400">' + ip.requestCount.toLocaleString() + '</span></div>').join('')}
+                    </td>
+                    <td class="py-2 px-2 text-xs text-gray-600 max-w-xs">
+                        \${key.topUserAgents.map(ua => '<div class="truncate" title="' + escape(ua.userAgent) + '">' + escape(ua.userAgent || '(none)') + ' <span class="text-gray-400">' + ua.requestCount.toLocaleString() + '</span></div>').join('')}
+                    </td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${new Date(key.lastSeen.replace(' ', 'T') + 'Z').toLocaleString()}</td>
+                </tr>
+            \`).join('');
+        }
+
+        // Fetch the dormant keys report for the selected idle window; it always ends now, whatever the time range
+        function loadDormantReport() {
+            const days = document.getElementById('dormantWindow').value;
+            const fresh = bypassCache ? '&fresh=1' : '';
+            return fetchJson('/api/dormant-keys?days=' + days + '&limit=100' + fresh).catch(err => ({ error: err.message }));
+        }
+
+        // Render dormant, never used or declining keys, for the selected tab
+        function renderDormantReport(report) {
+            dormantReport = report;
+
+            document.querySelectorAll('.dormant-tab').forEach(btn => {
+                btn.className = btn.dataset.list === dormantList
+                    ? 'dormant-tab px-3 py-1 rounded bg-indigo-600 text-white'
+                    : 'dormant-tab px-3 py-1 rounded bg-white text-gray-700 border border-gray-300 hover:bg-gray-50';
+            });
+
+            const head = document.getElementById('dormantHead');
+            const tbody = document.getElementById('dormantTable');
+            const summary = document.getElementById('dormantSummary');
+            const columns = dormantList === 'declining'
+                ? ['User', 'Baseline / day', 'Last 7 days / day', 'Drop']
+                : ['User', 'Created', 'Last Seen', 'Idle'];
+            head.innerHTML = '<tr class="border-b-2 border-gray-300">' + columns.map((label, i) =>
+                '<th class="' + (i === 0 ? 'text-left' : 'text-right') + ' py-2 px-2 font-semibold text-gray-700">' + label + '</th>'
+            ).join('') + '</tr>';
+
+            if (!report || report.error) {
+                summary.textContent = '';
+                tbody.innerHTML = '<tr><td colspan="4" class="text-center py-8 text-gray-500">Dormant keys report unavailable</td></tr>';
+                if (report && report.error) {
+                    tbody.querySelector('td').textContent += ': ' + report.error;
+                }
+                return;
+            }
+
+            summary.textContent = report.dormant.length.toLocaleString() + ' keys idle for ' + report.windowDays + '+ days · '
+                + report.neverUsed.length.toLocaleString() + ' never used · '
+                + report.declining.length.toLocaleString() + ' sharply down on their baseline (last ' + report.lookbackDays + ' days)'
+                + (report.keysTruncated ? ' · only the busiest keys were read, so some listed keys may be active' : '');
+
+            const rows = report[dormantList];
+            if (rows.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="4" class="text-center py-8 text-gray-500">No keys</td></tr>';
+                return;
+            }
+
+            tbody.innerHTML = rows.map(row => \`
+                <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50"
+                    data-type="user"
+                    data-apikey="\${row.apiKey}"
+                    data-name="\${(row.name || 'Unknown').replace(/"/g, '&quot;')}"
+                    data-email="\${(row.email || '').replace(/"/g, '&quot;')}">
+                    <td class="py-2 px-2">
+                        <div class="font-medium text-gray-800">\${row.name || 'Unknown'}</div>
+                        <div class="text-xs text-gray-500">\${row.email || row.apiKey.substring(0, 12) + '...'}</div>
+                    </td>
+                    \${dormantList === 'declining' ? \`
+                        <td class="py-2 px-2 text-right text-gray-600">\${row.baselineRequestsPerDay.toLocaleString()}</td>
+                        <td class="py-2 px-2 text-right text-gray-600">\${row.recentRequestsPerDay.toLocaleString()}</td>
+                        <td class="py-2 px-2 text-right font-semibold text-red-600">-\${row.dropPercent.toFixed(0)}%</td>
+                    \` : \`
+                        <td class="py-2 px-2 text-right text-gray-600">\${new Date(row.createdAt).toLocaleDateString()}</td>
+                        <td class="py-2 px-2 text-right text-gray-600">\${row.lastSeen ? new Date(row.lastSeen.replace(' ', 'T') + 'Z').toLocaleDateString() : 'Not seen'}</td>
+                        <td class="py-2 px-2 text-right font-semibold text-gray-800">\${row.lastSeen ? '' : '&gt;'}\${row.idleDays.toFixed(0)} days</td>
+                    \`}
+                </tr>
+            \`).join('');
+        }
+
+        // Render keys used after expiry or expiring soon, for the selected tab
+        function renderKeyExpiryReport(report) {
+            keyExpiryReport = report;
+
+            document.querySelectorAll('.key-expiry-tab').forEach(btn => {
+                btn.className = btn.dataset.list === keyExpiryList
+                    ? 'key-expiry-tab px-3 py-1 rounded bg-indigo-600 text-white'
+                    : 'key-expiry-tab px-3 py-1 rounded bg-white text-gray-700 border border-gray-300 hover:bg-gray-50';
+            });
+
+            const tbody = document.getElementById('keyExpiryTable');
+            const summary = document.getElementById('keyExpirySummary');
+
+            if (!report || report.error) {
+                summary.textContent = '';
+                tbody.innerHTML = '<tr><td colspan="5" class="text-center py-8 text-gray-500">Key expiry report unavailable</td></tr>';
+                if (report && report.error) {
+                    tbody.querySelector('td').textContent += ': ' + report.error;
+                }
+                return;
+            }
+
+            summary.textContent = report.expired.length.toLocaleString() + ' expired keys still in use · '
+                + report.expiring.length.toLocaleString() + ' keys expiring within ' + report.withinDays + ' days with '
+                + report.minRequests.toLocaleString() + '+ requests'
+                + (report.keysTruncated ? ' (only the busiest keys were checked)' : '');
+
+            const rows = report[keyExpiryList];
+            if (rows.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="5" class="text-center py-8 text-gray-500">No keys</td></tr>';
+                return;
+            }
+
+            tbody.innerHTML = rows.map(row => \`
+                <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50"
+                    data-type="user"
+                    data-apikey="\${row.apiKey}"
+                    data-name="\${(row.name || 'Unknown').replace(/"/g, '&quot;')}"
+                    data-email="\${(row.email || '').replace(/"/g, '&quot;')}">
+                    <td class="py-2 px-2">
+                        <div class="font-medium text-gray-800">\${row.name || 'Unknown'}</div>
+                        <div class="text-xs text-gray-500">\${row.email || row.apiKey.substring(0, 12) + '...'}</div>
+                    </td>
+                    <td class="py-2 px-2 text-right">
+                        <div>\${new Date(row.expiresAt).toLocaleDateString()}</div>
+                        <div class="text-xs \${row.daysUntilExpiry <= 0 ? 'text-red-600' : 'text-amber-600'}">
+                            \${row.daysUntilExpiry <= 0 ? Math.abs(row.daysUntilExpiry).toFixed(0) + ' days ago' : 'in ' + row.daysUntilExpiry.toFixed(0) + ' days'}
+                        </div>
+                    </td>
+                    <td class="py-2 px-2 text-right">
+                        <div class="font-semibold text-gray-800">\${row.requestCount.toLocaleString()}</div>
+                        <div class="text-xs text-gray-500">\${row.requestsPerDay.toLocaleString()} / day</div>
+                    </td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${row.lastSeen ? formatTimelineLabel(row.lastSeen.replace(' ', 'T') + 'Z') : '—'}</td>
+                    <td class="py-2 px-2 text-right">
+                        <div>\${row.requestsAfterExpiry.toLocaleString()}</div>
+                        <div class="text-xs text-gray-500">\${row.statusCodesAfterExpiry.slice(0, 3).map(s => s.statusCode + ': ' + s.percentage.toFixed(0) + '%').join(' · ')}</div>
+                    </td>
+                </tr>
+            \`).join('');
+        }
+
+        // Render premium domains with their volume, latency, errors and trend
+        function renderPremiumDomains(report) {
+            const tbody = document.getElementById('premiumDomainsTable');
+
+            if (!report || report.error) {
+                tbody.innerHTML = '<tr><td colspan="7" class="text-center py-8 text-gray-500">Premium report unavailable</td></tr>';
+                if (report && report.error) {
+                    tbody.querySelector('td').textContent += ': ' + report.error;
+                }
+                return;
+            }
+
+            if (report.data.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="7" class="text-center py-8 text-gray-500">No premium domains registered</td></tr>';
+                return;
+            }
+
+            tbody.innerHTML = report.data.map(domain => \`
+                <tr class="border-b border-gray-200 hover:bg-gray-50">
+                    <td class="py-2 px-2">
+                        <div class="font-medium text-gray-800">\${domain.domain}</div>
+                        <div class="text-xs text-gray-500">\${domain.keyCount} \${domain.keyCount === 1 ? 'key' : 'keys'}</div>
+                    </td>
+                    <td class="py-2 px-2 text-right font-semibold text-gray-800">
+                        \${domain.requestCount.toLocaleString()}
+                        \${formatCountChange(domain)}
+                    </td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${domain.keyRequestCount.toLocaleString()} / \${domain.referrerRequestCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${domain.avgResponseTime.toFixed(0)}ms</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${domain.p95ResponseTime.toFixed(0)}ms</td>
+                    <td class="py-2 px-2 text-right">
+                        <span class="inline-block px-2 py-1 rounded text-xs font-medium \${domain.errorRate <= 5 ? 'bg-green-100 text-green-800' : domain.errorRate <= 20 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}">
+                            \${domain.errorRate.toFixed(1)}%
+                        </span>
+                    </td>
+                    <td class="py-2 px-2">\${sparkline(domain.trend)}</td>
+                </tr>
+            \`).join('');
+        }
+
+        // Small inline SVG line of a series of counts
+        function sparkline(values, width = 120, height = 24) {
+            if (!values || values.length < 2) {
+                return '';
+            }
+            const max = Math.max(...values, 1);
+            const step = width / (values.length - 1);
+            const points = values.map((value, i) => (i * step).toFixed(1) + ',' + (height - 1 - (value / max) * (height - 2)).toFixed(1)).join(' ');
+            return '<svg width="' + width + '" height="' + height + '" class="text-indigo-500"><polyline fill="none" stroke="currentColor" stroke-width="1.5" points="' + points + '"/></svg>';
+        }
+
+        // Render an organization's keys with their share of its traffic
+        function renderOrganizationKeys(keys) {
+            const tbody = document.getElementById('organizationKeysTable');
+            tbody.innerHTML = keys.map(key => \`
+                <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50"
+                    data-type="user"
+                    data-apikey="\${key.apiKey}"
+                    data-name="\${(key.name || 'Unknown').replace(/"/g, '&quot;')}"
+                    data-email="\${(key.email || '').replace(/"/g, '&quot;')}">
+                    <td class="py-2 px-2">
+                        <div class="font-medium text-gray-800">\${key.name || 'Unknown'}</div>
+                        <div class="text-xs text-gray-500">\${key.email || key.apiKey.substring(0, 12) + '...'}</div>
+                    </td>
+                    <td class="py-2 px-2 text-right font-semibold text-gray-800">\${key.requestCount.toLocaleString()}</td>
+                    <td class="py-2 px-2">
+                        <div class="flex items-center gap-2">
+                            <div class="flex-1 h-2 rounded bg-gray-200">
+                                <div class="h-2 rounded bg-indigo-500" style="width: \${key.share}%"></div>
+                            </div>
+                            <span class="text-xs text-gray-600 w-12 text-right">\${key.share.toFixed(1)}%</span>
+                        </div>
+                    </td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${key.requestCount > 0 ? key.avgResponseTime.toFixed(0) + 'ms' : '-'}</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${key.errorCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right">
+                        \${key.requestCount > 0 ? \`<span class="inline-block px-2 py-1 rounded text-xs font-medium \${key.successRate >= 95 ? 'bg-green-100 text-green-800' : key.successRate >= 80 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}">
+                            \${key.successRate.toFixed(1)}%
+                        </span>\` : '<span class="text-gray-400">-</span>'}
+                    </td>
+                </tr>
+            \`).join('');
+        }
+
+        // Render a page of the top authenticated users table
+        function renderTopUsers(list) {
             const tbody = document.getElementById('topUsersTable');
-            if (!users || users.length === 0) {
+            if (!list || list.data.length === 0) {
                 tbody.innerHTML = '<tr><td colspan="6" class="text-center py-8 text-gray-500">No data available</td></tr>';
-                updateUsersPagination(0, 0);
+                updateUsersPagination(list ? list.total : 0, 0, 0);
                 return;
             }
 
-            // Calculate pagination
-            const startIndex = (usersPage - 1) * pageSize;
-            const endIndex = startIndex + pageSize;
-            const paginatedUsers = users.slice(startIndex, endIndex);
+            const startIndex = list.offset;
 
-            // Render paginated data
-            tbody.innerHTML = paginatedUsers.map((user, index) => {
+            tbody.innerHTML = list.data.map((user, index) => {
                 // Build display name: organization - name
                 let displayName = '';
                 if (user.organization && user.name) {
@@ -1102,14 +2587,26 @@ function getHtmlDashboard(): string {
                     data-apikey="\${user.apiKey}"
                     data-name="\${(user.name || 'Unknown').replace(/"/g, '&quot;')}"
                     data-email="\${(user.email || '').replace(/"/g, '&quot;')}">
-                    <td class="py-2 px-2 text-gray-600">\${startIndex + index + 1}</td>
+                    <td class="py-2 px-2 text-gray-600">
+                        <div>\${startIndex + index + 1}</div>
+                        \${formatRankChange(user)}
+                    </td>
                     <td class="py-2 px-2">
                         <div class="font-medium text-gray-800">\${displayName}</div>
                         <div class="text-xs text-gray-500">\${user.email || user.apiKey.substring(0, 12) + '...'}</div>
                     </td>
-                    <td class="py-2 px-2 text-right font-semibold text-gray-800">\${user.requestCount.toLocaleString()}</td>
-                    <td class="py-2 px-2 text-right text-indigo-600 font-medium">\${user.requestsPerSecond.toFixed(2)}</td>
-                    <td class="py-2 px-2 text-right text-gray-600">\${user.avgResponseTime.toFixed(0)}ms</td>
+                    <td class="py-2 px-2 text-right font-semibold text-gray-800">
+                        <div>\${user.requestCount.toLocaleString()}</div>
+                        \${formatCountChange(user)}
+                    </td>
+                    <td class="py-2 px-2 text-right">
+                        <div class="text-indigo-600 font-medium">\${user.peakRequestsPerSecond.toFixed(1)}</div>
+                        <div class="text-xs text-gray-400" title="99th percentile rate and average over the range">p99 \${user.p99RequestsPerSecond.toFixed(1)} · avg \${user.requestsPerSecond.toFixed(2)}</div>
+                    </td>
+                    <td class="py-2 px-2 text-right text-gray-600">
+                        <div>\${user.avgResponseTime.toFixed(0)}ms</div>
+                        <div class="text-xs text-gray-400" title="95th percentile">p95 \${user.p95ResponseTime.toFixed(0)}ms</div>
+                    </td>
                     <td class="py-2 px-2 text-right">
                         <span class="inline-block px-2 py-1 rounded text-xs font-medium \${user.successRate >= 95 ? 'bg-green-100 text-green-800' : user.successRate >= 80 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}">
                             \${user.successRate.toFixed(1)}%
@@ -1120,25 +2617,22 @@ function getHtmlDashboard(): string {
             }).join('');
 
             // Update pagination info
-            updateUsersPagination(users.length, startIndex + 1, endIndex);
+            updateUsersPagination(list.total, startIndex + 1, startIndex + list.data.length);
         }
 
-        // Render top anonymous users table (with IP enrichment)
-        async function renderTopAnonymous(users, period) {
+        // Render a page of the top anonymous users table (with IP enrichment)
+        async function renderTopAnonymous(list, rangeParams) {
             const tbody = document.getElementById('topAnonymousTable');
-            if (!users || users.length === 0) {
+            if (!list || list.data.length === 0) {
                 tbody.innerHTML = '<tr><td colspan="6" class="text-center py-8 text-gray-500">No data available</td></tr>';
-                updateAnonymousPagination(0, 0);
+                updateAnonymousPagination(list ? list.total : 0, 0, 0);
                 return;
             }
 
-            // Calculate pagination
-            const startIndex = (anonymousPage - 1) * pageSize;
-            const endIndex = startIndex + pageSize;
-            const paginatedUsers = users.slice(startIndex, endIndex);
+            const startIndex = list.offset;
 
             // Render table immediately with IP addresses if available
-            tbody.innerHTML = paginatedUsers.map((user, index) => {
+            tbody.innerHTML = list.data.map((user, index) => {
                 // Show IP sample if available, otherwise bucket name
                 const initialName = user.ipSample || user.bucket;
                 const initialDetails = 'Loading...';
@@ -1147,14 +2641,26 @@ function getHtmlDashboard(): string {
                     <tr class="clickable-row border-b border-gray-200 hover:bg-gray-50"
                         data-type="anonymous"
                         data-bucket="\${user.bucket}">
-                        <td class="py-2 px-2 text-gray-600">\${startIndex + index + 1}</td>
+                        <td class="py-2 px-2 text-gray-600">
+                            <div>\${startIndex + index + 1}</div>
+                            \${formatRankChange(user)}
+                        </td>
                         <td class="py-2 px-2" id="anon-name-\${startIndex + index}">
                             <div class="font-medium text-gray-800">\${initialName}</div>
                             <div class="text-xs text-gray-500">\${initialDetails}</div>
                         </td>
-                        <td class="py-2 px-2 text-right font-semibold text-gray-800">\${user.requestCount.toLocaleString()}</td>
-                        <td class="py-2 px-2 text-right text-indigo-600 font-medium">\${user.requestsPerSecond.toFixed(2)}</td>
-                        <td class="py-2 px-2 text-right text-gray-600">\${user.avgResponseTime.toFixed(0)}ms</td>
+                        <td class="py-2 px-2 text-right font-semibold text-gray-800">
+                            <div>\${user.requestCount.toLocaleString()}</div>
+                            \${formatCountChange(user)}
+                        </td>
+                        <td class="py-2 px-2 text-right">
+                            <div class="text-indigo-600 font-medium">\${user.peakRequestsPerSecond.toFixed(1)}</div>
+                            <div class="text-xs text-gray-400" title="99th percentile rate and average over the range">p99 \${user.p99RequestsPerSecond.toFixed(1)} · avg \${user.requestsPerSecond.toFixed(2)}</div>
+                        </td>
+                        <td class="py-2 px-2 text-right text-gray-600">
+                            <div>\${user.avgResponseTime.toFixed(0)}ms</div>
+                            <div class="text-xs text-gray-400" title="95th percentile">p95 \${user.p95ResponseTime.toFixed(0)}ms</div>
+                        </td>
                         <td class="py-2 px-2 text-right">
                             <span class="inline-block px-2 py-1 rounded text-xs font-medium \${user.successRate >= 95 ? 'bg-green-100 text-green-800' : user.successRate >= 80 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}">
                                 \${user.successRate.toFixed(1)}%
@@ -1165,14 +2671,14 @@ function getHtmlDashboard(): string {
             }).join('');
 
             // Update pagination info
-            updateAnonymousPagination(users.length, startIndex + 1, endIndex);
+            updateAnonymousPagination(list.total, startIndex + 1, startIndex + list.data.length);
 
             // Enrich with IP data in background
-            enrichAnonymousUsers(paginatedUsers, startIndex, period);
+            enrichAnonymousUsers(list.data, startIndex, rangeParams);
         }
 
         // Enrich anonymous users with IP and geolocation data (with caching)
-        async function enrichAnonymousUsers(users, startIndex, period) {
+        async function enrichAnonymousUsers(users, startIndex, rangeParams) {
             // Batch fetch top IPs for users not in cache
             const usersNeedingLookup = users.filter(user => !topIpCache.has(user.bucket));
 
@@ -1180,7 +2686,7 @@ function getHtmlDashboard(): string {
                 // Fetch top IPs in parallel
                 await Promise.all(usersNeedingLookup.map(async (user) => {
                     try {
-                        const topIpRes = await fetch('/api/top-ip-in-bucket?bucket=' + encodeURIComponent(user.bucket) + '&period=' + period);
+                        const topIpRes = await fetch('/api/top-ip-in-bucket?bucket=' + encodeURIComponent(user.bucket) + '&' + rangeParams);
                         const topIpData = await topIpRes.json();
 
                         let foundIp = null;
@@ -1273,43 +2779,280 @@ function getHtmlDashboard(): string {
             });
         }
 
-        // Render overview timeline chart (aggregate)
-        function renderOverviewTimeline(data) {
+        const ANOMALY_METRIC_LABELS = { requestCount: 'Requests', errorRate: 'Error rate', avgResponseTime: 'Latency' };
+
+        function formatAnomalyValue(metric, value) {
+            if (metric === 'errorRate') {
+                return value.toFixed(1) + '%';
+            }
+            if (metric === 'avgResponseTime') {
+                return value.toFixed(0) + 'ms';
+            }
+            return Math.round(value).toLocaleString();
+        }
+
+        function describeAnomaly(anomaly) {
+            return ANOMALY_METRIC_LABELS[anomaly.metric] + ' ' + anomaly.direction + ': '
+                + formatAnomalyValue(anomaly.metric, anomaly.value) + ' vs '
+                + formatAnomalyValue(anomaly.metric, anomaly.expected) + ' expected';
+        }
+
+        // Marker series placed on the request totals of flagged buckets (null if nothing was flagged)
+        function anomalyDataset(timestamps, totals, anomalies) {
+            if (!anomalies || anomalies.length === 0) {
+                return null;
+            }
+            const flagged = new Map();
+            anomalies.forEach(a => {
+                flagged.set(a.timestamp, flagged.get(a.timestamp) === 'spike' ? 'spike' : a.direction);
+            });
+            if (!timestamps.some(ts => flagged.has(ts))) {
+                return null;
+            }
+            const colors = timestamps.map(ts => flagged.get(ts) === 'spike' ? 'rgb(220, 38, 38)' : 'rgb(217, 119, 6)');
+
+            return {
+                label: 'Anomalies',
+                data: timestamps.map((ts, i) => flagged.has(ts) ? totals[i] : null),
+                showLine: false,
+                pointStyle: 'triangle',
+                pointRadius: 7,
+                pointHoverRadius: 9,
+                pointBackgroundColor: colors,
+                pointBorderColor: colors,
+                borderColor: 'rgb(220, 38, 38)',
+                backgroundColor: 'rgb(220, 38, 38)',
+                yAxisID: 'y'
+            };
+        }
+
+        function anomalyTooltipLines(anomalies, timestamp) {
+            return (anomalies || []).filter(a => a.timestamp === timestamp).map(a => '⚠ ' + describeAnomaly(a));
+        }
+
+        // List flagged buckets under the chart (including empty buckets that have no chart point)
+        function renderAnomalySummary(anomalies) {
+            const container = document.getElementById('anomalySummary');
+            if (!anomalies || anomalies.length === 0) {
+                container.classList.add('hidden');
+                container.innerHTML = '';
+                return;
+            }
+
+            container.innerHTML = anomalies.map(a => {
+                const color = a.direction === 'spike' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700';
+                return \`
+                    <span class="text-xs font-medium px-2 py-1 rounded \${color}" title="z-score \${a.zScore}">
+                        \${a.direction === 'spike' ? '▲' : '▼'} \${formatTimelineLabel(a.timestamp)} · \${describeAnomaly(a)}
+                    </span>
+                \`;
+            }).join('');
+            container.classList.remove('hidden');
+        }
+
+        // Line up the previous window's points with the current buckets
+        function alignPreviousTimeline(timeline) {
+            const unitMs = { MINUTE: 60000, HOUR: 3600000, DAY: 86400000 }[timeline.bucketInterval.unit];
+            const bucketMs = timeline.bucketInterval.value * unitMs;
+            const offsetMs = new Date(timeline.from) - new Date(timeline.previous.from);
+
+            const previousByBucket = new Map();
+            timeline.previous.data.forEach(d => {
+                previousByBucket.set(Math.round((new Date(d.timestamp).getTime() + offsetMs) / bucketMs), d.requestCount);
+            });
+
+            return timeline.data.map(d => previousByBucket.get(Math.round(new Date(d.timestamp).getTime() / bucketMs)) ?? 0);
+        }
+
+        // Render overview timeline chart (aggregate), optionally with the previous
+        // period as a ghost series and latency percentile bands
+        function renderOverviewTimeline(timeline) {
             const ctx = document.getElementById('timelineChart');
+            overviewTimeline = timeline;
+            const data = timeline.data;
 
             if (timelineChart) {
                 timelineChart.destroy();
             }
 
-            const labels = data.map(d => new Date(d.timestamp).toLocaleTimeString([], {
-                hour: '2-digit',
-                minute: '2-digit'
-            }));
+            const showLatency = document.getElementById('showLatencyBands').checked;
+            const showPrevious = document.getElementById('showPreviousPeriod').checked && timeline.previous;
+            const labels = data.map(d => formatTimelineLabel(d.timestamp));
             const requests = data.map(d => d.requestCount);
 
+            const datasets = [{
+                label: 'Requests',
+                data: requests,
+                borderColor: 'rgb(102, 126, 234)',
+                backgroundColor: 'rgba(102, 126, 234, 0.1)',
+                fill: true,
+                tension: 0.4,
+                yAxisID: 'y'
+            }];
+
+            if (showLatency) {
+                // p99 fills down to p50 (dataset 1) to draw the band
+                datasets.push({
+                    label: 'p50 latency',
+                    data: data.map(d => d.p50ResponseTime),
+                    borderColor: 'rgb(16, 185, 129)',
+                    backgroundColor: 'transparent',
+                    borderWidth: 2,
+                    pointRadius: 0,
+                    fill: false,
+                    tension: 0.4,
+                    yAxisID: 'yLatency'
+                }, {
+                    label: 'p95 latency',
+                    data: data.map(d => d.p95ResponseTime),
+                    borderColor: 'rgb(245, 158, 11)',
+                    backgroundColor: 'transparent',
+                    borderWidth: 1,
+                    borderDash: [4, 4],
+                    pointRadius: 0,
+                    fill: false,
+                    tension: 0.4,
+                    yAxisID: 'yLatency'
+                }, {
+                    label: 'p99 latency',
+                    data: data.map(d => d.p99ResponseTime),
+                    borderColor: 'rgb(239, 68, 68)',
+                    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+                    borderWidth: 1,
+                    pointRadius: 0,
+                    fill: 1,
+                    tension: 0.4,
+                    yAxisID: 'yLatency'
+                });
+            }
+
+            const timestamps = data.map(d => d.timestamp);
+            const markers = anomalyDataset(timestamps, requests, timeline.anomalies);
+            if (markers) {
+                datasets.push(markers);
+            }
+            renderAnomalySummary(timeline.anomalies);
+
+            if (showPrevious) {
+                datasets.push({
+                    label: 'Previous period',
+                    data: alignPreviousTimeline(timeline),
+                    borderColor: 'rgba(107, 114, 128, 0.5)',
+                    backgroundColor: 'transparent',
+                    borderWidth: 2,
+                    borderDash: [6, 4],
+                    pointRadius: 0,
+                    fill: false,
+                    tension: 0.4,
+                    yAxisID: 'y'
+                });
+            }
+
             timelineChart = new Chart(ctx, {
                 type: 'line',
                 data: {
                     labels: labels,
-                    datasets: [{
-                        label: 'Requests',
-                        data: requests,
-                        borderColor: 'rgb(102, 126, 234)',
-                        backgroundColor: 'rgba(102, 126, 234, 0.1)',
-                        fill: true,
-                        tension: 0.4
-                    }]
+                    datasets: datasets
                 },
                 options: {
                     responsive: true,
                     maintainAspectRatio: false,
+                    interaction: {
+                        mode: 'index',
+                        intersect: false
+                    },
                     plugins: {
                         legend: {
-                            display: false
+                            display: showLatency || !!showPrevious || !!markers,
+                            position: 'bottom',
+                            labels: {
+                                boxWidth: 15,
+                                font: { size: 11 }
+                            }
+                        },
+                        tooltip: {
+                            callbacks: {
+                                footer: items => anomalyTooltipLines(timeline.anomalies, timestamps[items[0].dataIndex])
+                            }
+                        }
+                    },
+                    scales: {
+                        y: {
+                            beginAtZero: true,
+                            ticks: {
+                                precision: 0
+                            }
+                        },
+                        yLatency: {
+                            display: showLatency,
+                            position: 'right',
+                            beginAtZero: true,
+                            grid: {
+                                drawOnChartArea: false
+                            },
+                            ticks: {
+                                callback: value => value + 'ms'
+                            }
+                        }
+                    }
+                }
+            });
+        }
+
+        // Render the overview timeline as requests stacked by segment
+        function renderSegmentTimeline(timeline) {
+            const ctx = document.getElementById('timelineChart');
+
+            if (timelineChart) {
+                timelineChart.destroy();
+            }
+            renderAnomalySummary(null);
+
+            const segments = [
+                { segment: 'academic', label: 'Academic', border: 'rgb(16, 185, 129)', bg: 'rgba(16, 185, 129, 0.5)' },
+                { segment: 'non_academic', label: 'Non-academic', border: 'rgb(102, 126, 234)', bg: 'rgba(102, 126, 234, 0.5)' },
+                { segment: 'anonymous', label: 'Anonymous', border: 'rgb(107, 114, 128)', bg: 'rgba(107, 114, 128, 0.4)' }
+            ];
+            const timestamps = [...new Set(timeline.data.map(d => d.timestamp))].sort();
+            const counts = new Map(timeline.data.map(d => [d.timestamp + '|' + d.segment, d.requestCount]));
+            const totals = new Map(segments.map(s => [s.segment, 0]));
+            timeline.data.forEach(d => totals.set(d.segment, totals.get(d.segment) + d.requestCount));
+            const grandTotal = [...totals.values()].reduce((sum, n) => sum + n, 0);
+
+            const datasets = segments.map(s => ({
+                label: s.label + ' (' + (grandTotal ? (totals.get(s.segment) / grandTotal * 100).toFixed(1) : '0.0') + '%)',
+                data: timestamps.map(timestamp => counts.get(timestamp + '|' + s.segment) ?? 0),
+                borderColor: s.border,
+                backgroundColor: s.bg,
+                fill: true,
+                tension: 0.4
+            }));
+
+            timelineChart = new Chart(ctx, {
+                type: 'line',
+                data: {
+                    labels: timestamps.map(formatTimelineLabel),
+                    datasets: datasets
+                },
+                options: {
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    interaction: {
+                        mode: 'index',
+                        intersect: false
+                    },
+                    plugins: {
+                        legend: {
+                            position: 'bottom',
+                            labels: {
+                                boxWidth: 15,
+                                font: { size: 11 }
+                            }
                         }
                     },
                     scales: {
                         y: {
+                            stacked: true,
                             beginAtZero: true,
                             ticks: {
                                 precision: 0
@@ -1321,7 +3064,7 @@ function getHtmlDashboard(): string {
         }
 
         // Render user timeline with status codes overlaid
-        function renderUserTimeline(data) {
+        function renderUserTimeline(data, anomalies) {
             const ctx = document.getElementById('timelineChart');
 
             if (timelineChart) {
@@ -1351,10 +3094,16 @@ function getHtmlDashboard(): string {
                 };
             });
 
-            const labels = timestamps.map(ts => new Date(ts).toLocaleTimeString([], {
-                hour: '2-digit',
-                minute: '2-digit'
-            }));
+            const totals = timestamps.map(timestamp => data
+                .filter(d => d.timestamp === timestamp)
+                .reduce((sum, d) => sum + d.requestCount, 0));
+            const markers = anomalyDataset(timestamps, totals, anomalies);
+            if (markers) {
+                datasets.push(markers);
+            }
+            renderAnomalySummary(anomalies);
+
+            const labels = timestamps.map(ts => formatTimelineLabel(ts));
 
             timelineChart = new Chart(ctx, {
                 type: 'line',
@@ -1384,7 +3133,8 @@ function getHtmlDashboard(): string {
                                     const label = context.dataset.label || '';
                                     const value = context.parsed.y || 0;
                                     return \`\${label}: \${value.toLocaleString()} requests\`;
-                                }
+                                },
+                                footer: items => anomalyTooltipLines(anomalies, timestamps[items[0].dataIndex])
                             }
                         }
                     },
@@ -1424,10 +3174,11 @@ function getHtmlDashboard(): string {
         // Initialize row click handlers after DOM is ready
         function initRowClickHandlers() {
             // Event delegation for table row clicks
-            const usersTable = document.getElementById('topUsersTable');
+            const usersTables = [document.getElementById('topUsersTable'), document.getElementById('rateLimitTable'), document.getElementById('organizationKeysTable')];
+            const organizationsTable = document.getElementById('topOrganizationsTable');
             const anonymousTable = document.getElementById('topAnonymousTable');
 
-            if (usersTable) {
+            usersTables.filter(Boolean).forEach(usersTable => {
                 usersTable.addEventListener('click', (e) => {
                     const row = e.target.closest('tr.clickable-row');
                     if (row && row.dataset.type === 'user') {
@@ -1442,7 +3193,7 @@ function getHtmlDashboard(): string {
                         loadData();
                     }
                 });
-            }
+            });
 
             if (anonymousTable) {
                 anonymousTable.addEventListener('click', (e) => {
@@ -1460,6 +3211,24 @@ function getHtmlDashboard(): string {
                     }
                 });
             }
+
+            if (organizationsTable) {
+                organizationsTable.addEventListener('click', (e) => {
+                    const row = e.target.closest('tr.clickable-row');
+                    if (row && row.dataset.type === 'organization') {
+                        currentView = {
+                            type: 'organization',
+                            apiKey: null,
+                            bucket: null,
+                            name: row.dataset.organization,
+                            email: null,
+                            organization: row.dataset.organization
+                        };
+                        updateURL(true); // Push to history
+                        loadData();
+                    }
+                });
+            }
         }
 
         // Call after DOM loads
@@ -1529,8 +3298,8 @@ function getHtmlDashboard(): string {
             });
         }
 
-        function renderStatusTable(data) {
-            const container = document.getElementById('statusTableContainer');
+        function renderStatusTable(data, containerId = 'statusTableContainer') {
+            const container = document.getElementById(containerId);
             container.innerHTML = \`
                 <table class="w-full text-sm">
                     <thead>
@@ -1562,6 +3331,59 @@ function getHtmlDashboard(): string {
             \`;
         }
 
+        function renderLatencyHistogram(histogram) {
+            const ctx = document.getElementById('latencyHistogramChart');
+
+            if (latencyHistogramChart) {
+                latencyHistogramChart.destroy();
+            }
+
+            const bins = (histogram && histogram.bins) || [];
+            const p = histogram && histogram.percentiles;
+            document.getElementById('latencyPercentilesSummary').textContent = p
+                ? 'p50 ' + p.p50ResponseTime.toFixed(0) + 'ms • p90 ' + p.p90ResponseTime.toFixed(0) + 'ms • p95 ' + p.p95ResponseTime.toFixed(0) + 'ms • p99 ' + p.p99ResponseTime.toFixed(0) + 'ms'
+                : '';
+
+            latencyHistogramChart = new Chart(ctx, {
+                type: 'bar',
+                data: {
+                    labels: bins.map(bin => bin.maxMs === null ? '≥' + bin.minMs + 'ms' : bin.minMs + '–' + bin.maxMs + 'ms'),
+                    datasets: [{
+                        label: 'Requests',
+                        data: bins.map(bin => bin.requestCount),
+                        backgroundColor: 'rgba(102, 126, 234, 0.6)',
+                        borderColor: 'rgb(102, 126, 234)',
+                        borderWidth: 1
+                    }]
+                },
+                options: {
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: {
+                        legend: {
+                            display: false
+                        },
+                        tooltip: {
+                            callbacks: {
+                                label: function(context) {
+                                    const bin = bins[context.dataIndex];
+                                    return bin.requestCount.toLocaleString() + ' (' + bin.percentage.toFixed(1) + '%)';
+                                }
+                            }
+                        }
+                    },
+                    scales: {
+                        y: {
+                            beginAtZero: true,
+                            ticks: {
+                                precision: 0
+                            }
+                        }
+                    }
+                }
+            });
+        }
+
         function renderSampleUrls(urls) {
             const container = document.getElementById('sampleUrlsContainer');
             if (!urls || urls.length === 0) {
@@ -1697,25 +3519,126 @@ function getHtmlDashboard(): string {
             \`;
         }
 
+        // Render traffic per OpenAlex entity type
+        function renderEntityBreakdown(containerId, data) {
+            const container = document.getElementById(containerId);
+            if (!data || data.length === 0) {
+                container.innerHTML = '<p class="text-gray-500">No endpoint data available</p>';
+                return;
+            }
+
+            container.innerHTML = \`
+                <table class="w-full text-xs">
+                    <thead>
+                        <tr class="border-b border-gray-300">
+                            <th class="text-left py-2 px-2 font-semibold text-gray-700">Entity</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Share</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Single</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">List</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
+                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Error Rate</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        \${data.map(item => \`
+                            <tr class="border-b border-gray-200">
+                                <td class="py-2 px-2 font-medium text-gray-800">/\${item.entity}</td>
+                                <td class="py-2 px-2 text-right font-medium text-gray-800">\${item.requestCount.toLocaleString()}</td>
+                                <td class="py-2 px-2 text-right text-gray-600">\${item.percentage.toFixed(1)}%</td>
+                                <td class="py-2 px-2 text-right text-gray-600">\${item.singleCount.toLocaleString()}</td>
+                                <td class="py-2 px-2 text-right text-gray-600">\${item.listCount.toLocaleString()}</td>
+                                <td class="py-2 px-2 text-right text-gray-600">\${item.avgResponseTime.toFixed(0)}ms</td>
+                                <td class="py-2 px-2 text-right">
+                                    <span class="\${item.errorRate >= 20 ? 'text-red-700 font-semibold' : item.errorRate >= 5 ? 'text-yellow-700' : 'text-gray-600'}">
+                                        \${item.errorRate.toFixed(1)}%
+                                    </span>
+                                </td>
+                            </tr>
+                        \`).join('')}
+                    </tbody>
+                </table>
+            \`;
+        }
+
+        // Render query feature usage, filter fields and per_page values side by side
+        function renderQueryParamUsage(containerId, usage) {
+            const container = document.getElementById(containerId);
+            if (!usage || usage.totalRequests === 0) {
+                container.innerHTML = '<p class="text-gray-500">No query data available</p>';
+                return;
+            }
+
+            const featureRows = usage.features.map(item => \`
+                <tr class="border-b border-gray-200">
+                    <td class="py-2 px-2 font-medium text-gray-800">\${item.feature}</td>
+                    <td class="py-2 px-2 text-right font-medium text-gray-800">\${item.requestCount.toLocaleString()}</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${item.percentage.toFixed(1)}%</td>
+                    <td class="py-2 px-2 text-right text-gray-600">\${item.requestCount > 0 ? item.avgResponseTime.toFixed(0) + 'ms' : '-'}</td>
+                </tr>
+            \`).join('');
+
+            const fieldRows = usage.filterFields.length === 0
+                ? '<tr><td colspan="3" class="py-2 px-2 text-gray-500">No filters used</td></tr>'
+                : usage.filterFields.map(item => \`
+                    <tr class="border-b border-gray-200">
+                        <td class="py-2 px-2"><code class="text-xs">\${item.field}</code></td>
+                        <td class="py-2 px-2 text-right font-medium text-gray-800">\${item.requestCount.toLocaleString()}</td>
+                        <td class="py-2 px-2 text-right text-gray-600">\${item.avgResponseTime.toFixed(0)}ms</td>
+                    </tr>
+                \`).join('');
+
+            const perPage = usage.perPage.length === 0
+                ? 'not set'
+                : usage.perPage.map(item => item.perPage + ' (' + item.requestCount.toLocaleString() + ')').join(', ');
+
+            container.innerHTML = \`
+                <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <table class="w-full text-xs">
+                        <thead>
+                            <tr class="border-b border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Feature</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Share</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
+                            </tr>
+                        </thead>
+                        <tbody>\${featureRows}</tbody>
+                    </table>
+                    <table class="w-full text-xs">
+                        <thead>
+                            <tr class="border-b border-gray-300">
+                                <th class="text-left py-2 px-2 font-semibold text-gray-700">Filter Field</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Requests</th>
+                                <th class="text-right py-2 px-2 font-semibold text-gray-700">Avg Time</th>
+                            </tr>
+                        </thead>
+                        <tbody>\${fieldRows}</tbody>
+                    </table>
+                </div>
+                <div class="mt-3 text-xs text-gray-600">
+                    <span class="font-semibold">Deep cursor pages:</span> \${usage.deepPagingCount.toLocaleString()}
+                    <span class="mx-2">•</span>
+                    <span class="font-semibold">per_page:</span> \${perPage}
+                </div>
+            \`;
+        }
+
         // Pagination helpers
         function updateUsersPagination(total, start, end) {
             const pageInfo = document.getElementById('usersPageInfo');
             const prevBtn = document.getElementById('usersPrevPage');
             const nextBtn = document.getElementById('usersNextPage');
 
-            if (total === 0) {
-                pageInfo.textContent = 'No results';
-                prevBtn.disabled = true;
-                nextBtn.disabled = true;
+            prevBtn.disabled = topListCursors.users.length === 0;
+            nextBtn.disabled = !(usersList && usersList.nextCursor);
+
+            if (end === 0 || end < start) {
+                pageInfo.textContent = total === 0 ? 'No results' : 'No results on this page (' + total + ' in total)';
                 return;
             }
 
-            const actualEnd = Math.min(end, total);
-            pageInfo.textContent = 'Showing ' + start + '-' + actualEnd + ' of ' + total;
-
-            const totalPages = Math.ceil(total / pageSize);
-            prevBtn.disabled = usersPage <= 1;
-            nextBtn.disabled = usersPage >= totalPages;
+            pageInfo.textContent = 'Showing ' + start + '-' + end + ' of ' + total.toLocaleString();
         }
 
         function updateAnonymousPagination(total, start, end) {
@@ -1723,19 +3646,15 @@ function getHtmlDashboard(): string {
             const prevBtn = document.getElementById('anonymousPrevPage');
             const nextBtn = document.getElementById('anonymousNextPage');
 
-            if (total === 0) {
-                pageInfo.textContent = 'No results';
-                prevBtn.disabled = true;
-                nextBtn.disabled = true;
+            prevBtn.disabled = topListCursors.anonymous.length === 0;
+            nextBtn.disabled = !(anonymousList && anonymousList.nextCursor);
+
+            if (end === 0 || end < start) {
+                pageInfo.textContent = total === 0 ? 'No results' : 'No results on this page (' + total + ' in total)';
                 return;
             }
 
-            const actualEnd = Math.min(end, total);
-            pageInfo.textContent = 'Showing ' + start + '-' + actualEnd + ' of ' + total;
-
-            const totalPages = Math.ceil(total / pageSize);
-            prevBtn.disabled = anonymousPage <= 1;
-            nextBtn.disabled = anonymousPage >= totalPages;
+            pageInfo.textContent = 'Showing ' + start + '-' + end + ' of ' + total.toLocaleString();
         }
     </script>
 </body>
@@ -1775,6 +3694,9 @@ function getApiKeysPage(): string {
             0% { transform: rotate(0deg); }
             100% { transform: rotate(360deg); }
         }
+        .sort-header::after {
+            content: attr(data-arrow);
+        }
     </style>
 </head>
 <body class="p-4 md:p-8">
@@ -1821,14 +3743,19 @@ function getApiKeysPage(): string {
                             <th class="text-left py-2 px-2 font-semibold text-gray-700">Name</th>
                             <th class="text-left py-2 px-2 font-semibold text-gray-700">Email</th>
                             <th class="text-center py-2 px-2 font-semibold text-gray-700">Academic</th>
-                            <th class="text-right py-2 px-2 font-semibold text-gray-700">Rate Limit</th>
-                            <th class="text-left py-2 px-2 font-semibold text-gray-700">Created</th>
+                            <th data-sort="max_per_second" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Rate Limit</th>
+                            <th data-sort="lastSeen" class="sort-header text-left py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Last Seen</th>
+                            <th data-sort="requests24h" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">24h</th>
+                            <th data-sort="requests7d" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">7d</th>
+                            <th data-sort="successRate" class="sort-header text-right py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600" title="2xx responses in the last 24 hours">Success</th>
+                            <th class="text-left py-2 px-2 font-semibold text-gray-700">Last 7 Days</th>
+                            <th data-sort="created_at" class="sort-header text-left py-2 px-2 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600">Created</th>
                             <th class="text-left py-2 px-2 font-semibold text-gray-700">Expires</th>
                         </tr>
                     </thead>
                     <tbody id="apiKeysTable">
                         <tr>
-                            <td colspan="9" class="text-center py-8 text-gray-500">Loading...</td>
+                            <td colspan="14" class="text-center py-8 text-gray-500">Loading...</td>
                         </tr>
                     </tbody>
                 </table>
@@ -1857,6 +3784,35 @@ function getApiKeysPage(): string {
             btnRefresh.addEventListener('click', () => {
                 loadApiKeys();
             });
+
+            document.querySelectorAll('.sort-header').forEach(header => {
+                header.addEventListener('click', () => {
+                    sortOrder = sortField === header.dataset.sort && sortOrder === 'desc' ? 'asc' : 'desc';
+                    sortField = header.dataset.sort;
+                    renderApiKeys(allKeys);
+                });
+            });
+        }
+
+        // Fetch an API route as JSON, throwing the error envelope's message on failure
+        async function fetchJson(url, options) {
+            const response = await fetch(url, options);
+            const body = await response.json().catch(() => null);
+            if (!response.ok) {
+                const err = new Error(body && body.error ? body.error : 'Request failed with status ' + response.status);
+                err.code = body && body.code;
+                err.retryable = Boolean(body && body.retryable);
+                throw err;
+            }
+            return body;
+        }
+
+        // Message for a failed request: the API's own message when there is one
+        function describeError(err, fallback) {
+            if (!err || !err.code) {
+                return fallback;
+            }
+            return err.message + (err.retryable ? ' (temporary, try again in a moment)' : '') + ' [' + err.code + ']';
         }
 
         // Load API keys
@@ -1865,17 +3821,16 @@ function getApiKeysPage(): string {
             hideError();
 
             try {
-                const response = await fetch('/api/api-keys');
-                if (!response.ok) {
-                    throw new Error('Failed to fetch API keys');
-                }
-
-                const result = await response.json();
+                // Keys stay manageable when usage is unavailable; the usage columns are just left empty
+                const result = await fetchJson('/api/api-keys?usage=1').catch(err => {
+                    showError(describeError(err, 'Failed to load key usage.') + ' Showing keys without usage.');
+                    return fetchJson('/api/api-keys');
+                });
                 renderApiKeys(result.data);
                 summary.textContent = \`Total: \${result.count} API key\${result.count !== 1 ? 's' : ''}\`;
                 lastUpdated.textContent = 'Last updated: ' + new Date().toLocaleTimeString();
             } catch (err) {
-                showError('Failed to load API keys. Please try again.');
+                showError(describeError(err, 'Failed to load API keys. Please try again.'));
                 console.error('Error loading API keys:', err);
             } finally {
                 showLoading(false);
@@ -1885,16 +3840,95 @@ function getApiKeysPage(): string {
         // Store all keys globally
         let allKeys = [];
 
+        // Column the table is sorted by (null keeps the server's newest-first order)
+        let sortField = null;
+        let sortOrder = 'desc';
+
+        // Sortable values of a key, by column
+        const SORT_VALUES = {
+            max_per_second: key => key.max_per_second,
+            created_at: key => key.created_at,
+            lastSeen: key => key.usage ? key.usage.lastSeen : null,
+            requests24h: key => key.usage ? key.usage.requests24h : null,
+            requests7d: key => key.usage ? key.usage.requests7d : null,
+            successRate: key => key.usage ? key.usage.successRate : null
+        };
+
+        // Keys in the selected order; keys without a value go last either way
+        function sortKeys(keys) {
+            if (!sortField) {
+                return keys;
+            }
+            const value = SORT_VALUES[sortField];
+            const direction = sortOrder === 'desc' ? -1 : 1;
+            return [...keys].sort((a, b) => {
+                const left = value(a);
+                const right = value(b);
+                if (left === null || left === undefined) {
+                    return right === null || right === undefined ? 0 : 1;
+                }
+                if (right === null || right === undefined) {
+                    return -1;
+                }
+                return direction * (typeof left === 'string' ? left.localeCompare(right) : left - right);
+            });
+        }
+
+        // Highlight the sorted column with its direction
+        function markSort() {
+            document.querySelectorAll('.sort-header').forEach(header => {
+                const active = header.dataset.sort === sortField;
+                header.classList.toggle('text-indigo-600', active);
+                header.classList.toggle('text-gray-700', !active);
+                header.dataset.arrow = active ? (sortOrder === 'desc' ? ' ↓' : ' ↑') : '';
+            });
+        }
+
+        // Small inline SVG line of a series of counts
+        function sparkline(values, width = 120, height = 24) {
+            if (!values || values.length < 2) {
+                return '';
+            }
+            const max = Math.max(...values, 1);
+            const step = width / (values.length - 1);
+            const points = values.map((value, i) => (i * step).toFixed(1) + ',' + (height - 1 - (value / max) * (height - 2)).toFixed(1)).join(' ');
+            return '<svg width="' + width + '" height="' + height + '" class="text-indigo-500"><polyline fill="none" stroke="currentColor" stroke-width="1.5" points="' + points + '"/></svg>';
+        }
+
+        // Usage cells of a key; empty when usage was not loaded
+        function renderUsageCells(usage) {
+            if (!usage) {
+                return '<td colspan="5" class="py-2 px-2 text-center text-gray-400 text-xs">Usage unavailable</td>';
+            }
+            if (usage.trafficUnknown) {
+                return '<td colspan="5" class="py-2 px-2 text-center text-gray-400 text-xs" title="Too many keys had traffic to read them all">Usage unknown</td>';
+            }
+            const successClass = usage.successRate === null ? 'text-gray-400'
+                : usage.successRate >= 95 ? 'text-green-600' : usage.successRate >= 80 ? 'text-yellow-600' : 'text-red-600';
+            return \`
+                <td class="py-2 px-2 text-gray-600 text-xs">
+                    \${usage.lastSeen ? new Date(usage.lastSeen.replace(' ', 'T') + 'Z').toLocaleString() : 'Not in 90 days'}
+                </td>
+                <td class="py-2 px-2 text-right text-gray-800">\${usage.requests24h.toLocaleString()}</td>
+                <td class="py-2 px-2 text-right text-gray-800">\${usage.requests7d.toLocaleString()}</td>
+                <td class="py-2 px-2 text-right font-medium \${successClass}">
+                    \${usage.successRate === null ? '-' : usage.successRate.toFixed(1) + '%'}
+                </td>
+                <td class="py-2 px-2">\${sparkline(usage.trend, 80, 20)}</td>
+            \`;
+        }
+
         // Render API keys table
         function renderApiKeys(keys) {
             allKeys = keys; // Store for editing
+            markSort();
 
             if (!keys || keys.length === 0) {
-                apiKeysTable.innerHTML = '<tr><td colspan="9" class="text-center py-8 text-gray-500">No API keys found</td></tr>';
+                apiKeysTable.innerHTML = '<tr><td colspan="14" class="text-center py-8 text-gray-500">No API keys found</td></tr>';
                 return;
             }
 
-            apiKeysTable.innerHTML = keys.map((key, index) => \`
+            apiKeysTable.innerHTML = sortKeys(keys).map((key, index) => \`
                 <tr class="border-b border-gray-200 hover:bg-gray-50" data-key-id="\${key.id}">
                     <td class="py-2 px-2 text-gray-600">\${index + 1}</td>
                     <td class="py-2 px-2">
@@ -1920,6 +3954,7 @@ function getApiKeysPage(): string {
                         </div>
                         <div class="text-xs text-gray-500">\${key.max_per_day ? (key.max_per_day.toLocaleString() + '/day') : 'N/A'}</div>
                     </td>
+                    \${renderUsageCells(key.usage)}
                     <td class="py-2 px-2 text-gray-600 text-xs">
                         \${key.created_at ? new Date(key.created_at).toLocaleString() : 'N/A'}
                     </td>
@@ -2015,7 +4050,7 @@ function getApiKeysPage(): string {
                             this.innerHTML = '<span class="text-gray-500">Saving...</span>';
 
                             // Send update request
-                            const response = await fetch('/api/api-keys', {
+                            await fetchJson('/api/api-keys', {
                                 method: 'PATCH',
                                 headers: {
                                     'Content-Type': 'application/json'
@@ -2023,10 +4058,6 @@ function getApiKeysPage(): string {
                                 body: JSON.stringify(updateData)
                             });
 
-                            if (!response.ok) {
-                                throw new Error('Failed to update');
-                            }
-
                             // Update local data
                             const key = allKeys.find(k => k.id === parseInt(keyId));
                             if (key) {
@@ -2064,7 +4095,7 @@ function getApiKeysPage(): string {
 
                         } catch (err) {
                             console.error('Error updating:', err);
-                            showError('Failed to update. Please try again.');
+                            showError(describeError(err, 'Failed to update. Please try again.'));
                             this.innerHTML = originalContent;
                         }
                     };
@@ -0,0 +1,146 @@
+import { stringLiteral } from './sql';
+
+/**
+ * OpenAlex API URL structure
+ *
+ * Request URLs look like https://api.openalex.org/works?filter=...,
+ * /authors/A5023888391, /autocomplete/institutions?q=..., or /W2741809807.
+ * These helpers build Analytics Engine SQL expressions that classify them
+ * by entity type and by single-entity vs list requests.
+ */
+
+interface EntityDefinition {
+    // First path segment, e.g. "works"
+    name: string;
+    // Prefix of bare root-level IDs such as /W2741809807
+    idPrefix?: string;
+}
+
+export const ENTITIES: EntityDefinition[] = [
+    { name: 'works', idPrefix: 'W' },
+    { name: 'authors', idPrefix: 'A' },
+    { name: 'sources', idPrefix: 'S' },
+    { name: 'institutions', idPrefix: 'I' },
+    { name: 'topics', idPrefix: 'T' },
+    { name: 'keywords' },
+    { name: 'publishers', idPrefix: 'P' },
+    { name: 'funders', idPrefix: 'F' },
+    { name: 'concepts', idPrefix: 'C' },
+    { name: 'domains' },
+    { name: 'fields' },
+    { name: 'subfields' },
+    { name: 'sdgs' },
+    { name: 'countries' },
+    { name: 'continents' },
+    { name: 'languages' },
+    { name: 'licenses' },
+    { name: 'work-types' },
+    { name: 'source-types' },
+    { name: 'institution-types' },
+    { name: 'autocomplete' },
+    { name: 'text' },
+];
+
+// Entity reported for URLs that match none of the above
+export const OTHER_ENTITY = 'other';
+
+/**
+ * SQL expression for the path of a URL column, without the scheme, host or query string
+ *
+ * Handles both absolute URLs and bare paths.
+ */
+export function routePathExpr(urlColumn: string): string {
+    const path = `if(startsWith(${urlColumn}, '/'), ${urlColumn}, substring(${urlColumn}, position(substring(${urlColumn}, 9), '/') + 8))`;
+    return `if(position(${path}, '?') > 0, substring(${path}, 1, position(${path}, '?') - 1), ${path})`;
+}
+
+/**
+ * SQL expression naming the entity a route path column (see routePathExpr) refers to
+ */
+export function entityExpr(route: string): string {
+    return ENTITIES.reduceRight((elseExpr, entity) => {
+        const conditions = [
+            `${route} = ${stringLiteral(`/${entity.name}`)}`,
+            `startsWith(${route}, ${stringLiteral(`/${entity.name}/`)})`,
+        ];
+        if (entity.idPrefix) {
+            conditions.push(`startsWith(${route}, ${stringLiteral(`/${entity.idPrefix}`)})`);
+        }
+        return `if(${conditions.join(' OR ')}, ${stringLiteral(entity.name)}, ${elseExpr})`;
+    }, stringLiteral(OTHER_ENTITY));
+}
+
+/**
+ * SQL expression over a route path column that is 1 for single-entity
+ * requests (/works/W123, /W123) and 0 for lists
+ *
+ * Autocomplete (/autocomplete/works) and an empty trailing segment
+ * (/works/) are lists too.
+ */
+export function isSingleEntityExpr(route: string): string {
+    const rest = `substring(${route}, 2)`;
+    const entityId = `position(${rest}, '/') > 0 AND position(${rest}, '/') < length(${rest}) AND NOT startsWith(${route}, '/autocomplete/')`;
+    const rootId = `length(${route}) > 2 AND position(substring(${route}, 3), '/') = 0 AND substring(${route}, 2, 1) >= 'A' AND substring(${route}, 2, 1) <= 'Z'`;
+    return `if((${entityId}) OR (${rootId}), 1, 0)`;
+}
+
+/**
+ * Query features whose usage we track, with the parameter spellings
+ * OpenAlex accepts for each
+ */
+export const QUERY_FEATURES: { name: string; params: string[] }[] = [
+    { name: 'filter', params: ['filter'] },
+    { name: 'search', params: ['search'] },
+    { name: 'group_by', params: ['group_by', 'group-by'] },
+    { name: 'sort', params: ['sort'] },
+    { name: 'select', params: ['select'] },
+    { name: 'per_page', params: ['per_page', 'per-page'] },
+    { name: 'page', params: ['page'] },
+    { name: 'cursor', params: ['cursor'] },
+    { name: 'sample', params: ['sample'] },
+];
+
+// How many comma-separated filter fields are read from each filter= value
+export const MAX_FILTER_FIELDS = 3;
+
+/**
+ * SQL condition that is true when a URL column has any of the given query parameters
+ */
+export function hasQueryParamExpr(urlColumn: string, params: string[]): string {
+    const conditions = params.flatMap(param => ['?', '&'].map(sep =>
+        `position(${urlColumn}, ${stringLiteral(`${sep}${param}=`)}) > 0`
+    ));
+    return `(${conditions.join(' OR ')})`;
+}
+
+/**
+ * SQL expression for the value of the first matching query parameter ('' when absent)
+ */
+export function queryParamValueExpr(urlColumn: string, params: string[]): string {
+    const rest = params.flatMap(param => ['?', '&'].map(sep => `${sep}${param}=`))
+        .reduceRight((elseExpr, needle) => {
+            const literal = stringLiteral(needle);
+            return `if(position(${urlColumn}, ${literal}) > 0, substring(${urlColumn}, position(${urlColumn}, ${literal}) + ${needle.length}), ${elseExpr})`;
+        }, "''");
+    return `if(position(${rest}, '&') > 0, substring(${rest}, 1, position(${rest}, '&') - 1), ${rest})`;
+}
+
+/**
+ * SQL expressions for the first MAX_FILTER_FIELDS field names of a filter value column
+ *
+ * filter=publication_year:2020,is_oa:true yields publication_year and is_oa.
+ */
+export function filterFieldExprs(filterColumn: string): string[] {
+    const fieldOf = (value: string) =>
+        `if(position(${value}, ':') > 0, substring(${value}, 1, position(${value}, ':') - 1), '')`;
+    const afterComma = (value: string) =>
+        `if(position(${value}, ',') > 0, substring(${value}, position(${value}, ',') + 1), '')`;
+
+    const exprs: string[] = [];
+    let remaining = filterColumn;
+    for (let i = 0; i < MAX_FILTER_FIELDS; i++) {
+        exprs.push(fieldOf(remaining));
+        remaining = afterComma(remaining);
+    }
+    return exprs;
+}
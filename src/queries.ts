@@ -1,801 +1,2902 @@
-import type { Env, TopUser, TopAnonymousUser, TimelineDataPoint, Period, StatusCodeBreakdown } from './types';
+import type { Env, TopUser, TopAnonymousUser, TopList, TopListSort, TopListPage, SortOrder, TimelineDataPoint, StatusTimelineDataPoint, TimeRange, StatusCodeBreakdown, LatencyPercentiles, PeriodComparison, LatencyHistogramBin, EntityBreakdown, QueryParamUsage, QueryFeatureUsage, FilterFieldUsage, RequestRates, ApiUser, RateLimitUsage, RateLimitReport, RateLimitStatus, SearchResult, SearchMatchField, UsageTotals, TopOrganization, OrganizationUsage, OrganizationKeyUsage, Segment, SegmentTimelineDataPoint, PremiumDomainUsage, BucketInterval, KeyExpiryUsage, KeyExpiryReport, DormantKey, DecliningKey, DormantKeyReport, RangePreset, ApiKeyUsage, UnknownKeyUsage, UnknownKeyReport } from './types';
+import { resolvePreset, rangeDurationSeconds, bucketIntervalFor, previousRange, isRangePreset } from './timerange';
+import { stringLiteral, dateTimeLiteral, clampLimit, column, identifier, bucketIndexCondition, QueryValidationError } from './sql';
+import type { ColumnName } from './sql';
+import type { QueryKind } from './cache';
+import { analyticsBackend } from './backend';
+import { datasetSchema } from './schema';
+import type { DatasetSchema } from './schema';
+import { routePathExpr, entityExpr, isSingleEntityExpr, QUERY_FEATURES, hasQueryParamExpr, queryParamValueExpr, filterFieldExprs } from './openalex';
+
+// Top lists look up names in D1 with one bound parameter per key,
+// and D1 allows at most 100 bound parameters per statement
+const MAX_TOP_LIMIT = 100;
 
 /**
- * Analytics Engine SQL API response structure
+ * Execute SQL query against the configured analytics backend, through the request's query cache when there is one
  */
-interface AnalyticsEngineResponse {
-    data?: unknown[];
-    meta?: {
-        name: string;
-        type: string;
-    }[];
-    rows?: number;
+async function executeQuery(env: Env, query: string, kind: QueryKind = 'breakdown'): Promise<any[]> {
+    const backend = analyticsBackend(env);
+    if (env.QUERY_CACHE) {
+        return env.QUERY_CACHE.get(query, kind, () => backend.query(query));
+    }
+    return backend.query(query);
+}
+
+/**
+ * Validated dataset name to select from
+ */
+function datasetTable(env: Env): string {
+    return identifier(env.ANALYTICS_DATASET);
+}
+
+/**
+ * WHERE clause condition restricting rows to [from, to)
+ */
+function timeRangeCondition(range: TimeRange): string {
+    return `timestamp >= ${dateTimeLiteral(range.from)} AND timestamp < ${dateTimeLiteral(range.to)}`;
+}
+
+/**
+ * WHERE clause condition matching a single API key
+ */
+function apiKeyCondition(schema: DatasetSchema, apiKey: string): string {
+    return `${schema.apiKey} = ${stringLiteral(apiKey)}`;
+}
+
+/**
+ * WHERE clause condition matching the anonymous requests of a single bucket
+ */
+function bucketCondition(schema: DatasetSchema, bucket: string): string {
+    return `${schema.apiKey} = '' AND ${bucketIndexCondition(bucket, schema.index)}`;
+}
+
+/**
+ * Bucket name ("anon_123") from an anonymous index key ("anon_123_200")
+ */
+function anonBucketExpr(schema: DatasetSchema): string {
+    return `substring(${schema.index}, 1, position(substring(${schema.index}, 6), '_') + 4)`;
+}
+
+// Segments the overview can be split by
+export const SEGMENTS: Segment[] = ['academic', 'non_academic', 'anonymous'];
+
+// Keys with traffic that are checked for is_academic, busiest first; quieter keys
+// past this count as non-academic, and segmentKeysTruncated reports it
+const SEGMENT_KEY_LIMIT = 10000;
+
+// Academic keys among the active ones, per request env and range, so a route's
+// segment queries and its truncation check share one lookup
+const academicKeyLookups = new WeakMap<Env, Map<string, Promise<{ keys: string[]; truncated: boolean }>>>();
+
+/**
+ * Validate the segment parameter; null (all traffic) when it is missing
+ */
+export function parseSegment(value: string | null): Segment | null {
+    if (value === null || value === '') {
+        return null;
+    }
+    if (!(SEGMENTS as string[]).includes(value)) {
+        throw new QueryValidationError(`Unknown segment: ${value} (expected one of ${SEGMENTS.join(', ')})`);
+    }
+    return value as Segment;
+}
+
+/**
+ * Academic keys among the SEGMENT_KEY_LIMIT busiest keys in range, and whether more keys had traffic
+ *
+ * is_academic lives in D1, so the active keys are fetched first and only the
+ * academic ones among them end up in the query.
+ */
+function getAcademicKeys(env: Env, range: TimeRange): Promise<{ keys: string[]; truncated: boolean }> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT apiKey, SUM(sampleInterval) as requestCount
+        FROM (
+            SELECT
+                ${schema.apiKey} as apiKey,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${schema.apiKey} != ''
+        )
+        GROUP BY apiKey
+        ORDER BY requestCount DESC, apiKey
+        LIMIT ${SEGMENT_KEY_LIMIT + 1}
+    `;
+
+    let lookups = academicKeyLookups.get(env);
+    if (!lookups) {
+        lookups = new Map();
+        academicKeyLookups.set(env, lookups);
+    }
+    let lookup = lookups.get(query);
+    if (!lookup) {
+        lookup = (async () => {
+            const activeKeys = await executeQuery(env, query, 'ranking');
+            if (activeKeys.length === 0) {
+                return { keys: [], truncated: false };
+            }
+            const academic = await env.DB
+                .prepare('SELECT api_key FROM api_keys_archive WHERE is_academic = 1 AND api_key IN (SELECT value FROM json_each(?))')
+                .bind(JSON.stringify(activeKeys.slice(0, SEGMENT_KEY_LIMIT).map(row => row.apiKey)))
+                .all<{ api_key: string }>();
+            return {
+                keys: (academic.results ?? []).map(row => row.api_key),
+                truncated: activeKeys.length > SEGMENT_KEY_LIMIT
+            };
+        })();
+        lookups.set(query, lookup);
+    }
+    return lookup;
+}
+
+/**
+ * Condition matching the academic keys among those with traffic in range, or null when there are none
+ */
+async function academicKeyCondition(env: Env, range: TimeRange): Promise<string | null> {
+    const schema = datasetSchema(env);
+    const { keys } = await getAcademicKeys(env, range);
+    return keys.length > 0 ? `${schema.apiKey} IN (${keys.map(key => stringLiteral(key)).join(', ')})` : null;
+}
+
+/**
+ * Whether the academic / non-academic split of range left out keys past SEGMENT_KEY_LIMIT
+ * (they are counted as non-academic); always false for all traffic and for anonymous
+ */
+export async function segmentKeysTruncated(env: Env, segment: Segment | null, range: TimeRange): Promise<boolean> {
+    if (segment !== 'academic' && segment !== 'non_academic') {
+        return false;
+    }
+    return (await getAcademicKeys(env, range)).truncated;
+}
+
+/**
+ * Condition selecting the rows of a segment, or null for all traffic
+ */
+async function segmentCondition(env: Env, segment: Segment | null, range: TimeRange): Promise<string | null> {
+    const schema = datasetSchema(env);
+    if (segment === null) {
+        return null;
+    }
+    if (segment === 'anonymous') {
+        return `${schema.apiKey} = ''`;
+    }
+
+    const academic = await academicKeyCondition(env, range);
+    if (segment === 'academic') {
+        return academic ?? '1 = 0';
+    }
+    return academic ? `${schema.apiKey} != '' AND NOT (${academic})` : `${schema.apiKey} != ''`;
+}
+
+/**
+ * scope narrowed to a segment; unchanged for all traffic
+ */
+async function segmentScope(env: Env, scope: string, segment: Segment | null, range: TimeRange): Promise<string> {
+    const condition = await segmentCondition(env, segment, range);
+    return condition ? `${scope} AND (${condition})` : scope;
+}
+
+/**
+ * toStartOfInterval argument sized to the span of the range
+ */
+function timelineBucketInterval(range: TimeRange): string {
+    const { value, unit } = bucketIntervalFor(range);
+    return `INTERVAL '${value}' ${unit}`;
+}
+
+// Response time percentiles reported alongside averages
+const PERCENTILES: [keyof LatencyPercentiles, number][] = [
+    ['p50ResponseTime', 0.5],
+    ['p90ResponseTime', 0.9],
+    ['p95ResponseTime', 0.95],
+    ['p99ResponseTime', 0.99],
+];
+
+const EMPTY_PERCENTILES: LatencyPercentiles = {
+    p50ResponseTime: 0,
+    p90ResponseTime: 0,
+    p95ResponseTime: 0,
+    p99ResponseTime: 0,
+};
+
+// Upper edges (ms) of the response time histogram bins; the last bin is open-ended
+const HISTOGRAM_EDGES_MS = [25, 50, 100, 200, 300, 500, 750, 1000, 2000, 5000, 10000];
+
+/**
+ * SELECT columns computing response time percentiles
+ *
+ * quantileExactWeighted weights each row by its sample interval, so a
+ * sampled row counts as many times as the requests it stands for.
+ */
+function percentileColumns(valueExpr: string, weightExpr: string): string {
+    return PERCENTILES
+        .map(([name, level]) => `quantileExactWeighted(${level})(${valueExpr}, ${weightExpr}) as ${name}`)
+        .join(',\n            ');
+}
+
+/**
+ * Read percentile columns from a result row
+ */
+function readPercentiles(row: any): LatencyPercentiles {
+    const percentiles = { ...EMPTY_PERCENTILES };
+    for (const [name] of PERCENTILES) {
+        percentiles[name] = Math.round(Number(row[name] ?? 0) * 100) / 100;
+    }
+    return percentiles;
+}
+
+/**
+ * Get response time percentiles per group (API key, bucket, ...)
+ * for the rows matching scope
+ */
+async function getLatencyPercentilesByGroup(env: Env, groupExpr: string, scope: string, range: TimeRange): Promise<Map<string, LatencyPercentiles>> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT
+            groupKey,
+            ${percentileColumns('responseTime', 'sampleInterval')}
+        FROM (
+            SELECT
+                ${groupExpr} as groupKey,
+                ${schema.responseTime} as responseTime,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${scope}
+        )
+        GROUP BY groupKey
+    `;
+
+    const results = await executeQuery(env, query, 'ranking');
+    return new Map(results.map(row => [row.groupKey as string, readPercentiles(row)]));
+}
+
+// Length of the windows peak and p99 request rates are measured over
+export const RATE_WINDOW_SECONDS = 10;
+
+const EMPTY_RATES: RequestRates = {
+    peakRequestsPerSecond: 0,
+    p99RequestsPerSecond: 0,
+};
+
+/**
+ * Read request rate columns (per-window request counts) from a result row
+ */
+function readRequestRates(row: any): RequestRates {
+    return {
+        peakRequestsPerSecond: Math.round((Number(row.peakWindowCount ?? 0) / RATE_WINDOW_SECONDS) * 100) / 100,
+        p99RequestsPerSecond: Math.round((Number(row.p99WindowCount ?? 0) / RATE_WINDOW_SECONDS) * 100) / 100,
+    };
+}
+
+/**
+ * Get peak and p99 request rates per group (API key, bucket, ...) for the rows matching scope
+ *
+ * Requests are summed (weighted by _sample_interval) into RATE_WINDOW_SECONDS
+ * windows; the peak is the busiest window and p99 is taken over the windows
+ * the group had traffic in.
+ */
+async function getRequestRatesByGroup(env: Env, groupExpr: string, scope: string, range: TimeRange): Promise<Map<string, RequestRates>> {
+    const query = `
+        SELECT
+            groupKey,
+            MAX(windowCount) as peakWindowCount,
+            quantileExactWeighted(0.99)(windowCount, 1) as p99WindowCount
+        FROM (
+            SELECT
+                groupKey,
+                rateWindow,
+                SUM(sampleInterval) as windowCount
+            FROM (
+                SELECT
+                    ${groupExpr} as groupKey,
+                    toStartOfInterval(timestamp, INTERVAL '${RATE_WINDOW_SECONDS}' SECOND) as rateWindow,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${scope}
+            )
+            GROUP BY groupKey, rateWindow
+        )
+        GROUP BY groupKey
+    `;
+
+    const results = await executeQuery(env, query, 'ranking');
+    return new Map(results.map(row => [row.groupKey as string, readRequestRates(row)]));
+}
+
+// Metrics top lists can be ranked by
+export const TOP_LIST_SORTS: TopListSort[] = [
+    'requestCount',
+    'requestsPerSecond',
+    'peakRequestsPerSecond',
+    'avgResponseTime',
+    'p50ResponseTime',
+    'p90ResponseTime',
+    'p95ResponseTime',
+    'p99ResponseTime',
+    'successRate',
+    'errorCount',
+    'serverErrorCount',
+    'throttledCount',
+];
+
+/**
+ * Validate the sort and order parameters of a top list
+ */
+export function topListOrder(sort: string = 'requestCount', order: string = 'desc'): { sort: TopListSort; order: SortOrder } {
+    if (!(TOP_LIST_SORTS as string[]).includes(sort)) {
+        throw new QueryValidationError(`Unknown sort: ${sort} (expected one of ${TOP_LIST_SORTS.join(', ')})`);
+    }
+    if (order !== 'asc' && order !== 'desc') {
+        throw new QueryValidationError('order must be asc or desc');
+    }
+    return { sort: sort as TopListSort, order };
 }
 
 /**
- * Execute SQL query against Analytics Engine
+ * Validate where a page of a top list starts
  */
-async function executeQuery(env: Env, query: string): Promise<any[]> {
-    const apiUrl = `https://api.cloudflare.com/client/v4/accounts/${env.ACCOUNT_ID}/analytics_engine/sql`;
+function topListPosition({ sort, order, offset = 0 }: TopListPage): { sort: TopListSort; order: SortOrder; offset: number } {
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+        throw new QueryValidationError('offset must be a non-negative integer');
+    }
+    return { ...topListOrder(sort, order), offset };
+}
+
+/**
+ * Read the page of a top list from request parameters: a cursor, or sort, order and offset
+ *
+ * A cursor carries the range of the page it came from, so following it keeps
+ * paging through the same window even when a preset has moved on since.
+ */
+export function topListPage(params: URLSearchParams, range: TimeRange): { range: TimeRange; page: TopListPage } {
+    const cursor = params.get('cursor');
+    if (cursor) {
+        return decodeTopListCursor(cursor);
+    }
 
-    const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-            'Authorization': `Bearer ${env.API_TOKEN}`,
+    const offset = params.get('offset');
+    if (offset !== null && !/^\d+$/.test(offset)) {
+        throw new QueryValidationError('offset must be a non-negative integer');
+    }
+    return {
+        range,
+        page: {
+            sort: params.get('sort') ?? undefined,
+            order: params.get('order') ?? undefined,
+            offset: offset === null ? 0 : Number(offset),
         },
-        body: query,
+    };
+}
+
+/**
+ * Opaque cursor for the page of a top list starting at offset
+ */
+function encodeTopListCursor(range: TimeRange, ordering: { sort: TopListSort; order: SortOrder }, offset: number): string {
+    const json = JSON.stringify([range.from.getTime(), range.to.getTime(), range.preset, ordering.sort, ordering.order, offset]);
+    return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeTopListCursor(cursor: string): { range: TimeRange; page: TopListPage } {
+    let fields: unknown;
+    try {
+        fields = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    } catch {
+        throw new QueryValidationError('Invalid cursor');
+    }
+    if (!Array.isArray(fields) || fields.length !== 6) {
+        throw new QueryValidationError('Invalid cursor');
+    }
+
+    const [from, to, preset, sort, order, offset] = fields;
+    if (!Number.isSafeInteger(from) || !Number.isSafeInteger(to) || from >= to
+        || !(preset === null || (typeof preset === 'string' && isRangePreset(preset)))
+        || typeof sort !== 'string' || typeof order !== 'string' || typeof offset !== 'number') {
+        throw new QueryValidationError('Invalid cursor');
+    }
+    return {
+        range: { from: new Date(from), to: new Date(to), preset },
+        page: { sort, order, offset },
+    };
+}
+
+/**
+ * Get one row per group (API key, bucket, ...) for the rows matching scope with
+ * sample-weighted totals, ranked by a metric and limited in the query
+ *
+ * Totals are summed from per-row values; ranking by peak rate first sums them
+ * per RATE_WINDOW_SECONDS window, so the busiest window can be taken alongside.
+ * Ties are broken by request count, then by group, so pages stay stable.
+ */
+async function getTopListRows(
+    env: Env,
+    groupExpr: string,
+    scope: string,
+    range: TimeRange,
+    { sort, order }: { sort: TopListSort; order: SortOrder },
+    rowLimit: number,
+    rowOffset: number,
+    withIpSample: boolean = false
+): Promise<any[]> {
+    const query = `${topListGroupsQuery(env, groupExpr, scope, range, sort, [`${topListSortExpr(sort)} as sortValue`], withIpSample)}
+        ORDER BY sortValue ${order.toUpperCase()}, requestCount DESC, groupKey ASC
+        LIMIT ${rowLimit}${rowOffset > 0 ? ` OFFSET ${rowOffset}` : ''}
+    `;
+
+    return executeQuery(env, query, 'ranking');
+}
+
+/**
+ * Aggregate a top list is ranked by, over the rows (or windows) of topListGroupsQuery
+ */
+function topListSortExpr(sort: TopListSort): string {
+    const level = sort === 'peakRequestsPerSecond' ? 'Window' : 'Row';
+    const percentile = PERCENTILES.find(([name]) => name === sort);
+    if (percentile) {
+        return `quantileExactWeighted(${percentile[1]})(responseTime, requestCountRow)`;
+    } else if (sort === 'peakRequestsPerSecond') {
+        return 'MAX(requestCountWindow)';
+    } else if (sort === 'avgResponseTime') {
+        return `SUM(totalResponseTime${level}) / SUM(requestCount${level})`;
+    } else if (sort === 'successRate') {
+        return `100.0 * SUM(successCount${level}) / SUM(requestCount${level})`;
+    } else if (sort === 'requestsPerSecond') {
+        // The range is the same for every group, so this ranks like requestCount
+        return `SUM(requestCount${level})`;
+    }
+    return `SUM(${sort}${level})`;
+}
+
+/**
+ * Grouped query behind the top lists: the totals of each group and the given
+ * aggregate columns, unordered
+ */
+function topListGroupsQuery(
+    env: Env,
+    groupExpr: string,
+    scope: string,
+    range: TimeRange,
+    sort: TopListSort,
+    columns: string[],
+    withIpSample: boolean = false
+): string {
+    const schema = datasetSchema(env);
+    const statusCode = `toUInt32(${schema.statusCode})`;
+    const byWindow = sort === 'peakRequestsPerSecond';
+    const level = byWindow ? 'Window' : 'Row';
+
+    // [total, per-row value] pairs
+    const totals: [string, string][] = [
+        ['requestCount', '_sample_interval'],
+        ['totalResponseTime', `${schema.responseTime} * _sample_interval`],
+        ['successCount', `if(${statusCode} >= 200 AND ${statusCode} < 300, _sample_interval, 0)`],
+        ['errorCount', `if(${statusCode} >= 400, _sample_interval, 0)`],
+        ['serverErrorCount', `if(${statusCode} >= 500, _sample_interval, 0)`],
+        ['throttledCount', `if(${statusCode} = 429, _sample_interval, 0)`],
+    ];
+
+    let source = `
+            SELECT
+                ${groupExpr} as groupKey,
+                ${withIpSample ? `${schema.ip} as ip,` : ''}
+                ${byWindow ? `toStartOfInterval(timestamp, INTERVAL '${RATE_WINDOW_SECONDS}' SECOND) as rateWindow,` : ''}
+                ${schema.responseTime} as responseTime,
+                ${totals.map(([name, value]) => `${value} as ${name}Row`).join(',\n                ')}
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${scope}`;
+    if (byWindow) {
+        source = `
+            SELECT
+                groupKey,
+                ${withIpSample ? 'MAX(ip) as ip,' : ''}
+                ${totals.map(([name]) => `SUM(${name}Row) as ${name}Window`).join(',\n                ')}
+            FROM (${source}
+            )
+            GROUP BY groupKey, rateWindow`;
+    }
+
+    return `
+        SELECT
+            groupKey,
+            ${withIpSample ? 'MAX(ip) as ipSample,' : ''}
+            ${totals.map(([name]) => `SUM(${name}${level}) as ${name}`).join(',\n            ')},
+            ${columns.join(',\n            ')}
+        FROM (${source}
+        )
+        GROUP BY groupKey`;
+}
+
+/**
+ * Get request counts and ranks per group (API key, bucket, ...) among the rows
+ * matching scope, for the groups matching pageScope (at most pageSize of them;
+ * null when every group in scope is wanted)
+ *
+ * Only those groups are read; each rank is one more than the number of groups
+ * ranked ahead of it in the order of getTopListRows. Percentiles can't be
+ * compared across a subquery, so a group's percentile is placed against a value
+ * by the requests at or below that value, as quantileExactWeighted picks the
+ * first value whose cumulative weight reaches level * total.
+ */
+async function getRanking(
+    env: Env,
+    groupExpr: string,
+    scope: string,
+    pageScope: string | null,
+    pageSize: number,
+    range: TimeRange,
+    ordering: { sort: TopListSort; order: SortOrder }
+): Promise<Map<string, { requestCount: number; rank: number }>> {
+    const rows = await getTopListRows(env, groupExpr, pageScope === null ? scope : `${scope} AND (${pageScope})`, range, ordering, pageSize, 0);
+    if (rows.length === 0) {
+        return new Map();
+    }
+
+    const percentile = PERCENTILES.find(([name]) => name === ordering.sort);
+    const columns: string[] = [];
+    const aheadConditions = rows.map((row, index) => {
+        const value = Number(row.sortValue);
+        const aheadOnTie = `(requestCount > ${Number(row.requestCount)} OR (requestCount = ${Number(row.requestCount)} AND groupKey < ${stringLiteral(String(row.groupKey))}))`;
+        if (!percentile) {
+            return `sortValue ${ordering.order === 'desc' ? '>' : '<'} ${value} OR (sortValue = ${value} AND ${aheadOnTie})`;
+        }
+        columns.push(
+            `SUM(if(responseTime <= ${value}, requestCountRow, 0)) as atOrBelow${index}`,
+            `SUM(if(responseTime < ${value}, requestCountRow, 0)) as below${index}`
+        );
+        const threshold = `${percentile[1]} * requestCount`;
+        const ahead = ordering.order === 'desc' ? `atOrBelow${index} < ${threshold}` : `below${index} >= ${threshold}`;
+        return `${ahead} OR (below${index} < ${threshold} AND atOrBelow${index} >= ${threshold} AND ${aheadOnTie})`;
     });
+    if (!percentile) {
+        columns.push(`${topListSortExpr(ordering.sort)} as sortValue`);
+    }
+
+    const query = `
+        SELECT
+            ${aheadConditions.map((condition, index) => `SUM(if(${condition}, 1, 0)) as ahead${index}`).join(',\n            ')}
+        FROM (${topListGroupsQuery(env, groupExpr, scope, range, ordering.sort, columns)}
+        )
+    `;
+    const [counts] = await executeQuery(env, query, 'ranking');
+    return new Map(rows.map((row, index) => [
+        row.groupKey as string,
+        { requestCount: Number(row.requestCount), rank: Number(counts[`ahead${index}`]) + 1 }
+    ]));
+}
+
+/**
+ * Count the groups (API keys, buckets, ...) with rows matching scope
+ */
+async function countGroups(env: Env, groupExpr: string, scope: string, range: TimeRange): Promise<number> {
+    const query = `
+        SELECT count() as groupCount
+        FROM (
+            SELECT ${groupExpr} as groupKey
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${scope}
+            GROUP BY groupKey
+        )
+    `;
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Analytics Engine query failed: ${response.status} ${errorText}`);
+    const results = await executeQuery(env, query, 'ranking');
+    return Number(results[0]?.groupCount ?? 0);
+}
+
+/**
+ * Total for a page of a top list; only counted in a query when rows follow the page,
+ * or when the page is past the end
+ */
+function topListTotal(env: Env, groupExpr: string, scope: string, range: TimeRange, offset: number, rowCount: number, truncated: boolean): Promise<number> {
+    if (truncated || (rowCount === 0 && offset > 0)) {
+        return countGroups(env, groupExpr, scope, range);
     }
+    return Promise.resolve(offset + rowCount);
+}
+
+/**
+ * Read the totals of a getTopListRows row (Analytics Engine returns numbers as strings)
+ */
+function readTopListTotals(row: any, durationSeconds: number): UsageTotals {
+    const requestCount = Number(row.requestCount);
+    return {
+        requestCount: Math.round(requestCount),
+        requestsPerSecond: Math.round((requestCount / durationSeconds) * 100) / 100,
+        avgResponseTime: Math.round((Number(row.totalResponseTime) / requestCount) * 100) / 100,
+        successRate: Math.round((Number(row.successCount) / requestCount) * 10000) / 100,
+        errorCount: Math.round(Number(row.errorCount)),
+        serverErrorCount: Math.round(Number(row.serverErrorCount)),
+        throttledCount: Math.round(Number(row.throttledCount)),
+    };
+}
 
-    const result: AnalyticsEngineResponse = await response.json();
-    return result.data || [];
+/**
+ * Compare a row's current count and rank with the previous window
+ */
+function comparePeriods(requestCount: number, rank: number, previous: { requestCount: number; rank: number } | undefined): PeriodComparison {
+    const previousRequestCount = previous?.requestCount ?? 0;
+    return {
+        previousRequestCount: Math.round(previousRequestCount),
+        requestCountChange: Math.round(requestCount - previousRequestCount),
+        requestCountChangePercent: previousRequestCount > 0
+            ? Math.round(((requestCount - previousRequestCount) / previousRequestCount) * 10000) / 100
+            : null,
+        previousRank: previous?.rank ?? null,
+        rankChange: previous ? previous.rank - rank : null
+    };
 }
 
 /**
- * Get top authenticated API users
+ * Get top authenticated API users, ranked by sort (see getTopListRows)
  *
  * Uses _sample_interval to account for sampling:
  * - COUNT() becomes SUM(_sample_interval)
  * - AVG(field) becomes SUM(field * _sample_interval) / SUM(_sample_interval)
+ *
+ * Returns the page of limit users after page.offset; one row more is fetched
+ * to tell whether more pages follow.
  */
-export async function getTopUsers(env: Env, period: Period = 'hour', limit: number = 10): Promise<TopUser[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-    const periodDurationSeconds = period === 'hour' ? 3600 : 86400;
+export async function getTopUsers(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 10, page: TopListPage = {}, segment: Segment | null = null): Promise<TopList<TopUser>> {
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+    const maxRows = clampLimit(limit, MAX_TOP_LIMIT);
+    const { offset, ...ordering } = topListPosition(page);
 
-    // Query Analytics Engine for top users (authenticated only)
-    // blob1 contains the API key for authenticated users, empty for anonymous
-    // Use toUInt32 for type conversion and if() for conditional logic
-    const query = `
-        SELECT
-            blob1 as apiKey,
-            toUInt32(double2) as statusCode,
-            SUM(_sample_interval) as requestCount,
-            SUM(double1 * _sample_interval) / SUM(_sample_interval) as avgResponseTime,
-            SUM(if(toUInt32(double2) >= 200 AND toUInt32(double2) < 300, _sample_interval, 0)) as successCount
-        FROM ${env.ANALYTICS_DATASET}
+    try {
+        // The API key column is empty for anonymous requests
+        const scope = await segmentScope(env, `${schema.apiKey} != ''`, segment, range);
+        const results = await getTopListRows(env, schema.apiKey, scope, range, ordering, maxRows + 1, offset);
+        const truncated = results.length > maxRows;
+        const rows = results.slice(0, maxRows);
+        const nextCursor = truncated ? encodeTopListCursor(range, ordering, offset + maxRows) : null;
+
+        const apiKeys = rows.map(row => row.groupKey as string);
+        if (apiKeys.length === 0) {
+            const total = await topListTotal(env, schema.apiKey, scope, range, offset, 0, truncated);
+            return { data: [], ...ordering, offset, total, truncated, nextCursor };
+        }
+
+        // Get user information from D1 for all API keys in a single batch query,
+        // latency percentiles for the same keys, the previous window's ranking and the total
+        const placeholders = apiKeys.map(() => '?').join(',');
+        const keyList = apiKeys.map(apiKey => stringLiteral(apiKey)).join(', ');
+        // Resolved first: a failed segment lookup must not leave the queries below running unobserved
+        const previous = previousRange(range);
+        const previousScope = await segmentScope(env, `${schema.apiKey} != ''`, segment, previous);
+
+        const [userInfoResults, percentiles, rates, previousRanking, total] = await Promise.all([
+            env.DB
+                .prepare(`SELECT api_key, name, email, organization FROM api_keys_archive WHERE api_key IN (${placeholders})`)
+                .bind(...apiKeys)
+                .all<{ api_key: string; name: string; email: string; organization: string }>(),
+            getLatencyPercentilesByGroup(env, schema.apiKey, `${schema.apiKey} IN (${keyList})`, range),
+            getRequestRatesByGroup(env, schema.apiKey, `${schema.apiKey} IN (${keyList})`, range),
+            getRanking(env, schema.apiKey, previousScope, `${schema.apiKey} IN (${keyList})`, apiKeys.length, previous, ordering),
+            topListTotal(env, schema.apiKey, scope, range, offset, rows.length, truncated)
+        ]);
+
+        // Create a map for quick lookups
+        const userInfoMap = new Map(
+            userInfoResults.results?.map(user => [user.api_key, user]) || []
+        );
+
+        const data: TopUser[] = rows.map((row, index) => {
+            const apiKey = apiKeys[index];
+            const userInfo = userInfoMap.get(apiKey);
+            const totals = readTopListTotals(row, durationSeconds);
+            return {
+                apiKey,
+                name: userInfo?.name || null,
+                email: userInfo?.email || null,
+                organization: userInfo?.organization || null,
+                ...totals,
+                ...(rates.get(apiKey) ?? EMPTY_RATES),
+                ...(percentiles.get(apiKey) ?? EMPTY_PERCENTILES),
+                ...comparePeriods(Number(row.requestCount), offset + index + 1, previousRanking.get(apiKey))
+            };
+        });
+
+        return { data, ...ordering, offset, total, truncated, nextCursor };
+    } catch (error) {
+        console.error('Error querying top users:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get top anonymous users (by IP bucket), ranked by sort (see getTopListRows)
+ *
+ * Anonymous users are indexed as anon_${bucket}_${statusCode}; rows are
+ * grouped by the bucket part. Paged like getTopUsers.
+ */
+export async function getTopAnonymousUsers(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 10, page: TopListPage = {}, segment: Segment | null = null): Promise<TopList<TopAnonymousUser>> {
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+    const maxRows = clampLimit(limit, MAX_TOP_LIMIT);
+    const { offset, ...ordering } = topListPosition(page);
+
+    // The API key column is empty for anonymous users; ipSample is one of the
+    // addresses seen in the bucket (getTopIpInBucket finds the busiest).
+    // Only the anonymous segment (or all traffic) has buckets.
+    const scope = segment === null || segment === 'anonymous'
+        ? `${schema.apiKey} = '' AND startsWith(${schema.index}, 'anon_')`
+        : '1 = 0';
+
+    try {
+        const results = await getTopListRows(env, anonBucketExpr(schema), scope, range, ordering, maxRows + 1, offset, true);
+        const truncated = results.length > maxRows;
+        const nextCursor = truncated ? encodeTopListCursor(range, ordering, offset + maxRows) : null;
+        const topAnonymous = results.slice(0, maxRows).map(row => ({
+            bucket: row.groupKey as string,
+            ipSample: row.ipSample || null,
+            topIp: null,
+            ...readTopListTotals(row, durationSeconds)
+        }));
+
+        if (topAnonymous.length === 0) {
+            const total = await topListTotal(env, anonBucketExpr(schema), scope, range, offset, 0, truncated);
+            return { data: [], ...ordering, offset, total, truncated, nextCursor };
+        }
+
+        // Latency percentiles and request rates for the selected buckets, the previous window's ranking and the total
+        const bucketConditions = topAnonymous.map(item => `(${bucketIndexCondition(item.bucket, schema.index)})`).join(' OR ');
+        const [percentiles, rates, previousRanking, total] = await Promise.all([
+            getLatencyPercentilesByGroup(env, anonBucketExpr(schema), `${schema.apiKey} = '' AND (${bucketConditions})`, range),
+            getRequestRatesByGroup(env, anonBucketExpr(schema), `${schema.apiKey} = '' AND (${bucketConditions})`, range),
+            getRanking(env, anonBucketExpr(schema), scope, bucketConditions, topAnonymous.length, previousRange(range), ordering),
+            topListTotal(env, anonBucketExpr(schema), scope, range, offset, topAnonymous.length, truncated)
+        ]);
+
+        const data = topAnonymous.map((item, index) => ({
+            ...item,
+            ...(percentiles.get(item.bucket) ?? EMPTY_PERCENTILES),
+            ...(rates.get(item.bucket) ?? EMPTY_RATES),
+            ...comparePeriods(item.requestCount, offset + index + 1, previousRanking.get(item.bucket))
+        }));
+
+        return { data, ...ordering, offset, total, truncated, nextCursor };
+    } catch (error) {
+        console.error('Error querying top anonymous users:', error);
+        throw error;
+    }
+}
+
+// Active keys looked up when rolling traffic up to organizations, busiest first
+const ORGANIZATION_KEY_LIMIT = 10000;
+
+// Raw totals of getTopListRows rows, summed to roll keys up
+const TOP_LIST_TOTALS = ['requestCount', 'totalResponseTime', 'successCount', 'errorCount', 'serverErrorCount', 'throttledCount'];
+
+// Totals of a key or organization without traffic in the range
+const EMPTY_TOTALS: UsageTotals = {
+    requestCount: 0,
+    requestsPerSecond: 0,
+    avgResponseTime: 0,
+    successRate: 0,
+    errorCount: 0,
+    serverErrorCount: 0,
+    throttledCount: 0,
+};
+
+/**
+ * Sum the raw totals of getTopListRows rows
+ */
+function sumTopListRows(rows: any[]): Record<string, number> {
+    const sums: Record<string, number> = Object.fromEntries(TOP_LIST_TOTALS.map(name => [name, 0]));
+    for (const row of rows) {
+        for (const name of TOP_LIST_TOTALS) {
+            sums[name] += Number(row[name]);
+        }
+    }
+    return sums;
+}
+
+/**
+ * Keys registered to an organization
+ */
+async function getOrganizationKeys(env: Env, organization: string): Promise<Pick<ApiUser, 'api_key' | 'name' | 'email'>[]> {
+    const results = await env.DB
+        .prepare('SELECT api_key, name, email FROM api_keys_archive WHERE organization = ?')
+        .bind(organization)
+        .all<Pick<ApiUser, 'api_key' | 'name' | 'email'>>();
+    return results.results ?? [];
+}
+
+/**
+ * Get the organizations with the most traffic, summed across their keys
+ *
+ * Keys are ranked in Analytics Engine and matched to organizations in
+ * api_keys_archive; unregistered keys and keys without an organization
+ * are left out. Only the busiest ORGANIZATION_KEY_LIMIT keys are rolled up;
+ * keysTruncated says when there were more, so totals are understated.
+ */
+export async function getTopOrganizations(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 10, segment: Segment | null = null): Promise<{ data: TopOrganization[]; total: number; truncated: boolean; keysTruncated: boolean }> {
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+    const maxRows = clampLimit(limit, MAX_TOP_LIMIT);
+
+    try {
+        const scope = await segmentScope(env, `${schema.apiKey} != ''`, segment, range);
+        const rankedRows = await getTopListRows(env, schema.apiKey, scope, range, topListOrder(), ORGANIZATION_KEY_LIMIT + 1, 0);
+        const keysTruncated = rankedRows.length > ORGANIZATION_KEY_LIMIT;
+        const keyRows = rankedRows.slice(0, ORGANIZATION_KEY_LIMIT);
+        if (keyRows.length === 0) {
+            return { data: [], total: 0, truncated: false, keysTruncated };
+        }
+
+        // Organizations of the active keys, then how many keys each organization holds;
+        // json_each keeps both to one bound parameter
+        const memberResults = await env.DB
+            .prepare(`
+                SELECT api_key, organization
+                FROM api_keys_archive
+                WHERE api_key IN (SELECT value FROM json_each(?))
+                    AND organization IS NOT NULL AND organization != ''
+            `)
+            .bind(JSON.stringify(keyRows.map(row => row.groupKey)))
+            .all<Pick<ApiUser, 'api_key' | 'organization'>>();
+        const organizationOf = new Map((memberResults.results ?? []).map(row => [row.api_key, row.organization]));
+
+        const rowsByOrganization = new Map<string, any[]>();
+        for (const row of keyRows) {
+            const organization = organizationOf.get(row.groupKey);
+            if (organization) {
+                rowsByOrganization.set(organization, [...(rowsByOrganization.get(organization) ?? []), row]);
+            }
+        }
+
+        const keyCountResults = await env.DB
+            .prepare(`
+                SELECT organization, COUNT(*) as keyCount
+                FROM api_keys_archive
+                WHERE organization IN (SELECT value FROM json_each(?))
+                GROUP BY organization
+            `)
+            .bind(JSON.stringify([...rowsByOrganization.keys()]))
+            .all<{ organization: string; keyCount: number }>();
+        const keyCounts = new Map((keyCountResults.results ?? []).map(row => [row.organization, Number(row.keyCount)]));
+
+        const organizations: TopOrganization[] = [...rowsByOrganization].map(([organization, rows]) => ({
+            organization,
+            keyCount: keyCounts.get(organization) ?? rows.length,
+            activeKeyCount: rows.length,
+            ...readTopListTotals(sumTopListRows(rows), durationSeconds)
+        }));
+        organizations.sort((a, b) => b.requestCount - a.requestCount || a.organization.localeCompare(b.organization));
+
+        return {
+            data: organizations.slice(0, maxRows),
+            total: organizations.length,
+            truncated: organizations.length > maxRows,
+            keysTruncated
+        };
+    } catch (error) {
+        console.error('Error querying top organizations:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get the traffic of an organization, in total and per key
+ *
+ * Returns null when no key is registered to the organization.
+ */
+export async function getOrganizationUsage(env: Env, organization: string, range: TimeRange = resolvePreset('1h')): Promise<OrganizationUsage | null> {
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+
+    try {
+        const members = await getOrganizationKeys(env, organization);
+        if (members.length === 0) {
+            return null;
+        }
+
+        // Latency percentiles are taken over all of the organization's
+        // requests, as a single group
+        const scope = `${schema.apiKey} IN (${members.map(member => stringLiteral(member.api_key)).join(', ')})`;
+        const [keyRows, percentiles] = await Promise.all([
+            getTopListRows(env, schema.apiKey, scope, range, topListOrder(), members.length, 0),
+            getLatencyPercentilesByGroup(env, stringLiteral(organization), scope, range)
+        ]);
+
+        const totals = keyRows.length > 0 ? readTopListTotals(sumTopListRows(keyRows), durationSeconds) : EMPTY_TOTALS;
+        const rowsByKey = new Map(keyRows.map(row => [row.groupKey as string, row]));
+        const keys: OrganizationKeyUsage[] = members.map(member => {
+            const row = rowsByKey.get(member.api_key);
+            const keyTotals = row ? readTopListTotals(row, durationSeconds) : EMPTY_TOTALS;
+            return {
+                apiKey: member.api_key,
+                name: member.name || null,
+                email: member.email || null,
+                ...keyTotals,
+                share: totals.requestCount > 0 ? Math.round((keyTotals.requestCount / totals.requestCount) * 10000) / 100 : 0
+            };
+        });
+        keys.sort((a, b) => b.requestCount - a.requestCount || a.apiKey.localeCompare(b.apiKey));
+
+        return {
+            organization,
+            keyCount: members.length,
+            activeKeyCount: keyRows.length,
+            ...totals,
+            ...(percentiles.get(organization) ?? EMPTY_PERCENTILES),
+            keys
+        };
+    } catch (error) {
+        console.error('Error querying organization usage:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get timeline data across an organization's keys with status code breakdown
+ */
+export async function getOrganizationTimeline(env: Env, organization: string, range: TimeRange = resolvePreset('1h')): Promise<StatusTimelineDataPoint[]> {
+    const schema = datasetSchema(env);
+    const bucketInterval = timelineBucketInterval(range);
+
+    try {
+        const members = await getOrganizationKeys(env, organization);
+        if (members.length === 0) {
+            return [];
+        }
+
+        const query = `
+            SELECT
+                timeBucket,
+                statusCode,
+                SUM(sampleInterval) as requestCount,
+                SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime
+            FROM (
+                SELECT
+                    toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
+                    toUInt32(${schema.statusCode}) as statusCode,
+                    _sample_interval as sampleInterval,
+                    ${schema.responseTime} * _sample_interval as weightedResponseTime
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} IN (${members.map(member => stringLiteral(member.api_key)).join(', ')})
+            )
+            GROUP BY timeBucket, statusCode
+            ORDER BY timeBucket ASC, statusCode ASC
+        `;
+
+        const results = await executeQuery(env, query, 'timeline');
+
+        return results.map((result: any) => ({
+            timestamp: result.timeBucket,
+            statusCode: Number(result.statusCode),
+            requestCount: Math.round(Number(result.requestCount)),
+            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100
+        }));
+    } catch (error) {
+        console.error('Error querying organization timeline:', error);
+        throw error;
+    }
+}
+
+// Seconds per toStartOfInterval unit
+const INTERVAL_UNIT_SECONDS: Record<BucketInterval['unit'], number> = { MINUTE: 60, HOUR: 3600, DAY: 86400 };
+
+/**
+ * Host of the referrer URL ("https://www.example.com/page" gives "www.example.com"); empty without a scheme
+ */
+function referrerHostExpr(schema: DatasetSchema): string {
+    const rest = `substring(${schema.referrer}, position(${schema.referrer}, '://') + 3)`;
+    return `if(position(${schema.referrer}, '://') > 0, if(position(${rest}, '/') > 0, substring(${rest}, 1, position(${rest}, '/') - 1), ${rest}), '')`;
+}
+
+/**
+ * Get the traffic of every premium domain, attributed by key and by referrer
+ *
+ * A request belongs to a domain when its key carries the domain in
+ * api_keys_archive; requests without such a key belong to a domain when the
+ * referrer host is the domain or one of its subdomains. Both rules become one
+ * group expression.
+ */
+export async function getPremiumDomainUsage(env: Env, range: TimeRange = resolvePreset('1h')): Promise<PremiumDomainUsage[]> {
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+    const previous = previousRange(range);
+
+    try {
+        const keyResults = await env.DB
+            .prepare(`
+                SELECT api_key, premium_domain
+                FROM api_keys_archive
+                WHERE premium_domain IS NOT NULL AND premium_domain != ''
+            `)
+            .all<Pick<ApiUser, 'api_key' | 'premium_domain'>>();
+        const keysByDomain = new Map<string, string[]>();
+        for (const row of keyResults.results ?? []) {
+            const domain = row.premium_domain!.trim().toLowerCase();
+            keysByDomain.set(domain, [...(keysByDomain.get(domain) ?? []), row.api_key]);
+        }
+        if (keysByDomain.size === 0) {
+            return [];
+        }
+
+        // [condition, domain] rules, first match wins: keys take precedence over referrers
+        const list = (values: string[]) => values.map(value => stringLiteral(value)).join(', ');
+        const keyRules = [...keysByDomain].map(([domain, keys]) => [`${schema.apiKey} IN (${list(keys)})`, domain]);
+        const host = `lower(${referrerHostExpr(schema)})`;
+        const referrerRules = [...keysByDomain.keys()].map(domain => [`${host} = ${stringLiteral(domain)} OR endsWith(${host}, ${stringLiteral(`.${domain}`)})`, domain]);
+        const domainExpr = (rules: string[][]) => rules.reduceRight(
+            (otherwise, [condition, domain]) => `if(${condition}, ${stringLiteral(domain)}, ${otherwise})`,
+            "''"
+        );
+        const keyDomainExpr = domainExpr(keyRules);
+        const attributedExpr = domainExpr([...keyRules, ...referrerRules]);
+        const scope = `${attributedExpr} != ''`;
+
+        const [rows, keyRows, percentiles, previousRanking, trends] = await Promise.all([
+            getTopListRows(env, attributedExpr, scope, range, topListOrder(), keysByDomain.size, 0),
+            getTopListRows(env, keyDomainExpr, `${keyDomainExpr} != ''`, range, topListOrder(), keysByDomain.size, 0),
+            getLatencyPercentilesByGroup(env, attributedExpr, scope, range),
+            getRanking(env, attributedExpr, scope, null, keysByDomain.size, previous, topListOrder()),
+            getTrendsByGroup(env, attributedExpr, [...keysByDomain.keys()], range)
+        ]);
+        const rowsByDomain = new Map(rows.map(row => [row.groupKey as string, row]));
+        const keyRequests = new Map(keyRows.map(row => [row.groupKey as string, Number(row.requestCount)]));
+
+        const domains = [...keysByDomain].map(([domain, keys]) => {
+            const row = rowsByDomain.get(domain);
+            return { domain, keyCount: keys.length, totals: row ? readTopListTotals(row, durationSeconds) : EMPTY_TOTALS };
+        });
+        domains.sort((a, b) => b.totals.requestCount - a.totals.requestCount || a.domain.localeCompare(b.domain));
+
+        return domains.map(({ domain, keyCount, totals }, index) => {
+            const keyRequestCount = Math.round(keyRequests.get(domain) ?? 0);
+            return {
+                domain,
+                keyCount,
+                keyRequestCount,
+                referrerRequestCount: totals.requestCount - keyRequestCount,
+                ...totals,
+                errorRate: totals.requestCount > 0 ? Math.round((totals.errorCount / totals.requestCount) * 10000) / 100 : 0,
+                ...(percentiles.get(domain) ?? EMPTY_PERCENTILES),
+                ...comparePeriods(totals.requestCount, index + 1, previousRanking.get(domain)),
+                trend: trends.get(domain)!
+            };
+        });
+    } catch (error) {
+        console.error('Error querying premium domain usage:', error);
+        throw error;
+    }
+}
+
+/**
+ * Requests per timeline bucket for each of the groups groupExpr yields,
+ * with every bucket of the range filled in; scope narrows the rows read
+ */
+async function getTrendsByGroup(env: Env, groupExpr: string, groups: string[], range: TimeRange, scope: string | null = null): Promise<Map<string, number[]>> {
+    const interval = bucketIntervalFor(range);
+    const bucketMs = interval.value * INTERVAL_UNIT_SECONDS[interval.unit] * 1000;
+    const firstBucketMs = Math.floor(range.from.getTime() / bucketMs) * bucketMs;
+    const bucketCount = Math.max(1, Math.ceil((range.to.getTime() - firstBucketMs) / bucketMs));
+
+    const results = await executeQuery(env, `
+        SELECT
+            timeBucket,
+            groupKey,
+            SUM(sampleInterval) as requestCount
+        FROM (
+            SELECT
+                toStartOfInterval(timestamp, ${timelineBucketInterval(range)}) as timeBucket,
+                ${groupExpr} as groupKey,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${groupExpr} != ''
+                ${scope ? `AND ${scope}` : ''}
+        )
+        GROUP BY timeBucket, groupKey
+    `, 'timeline');
+
+    const trends = new Map(groups.map(group => [group, new Array<number>(bucketCount).fill(0)]));
+    for (const row of results) {
+        // Bucket timestamps come back as "YYYY-MM-DD HH:MM:SS" in UTC
+        const index = Math.floor((Date.parse(String(row.timeBucket).replace(' ', 'T') + 'Z') - firstBucketMs) / bucketMs);
+        const trend = trends.get(row.groupKey);
+        if (trend && index >= 0 && index < bucketCount) {
+            trend[index] += Math.round(Number(row.requestCount));
+        }
+    }
+    return trends;
+}
+
+/**
+ * Get usage timeline data
+ *
+ * Uses toStartOfInterval to bucket time series data
+ * Accounts for sampling with _sample_interval
+ */
+export async function getUsageTimeline(env: Env, range: TimeRange = resolvePreset('1h'), segment: Segment | null = null): Promise<TimelineDataPoint[]> {
+    const schema = datasetSchema(env);
+    const bucketInterval = timelineBucketInterval(range);
+    const scope = await segmentCondition(env, segment, range);
+
+    // Try using a subquery approach - compute the bucket in the inner query,
+    // then group by the column name in the outer query
+    const query = `
+        SELECT
+            timeBucket,
+            SUM(sampleInterval) as requestCount,
+            SUM(if(statusCode >= 400, sampleInterval, 0)) as errorCount,
+            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime,
+            ${percentileColumns('responseTime', 'sampleInterval')}
+        FROM (
+            SELECT
+                toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
+                toUInt32(${schema.statusCode}) as statusCode,
+                _sample_interval as sampleInterval,
+                ${schema.responseTime} as responseTime,
+                ${schema.responseTime} * _sample_interval as weightedResponseTime
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                ${scope ? `AND ${scope}` : ''}
+        )
+        GROUP BY timeBucket
+        ORDER BY timeBucket ASC
+    `;
+
+    try {
+        const results = await executeQuery(env, query, 'timeline');
+
+        return results.map((result: any) => ({
+            timestamp: result.timeBucket,
+            requestCount: Math.round(Number(result.requestCount)),
+            errorCount: Math.round(Number(result.errorCount)),
+            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100,
+            ...readPercentiles(result)
+        }));
+    } catch (error) {
+        console.error('Error querying usage timeline:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get status code breakdown for a specific API user
+ */
+export async function getUserStatusBreakdown(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h')): Promise<StatusCodeBreakdown[]> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT
+            toUInt32(${schema.statusCode}) as statusCode,
+            SUM(_sample_interval) as requestCount
+        FROM ${datasetTable(env)}
+        WHERE
+            ${timeRangeCondition(range)}
+            AND ${apiKeyCondition(schema, apiKey)}
+        GROUP BY ${schema.statusCode}
+        ORDER BY requestCount DESC
+    `;
+
+    try {
+        const results = await executeQuery(env, query);
+
+        // Calculate total for percentages
+        const total = results.reduce((sum, r) => sum + Number(r.requestCount), 0);
+
+        return results.map(result => ({
+            statusCode: Number(result.statusCode),
+            requestCount: Math.round(Number(result.requestCount)),
+            percentage: Math.round((Number(result.requestCount) / total) * 10000) / 100
+        }));
+    } catch (error) {
+        console.error('Error querying user status breakdown:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get timeline data for a specific user with status code breakdown
+ */
+export async function getUserTimeline(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h')): Promise<StatusTimelineDataPoint[]> {
+    const schema = datasetSchema(env);
+    const bucketInterval = timelineBucketInterval(range);
+
+    const query = `
+        SELECT
+            timeBucket,
+            statusCode,
+            SUM(sampleInterval) as requestCount,
+            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime
+        FROM (
+            SELECT
+                toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
+                toUInt32(${schema.statusCode}) as statusCode,
+                _sample_interval as sampleInterval,
+                ${schema.responseTime} * _sample_interval as weightedResponseTime
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${apiKeyCondition(schema, apiKey)}
+        )
+        GROUP BY timeBucket, statusCode
+        ORDER BY timeBucket ASC, statusCode ASC
+    `;
+
+    try {
+        const results = await executeQuery(env, query, 'timeline');
+
+        return results.map((result: any) => ({
+            timestamp: result.timeBucket,
+            statusCode: Number(result.statusCode),
+            requestCount: Math.round(Number(result.requestCount)),
+            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100
+        }));
+    } catch (error) {
+        console.error('Error querying user timeline:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get the top IP address in an anonymous bucket
+ */
+export async function getTopIpInBucket(env: Env, bucket: string, range: TimeRange = resolvePreset('1h')): Promise<string | null> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT
+            ${schema.ip} as ipAddress,
+            SUM(_sample_interval) as requestCount
+        FROM ${datasetTable(env)}
+        WHERE
+            ${timeRangeCondition(range)}
+            AND ${bucketCondition(schema, bucket)}
+            AND ${schema.ip} != ''
+        GROUP BY ${schema.ip}
+        ORDER BY requestCount DESC
+        LIMIT 1
+    `;
+
+    try {
+        const results = await executeQuery(env, query, 'lookup');
+        return results.length > 0 ? results[0].ipAddress : null;
+    } catch (error) {
+        console.error('Error querying top IP in bucket:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get timeline data for a specific anonymous bucket with status code breakdown
+ */
+export async function getAnonymousTimeline(env: Env, bucket: string, range: TimeRange = resolvePreset('1h')): Promise<StatusTimelineDataPoint[]> {
+    const schema = datasetSchema(env);
+    const bucketInterval = timelineBucketInterval(range);
+
+    const query = `
+        SELECT
+            timeBucket,
+            statusCode,
+            SUM(sampleInterval) as requestCount,
+            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime
+        FROM (
+            SELECT
+                toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
+                toUInt32(${schema.statusCode}) as statusCode,
+                _sample_interval as sampleInterval,
+                ${schema.responseTime} * _sample_interval as weightedResponseTime
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND ${bucketCondition(schema, bucket)}
+        )
+        GROUP BY timeBucket, statusCode
+        ORDER BY timeBucket ASC, statusCode ASC
+    `;
+
+    try {
+        const results = await executeQuery(env, query, 'timeline');
+
+        return results.map((result: any) => ({
+            timestamp: result.timeBucket,
+            statusCode: Number(result.statusCode),
+            requestCount: Math.round(Number(result.requestCount)),
+            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100
+        }));
+    } catch (error) {
+        console.error('Error querying anonymous timeline:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get sample URLs for a specific user
+ */
+export async function getSampleUrlsForUser(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<string[]> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT
+            ${schema.url} as url,
+            MAX(timestamp) as last_seen
+        FROM ${datasetTable(env)}
+        WHERE
+            ${timeRangeCondition(range)}
+            AND ${apiKeyCondition(schema, apiKey)}
+            AND ${schema.url} != ''
+        GROUP BY ${schema.url}
+        ORDER BY last_seen DESC
+        LIMIT ${clampLimit(limit)}
+    `;
+
+    try {
+        const results = await executeQuery(env, query, 'lookup');
+        return results.map(r => r.url);
+    } catch (error) {
+        console.error('Error querying sample URLs:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get sample URLs for an anonymous bucket
+ */
+export async function getSampleUrlsForBucket(env: Env, bucket: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<string[]> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT
+            ${schema.url} as url,
+            MAX(timestamp) as last_seen
+        FROM ${datasetTable(env)}
+        WHERE
+            ${timeRangeCondition(range)}
+            AND ${bucketCondition(schema, bucket)}
+            AND ${schema.url} != ''
+        GROUP BY ${schema.url}
+        ORDER BY last_seen DESC
+        LIMIT ${clampLimit(limit)}
+    `;
+
+    try {
+        const results = await executeQuery(env, query, 'lookup');
+        return results.map(r => r.url);
+    } catch (error) {
+        console.error('Error querying sample URLs:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get status code breakdown for a specific anonymous bucket
+ */
+export async function getAnonymousStatusBreakdown(env: Env, bucket: string, range: TimeRange = resolvePreset('1h')): Promise<StatusCodeBreakdown[]> {
+    const schema = datasetSchema(env);
+    const query = `
+        SELECT
+            toUInt32(${schema.statusCode}) as statusCode,
+            SUM(_sample_interval) as requestCount
+        FROM ${datasetTable(env)}
         WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 != ''
-        GROUP BY blob1, double2
+            ${timeRangeCondition(range)}
+            AND ${bucketCondition(schema, bucket)}
+        GROUP BY ${schema.statusCode}
         ORDER BY requestCount DESC
-        LIMIT 10000
     `;
 
     try {
         const results = await executeQuery(env, query);
 
-        // Aggregate by user
-        const userMap = new Map<string, {
-            totalRequests: number;
-            successfulRequests: number;
-            totalResponseTime: number;
-        }>();
-
-        for (const result of results) {
-            const existing = userMap.get(result.apiKey);
+        // Calculate total for percentages
+        const total = results.reduce((sum, r) => sum + Number(r.requestCount), 0);
 
-            // Convert strings to numbers (Analytics Engine returns numbers as strings)
-            const requestCount = Number(result.requestCount);
-            const successCount = Number(result.successCount);
-            const avgResponseTime = Number(result.avgResponseTime);
+        return results.map(result => ({
+            statusCode: Number(result.statusCode),
+            requestCount: Math.round(Number(result.requestCount)),
+            percentage: Math.round((Number(result.requestCount) / total) * 10000) / 100
+        }));
+    } catch (error) {
+        console.error('Error querying anonymous status breakdown:', error);
+        throw error;
+    }
+}
 
-            if (existing) {
-                existing.totalRequests += requestCount;
-                existing.successfulRequests += successCount;
-                existing.totalResponseTime += avgResponseTime * requestCount;
-            } else {
-                userMap.set(result.apiKey, {
-                    totalRequests: requestCount,
-                    successfulRequests: successCount,
-                    totalResponseTime: avgResponseTime * requestCount
-                });
-            }
-        }
+/**
+ * Get status code breakdown across all requests, or one segment
+ */
+export async function getStatusBreakdownAggregate(env: Env, range: TimeRange = resolvePreset('1h'), segment: Segment | null = null): Promise<StatusCodeBreakdown[]> {
+    const schema = datasetSchema(env);
 
-        // Sort by total requests and take top N
-        const sortedUsers = Array.from(userMap.entries())
-            .sort((a, b) => b[1].totalRequests - a[1].totalRequests)
-            .slice(0, limit);
+    try {
+        const scope = await segmentCondition(env, segment, range);
+        const query = `
+            SELECT
+                toUInt32(${schema.statusCode}) as statusCode,
+                SUM(_sample_interval) as requestCount
+            FROM ${datasetTable(env)}
+            WHERE
+                ${timeRangeCondition(range)}
+                ${scope ? `AND ${scope}` : ''}
+            GROUP BY ${schema.statusCode}
+            ORDER BY requestCount DESC
+        `;
+        const results = await executeQuery(env, query);
 
-        // Get user information from D1 for all API keys in a single batch query
-        const apiKeys = sortedUsers.map(([apiKey]) => apiKey);
-        const placeholders = apiKeys.map(() => '?').join(',');
+        // Calculate total for percentages
+        const total = results.reduce((sum, r) => sum + Number(r.requestCount), 0);
 
-        const userInfoResults = await env.DB
-            .prepare(`SELECT api_key, name, email, organization FROM api_keys_archive WHERE api_key IN (${placeholders})`)
-            .bind(...apiKeys)
-            .all<{ api_key: string; name: string; email: string; organization: string }>();
+        return results.map(result => ({
+            statusCode: Number(result.statusCode),
+            requestCount: Math.round(Number(result.requestCount)),
+            percentage: Math.round((Number(result.requestCount) / total) * 10000) / 100
+        }));
+    } catch (error) {
+        console.error('Error querying status breakdown:', error);
+        throw error;
+    }
+}
 
-        // Create a map for quick lookups
-        const userInfoMap = new Map(
-            userInfoResults.results?.map(user => [user.api_key, user]) || []
-        );
+/**
+ * Get the usage timeline split into academic, non-academic and anonymous traffic
+ *
+ * Each time bucket has one point per segment with traffic in it.
+ */
+export async function getSegmentTimeline(env: Env, range: TimeRange = resolvePreset('1h')): Promise<SegmentTimelineDataPoint[]> {
+    const schema = datasetSchema(env);
+    const bucketInterval = timelineBucketInterval(range);
 
-        // Build the final result array
-        const topUsers: TopUser[] = sortedUsers.map(([apiKey, stats]) => {
-            const userInfo = userInfoMap.get(apiKey);
-            return {
-                apiKey,
-                name: userInfo?.name || null,
-                email: userInfo?.email || null,
-                organization: userInfo?.organization || null,
-                requestCount: Math.round(stats.totalRequests),
-                requestsPerSecond: Math.round((stats.totalRequests / periodDurationSeconds) * 100) / 100,
-                avgResponseTime: Math.round((stats.totalResponseTime / stats.totalRequests) * 100) / 100,
-                successRate: Math.round((stats.successfulRequests / stats.totalRequests) * 10000) / 100
-            };
-        });
+    try {
+        const academic = await academicKeyCondition(env, range);
+        const segmentExpr = `if(${schema.apiKey} = '', 'anonymous', if(${academic ?? '1 = 0'}, 'academic', 'non_academic'))`;
+        const query = `
+            SELECT
+                timeBucket,
+                segment,
+                SUM(sampleInterval) as requestCount,
+                SUM(if(statusCode >= 400, sampleInterval, 0)) as errorCount
+            FROM (
+                SELECT
+                    toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
+                    ${segmentExpr} as segment,
+                    toUInt32(${schema.statusCode}) as statusCode,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+            )
+            GROUP BY timeBucket, segment
+            ORDER BY timeBucket ASC, segment ASC
+        `;
+        const results = await executeQuery(env, query, 'timeline');
 
-        return topUsers;
+        return results.map((result: any) => ({
+            timestamp: result.timeBucket,
+            segment: result.segment as Segment,
+            requestCount: Math.round(Number(result.requestCount)),
+            errorCount: Math.round(Number(result.errorCount))
+        }));
     } catch (error) {
-        console.error('Error querying top users:', error);
+        console.error('Error querying segment timeline:', error);
         throw error;
     }
 }
 
 /**
- * Get top anonymous users (by IP bucket)
- *
- * Anonymous users are indexed as anon_${bucket}_${statusCode}
- * We extract the bucket number and use _sample_interval for accurate counts
+ * Get the most frequent non-empty values of a column, optionally scoped
+ * by an extra WHERE condition (a single key or bucket)
  */
-export async function getTopAnonymousUsers(env: Env, period: Period = 'hour', limit: number = 10): Promise<TopAnonymousUser[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-    const periodDurationSeconds = period === 'hour' ? 3600 : 86400;
+async function getTopValues(env: Env, valueColumn: ColumnName, scope: string | null, range: TimeRange, limit: number): Promise<{ value: string; requestCount: number }[]> {
+    const col = column(valueColumn);
 
-    // Query Analytics Engine for anonymous users
-    // blob1 is empty for anonymous users, so filter on that
-    // Use toUInt32 for type conversion and if() for conditional logic
     const query = `
         SELECT
-            index1 as indexKey,
-            blob2 as ipSample,
-            toUInt32(double2) as statusCode,
-            SUM(_sample_interval) as requestCount,
-            SUM(double1 * _sample_interval) / SUM(_sample_interval) as avgResponseTime,
-            SUM(if(toUInt32(double2) >= 200 AND toUInt32(double2) < 300, _sample_interval, 0)) as successCount
-        FROM ${env.ANALYTICS_DATASET}
+            ${col} as value,
+            SUM(_sample_interval) as requestCount
+        FROM ${datasetTable(env)}
         WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = ''
-        GROUP BY index1, blob2, double2
+            ${timeRangeCondition(range)}
+            ${scope ? `AND ${scope}` : ''}
+            AND ${col} != ''
+        GROUP BY ${col}
         ORDER BY requestCount DESC
-        LIMIT 10000
+        LIMIT ${clampLimit(limit)}
     `;
 
-    try {
-        const results = await executeQuery(env, query);
+    const results = await executeQuery(env, query);
+    return results.map(r => ({
+        value: r.value,
+        requestCount: Math.round(Number(r.requestCount))
+    }));
+}
 
-        // Aggregate by bucket (multiple status codes per bucket)
-        const bucketMap = new Map<string, {
-            bucket: string;
-            ipSample: string | null;
-            requestCount: number;
-            totalResponseTime: number;
-            successfulRequests: number;
-        }>();
+/**
+ * Get top user agents for a specific user
+ */
+export async function getTopUserAgentsForUser(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<{ userAgent: string; requestCount: number }[]> {
+    const schema = datasetSchema(env);
+    try {
+        const results = await getTopValues(env, schema.userAgent, apiKeyCondition(schema, apiKey), range, limit);
+        return results.map(r => ({ userAgent: r.value, requestCount: r.requestCount }));
+    } catch (error) {
+        console.error('Error querying top user agents:', error);
+        throw error;
+    }
+}
 
-        for (const result of results) {
-            // Extract bucket from index (format: anon_123_200)
-            const match = result.indexKey.match(/^anon_(\d+)_/);
-            if (!match) continue;
+/**
+ * Get top referrers for a specific user
+ */
+export async function getTopReferrersForUser(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<{ referrer: string; requestCount: number }[]> {
+    const schema = datasetSchema(env);
+    try {
+        const results = await getTopValues(env, schema.referrer, apiKeyCondition(schema, apiKey), range, limit);
+        return results.map(r => ({ referrer: r.value, requestCount: r.requestCount }));
+    } catch (error) {
+        console.error('Error querying top referrers:', error);
+        throw error;
+    }
+}
 
-            const bucket = `anon_${match[1]}`;
-            const existing = bucketMap.get(bucket);
+/**
+ * Get top user agents for an anonymous bucket
+ */
+export async function getTopUserAgentsForBucket(env: Env, bucket: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<{ userAgent: string; requestCount: number }[]> {
+    const schema = datasetSchema(env);
+    try {
+        const results = await getTopValues(env, schema.userAgent, bucketCondition(schema, bucket), range, limit);
+        return results.map(r => ({ userAgent: r.value, requestCount: r.requestCount }));
+    } catch (error) {
+        console.error('Error querying top user agents for bucket:', error);
+        throw error;
+    }
+}
 
-            // Convert strings to numbers (Analytics Engine returns numbers as strings)
-            const requestCount = Number(result.requestCount);
-            const successCount = Number(result.successCount);
-            const avgResponseTime = Number(result.avgResponseTime);
+/**
+ * Get top referrers for an anonymous bucket
+ */
+export async function getTopReferrersForBucket(env: Env, bucket: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<{ referrer: string; requestCount: number }[]> {
+    const schema = datasetSchema(env);
+    try {
+        const results = await getTopValues(env, schema.referrer, bucketCondition(schema, bucket), range, limit);
+        return results.map(r => ({ referrer: r.value, requestCount: r.requestCount }));
+    } catch (error) {
+        console.error('Error querying top referrers for bucket:', error);
+        throw error;
+    }
+}
 
-            if (existing) {
-                existing.requestCount += requestCount;
-                existing.totalResponseTime += avgResponseTime * requestCount;
-                existing.successfulRequests += successCount;
-            } else {
-                bucketMap.set(bucket, {
-                    bucket,
-                    ipSample: result.ipSample || null,
-                    requestCount: requestCount,
-                    totalResponseTime: avgResponseTime * requestCount,
-                    successfulRequests: successCount
-                });
-            }
-        }
+/**
+ * Get top user agents across all requests (aggregate)
+ */
+export async function getTopUserAgentsAggregate(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 10, segment: Segment | null = null): Promise<{ userAgent: string; requestCount: number }[]> {
+    const schema = datasetSchema(env);
+    try {
+        const results = await getTopValues(env, schema.userAgent, await segmentCondition(env, segment, range), range, limit);
+        return results.map(r => ({ userAgent: r.value, requestCount: r.requestCount }));
+    } catch (error) {
+        console.error('Error querying top user agents aggregate:', error);
+        throw error;
+    }
+}
 
-        // Convert to array and calculate final metrics
-        const topAnonymous = Array.from(bucketMap.values())
-            .map(item => ({
-                bucket: item.bucket,
-                ipSample: item.ipSample,
-                requestCount: Math.round(item.requestCount),
-                requestsPerSecond: Math.round((item.requestCount / periodDurationSeconds) * 100) / 100,
-                avgResponseTime: Math.round((item.totalResponseTime / item.requestCount) * 100) / 100,
-                successRate: Math.round((item.successfulRequests / item.requestCount) * 10000) / 100
-            }))
-            .sort((a, b) => b.requestCount - a.requestCount)
-            .slice(0, limit);
-
-        return topAnonymous;
+/**
+ * Get top referrers across all requests (aggregate)
+ */
+export async function getTopReferrersAggregate(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 10, segment: Segment | null = null): Promise<{ referrer: string; requestCount: number }[]> {
+    const schema = datasetSchema(env);
+    try {
+        const results = await getTopValues(env, schema.referrer, await segmentCondition(env, segment, range), range, limit);
+        return results.map(r => ({ referrer: r.value, requestCount: r.requestCount }));
     } catch (error) {
-        console.error('Error querying top anonymous users:', error);
+        console.error('Error querying top referrers aggregate:', error);
         throw error;
     }
 }
 
 /**
- * Get usage timeline data
+ * Get a response time histogram, optionally for a single API key or anonymous bucket
  *
- * Uses toStartOfInterval to bucket time series data
- * Accounts for sampling with _sample_interval
+ * Bins are bounded by HISTOGRAM_EDGES_MS; counts are sample-weighted.
  */
-export async function getUsageTimeline(env: Env, period: Period = 'hour'): Promise<TimelineDataPoint[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-    const bucketInterval = period === 'hour' ? "INTERVAL '5' MINUTE" : "INTERVAL '1' HOUR";
+export async function getLatencyHistogram(env: Env, range: TimeRange = resolvePreset('1h'), apiKey: string | null = null, bucket: string | null = null, segment: Segment | null = null): Promise<{ bins: LatencyHistogramBin[]; percentiles: LatencyPercentiles }> {
+    const schema = datasetSchema(env);
+    let scope: string | null = null;
+    if (apiKey) {
+        scope = apiKeyCondition(schema, apiKey);
+    } else if (bucket) {
+        scope = bucketCondition(schema, bucket);
+    } else {
+        scope = await segmentCondition(env, segment, range);
+    }
 
-    // Try using a subquery approach - compute the bucket in the inner query,
-    // then group by the column name in the outer query
-    const query = `
+    // Nested if() mapping a response time to its bin index
+    const binExpr = HISTOGRAM_EDGES_MS.reduceRight(
+        (elseExpr, edge, index) => `if(${schema.responseTime} < ${edge}, ${index}, ${elseExpr})`,
+        String(HISTOGRAM_EDGES_MS.length)
+    );
+
+    const histogramQuery = `
         SELECT
-            timeBucket,
-            SUM(sampleInterval) as requestCount,
-            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime
+            bin,
+            SUM(sampleInterval) as requestCount
         FROM (
             SELECT
-                toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
-                _sample_interval as sampleInterval,
-                double1 * _sample_interval as weightedResponseTime
-            FROM ${env.ANALYTICS_DATASET}
-            WHERE timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
+                ${binExpr} as bin,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                ${scope ? `AND ${scope}` : ''}
         )
-        GROUP BY timeBucket
-        ORDER BY timeBucket ASC
+        GROUP BY bin
+        ORDER BY bin ASC
+    `;
+
+    const percentilesQuery = `
+        SELECT
+            ${percentileColumns(schema.responseTime, '_sample_interval')}
+        FROM ${datasetTable(env)}
+        WHERE
+            ${timeRangeCondition(range)}
+            ${scope ? `AND ${scope}` : ''}
     `;
 
     try {
-        const results = await executeQuery(env, query);
+        const [histogramResults, percentileResults] = await Promise.all([
+            executeQuery(env, histogramQuery),
+            executeQuery(env, percentilesQuery)
+        ]);
 
-        return results.map((result: any) => ({
-            timestamp: result.timeBucket,
-            requestCount: Math.round(Number(result.requestCount)),
-            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100
-        }));
+        const counts = new Map<number, number>(
+            histogramResults.map(r => [Number(r.bin), Number(r.requestCount)])
+        );
+        const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+
+        // Emit every bin, including empty ones, so charts get a stable x-axis
+        const bins: LatencyHistogramBin[] = [0, ...HISTOGRAM_EDGES_MS].map((minMs, index) => {
+            const requestCount = counts.get(index) ?? 0;
+            return {
+                minMs,
+                maxMs: HISTOGRAM_EDGES_MS[index] ?? null,
+                requestCount: Math.round(requestCount),
+                percentage: total > 0 ? Math.round((requestCount / total) * 10000) / 100 : 0
+            };
+        });
+
+        const percentiles = total > 0 && percentileResults.length > 0
+            ? readPercentiles(percentileResults[0])
+            : { ...EMPTY_PERCENTILES };
+
+        return { bins, percentiles };
     } catch (error) {
-        console.error('Error querying usage timeline:', error);
+        console.error('Error querying latency histogram:', error);
         throw error;
     }
 }
 
 /**
- * Get status code breakdown for a specific API user
+ * Get average, p99 and peak request rates overall, or for one API key or anonymous bucket
  */
-export async function getUserStatusBreakdown(env: Env, apiKey: string, period: Period = 'hour'): Promise<StatusCodeBreakdown[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+export async function getRequestRates(env: Env, range: TimeRange = resolvePreset('1h'), apiKey: string | null = null, bucket: string | null = null, segment: Segment | null = null): Promise<RequestRates & { requestsPerSecond: number }> {
+    const schema = datasetSchema(env);
+    let scope = '1 = 1';
+    if (apiKey) {
+        scope = apiKeyCondition(schema, apiKey);
+    } else if (bucket) {
+        scope = bucketCondition(schema, bucket);
+    } else {
+        scope = await segmentCondition(env, segment, range) ?? scope;
+    }
 
-    const query = `
+    const totalQuery = `
         SELECT
-            toUInt32(double2) as statusCode,
             SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
+        FROM ${datasetTable(env)}
         WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = '${apiKey}'
-        GROUP BY double2
-        ORDER BY requestCount DESC
+            ${timeRangeCondition(range)}
+            AND ${scope}
     `;
 
     try {
-        const results = await executeQuery(env, query);
-
-        // Calculate total for percentages
-        const total = results.reduce((sum, r) => sum + Number(r.requestCount), 0);
-
-        return results.map(result => ({
-            statusCode: Number(result.statusCode),
-            requestCount: Math.round(Number(result.requestCount)),
-            percentage: Math.round((Number(result.requestCount) / total) * 10000) / 100
-        }));
+        const [totalResults, rates] = await Promise.all([
+            executeQuery(env, totalQuery, 'ranking'),
+            getRequestRatesByGroup(env, "''", scope, range)
+        ]);
+
+        const requestCount = Number(totalResults[0]?.requestCount ?? 0);
+        return {
+            requestsPerSecond: Math.round((requestCount / rangeDurationSeconds(range)) * 100) / 100,
+            ...(rates.get('') ?? EMPTY_RATES)
+        };
     } catch (error) {
-        console.error('Error querying user status breakdown:', error);
+        console.error('Error querying request rates:', error);
         throw error;
     }
 }
 
 /**
- * Get timeline data for a specific user with status code breakdown
+ * Get traffic per OpenAlex entity type, parsed from request URLs
+ *
+ * The route path is computed once in the innermost query so the entity
+ * classification only has to reference it by name.
  */
-export async function getUserTimeline(env: Env, apiKey: string, period: Period = 'hour'): Promise<any[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-    const bucketInterval = period === 'hour' ? "INTERVAL '5' MINUTE" : "INTERVAL '1' HOUR";
-
+async function getEntityBreakdown(env: Env, scope: string | null, range: TimeRange): Promise<EntityBreakdown[]> {
+    const schema = datasetSchema(env);
     const query = `
         SELECT
-            timeBucket,
-            statusCode,
+            entity,
             SUM(sampleInterval) as requestCount,
-            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime
+            SUM(isSingle * sampleInterval) as singleCount,
+            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime,
+            SUM(if(statusCode >= 400, sampleInterval, 0)) as errorCount
         FROM (
             SELECT
-                toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
-                toUInt32(double2) as statusCode,
-                _sample_interval as sampleInterval,
-                double1 * _sample_interval as weightedResponseTime
-            FROM ${env.ANALYTICS_DATASET}
-            WHERE timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-                AND blob1 = '${apiKey}'
+                ${entityExpr('routePath')} as entity,
+                ${isSingleEntityExpr('routePath')} as isSingle,
+                sampleInterval,
+                weightedResponseTime,
+                statusCode
+            FROM (
+                SELECT
+                    ${routePathExpr(schema.url)} as routePath,
+                    _sample_interval as sampleInterval,
+                    ${schema.responseTime} * _sample_interval as weightedResponseTime,
+                    toUInt32(${schema.statusCode}) as statusCode
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    ${scope ? `AND ${scope}` : ''}
+                    AND ${schema.url} != ''
+            )
         )
-        GROUP BY timeBucket, statusCode
-        ORDER BY timeBucket ASC, statusCode ASC
+        GROUP BY entity
+        ORDER BY requestCount DESC
     `;
 
-    try {
-        const results = await executeQuery(env, query);
+    const results = await executeQuery(env, query);
+    const total = results.reduce((sum, r) => sum + Number(r.requestCount), 0);
+
+    return results.map(r => {
+        const requestCount = Number(r.requestCount);
+        const singleCount = Number(r.singleCount);
+        const errorCount = Number(r.errorCount);
+        return {
+            entity: r.entity,
+            requestCount: Math.round(requestCount),
+            singleCount: Math.round(singleCount),
+            listCount: Math.round(requestCount - singleCount),
+            percentage: Math.round((requestCount / total) * 10000) / 100,
+            avgResponseTime: Math.round(Number(r.avgResponseTime) * 100) / 100,
+            errorCount: Math.round(errorCount),
+            errorRate: Math.round((errorCount / requestCount) * 10000) / 100
+        };
+    });
+}
 
-        return results.map((result: any) => ({
-            timestamp: result.timeBucket,
-            statusCode: Number(result.statusCode),
-            requestCount: Math.round(Number(result.requestCount)),
-            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100
-        }));
+/**
+ * Get entity breakdown across all requests (aggregate)
+ */
+export async function getEntityBreakdownAggregate(env: Env, range: TimeRange = resolvePreset('1h'), segment: Segment | null = null): Promise<EntityBreakdown[]> {
+    try {
+        return await getEntityBreakdown(env, await segmentCondition(env, segment, range), range);
     } catch (error) {
-        console.error('Error querying user timeline:', error);
+        console.error('Error querying entity breakdown aggregate:', error);
         throw error;
     }
 }
 
 /**
- * Get the top IP address in an anonymous bucket
+ * Get entity breakdown for a specific user
  */
-export async function getTopIpInBucket(env: Env, bucket: string, period: Period = 'hour'): Promise<string | null> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+export async function getEntityBreakdownForUser(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h')): Promise<EntityBreakdown[]> {
+    const schema = datasetSchema(env);
+    try {
+        return await getEntityBreakdown(env, apiKeyCondition(schema, apiKey), range);
+    } catch (error) {
+        console.error('Error querying entity breakdown:', error);
+        throw error;
+    }
+}
 
-    // Extract bucket number from format "anon_123"
-    const bucketMatch = bucket.match(/^anon_(\d+)$/);
-    if (!bucketMatch) {
-        throw new Error('Invalid bucket format');
+/**
+ * Get entity breakdown for an anonymous bucket
+ */
+export async function getEntityBreakdownForBucket(env: Env, bucket: string, range: TimeRange = resolvePreset('1h')): Promise<EntityBreakdown[]> {
+    const schema = datasetSchema(env);
+    try {
+        return await getEntityBreakdown(env, bucketCondition(schema, bucket), range);
+    } catch (error) {
+        console.error('Error querying entity breakdown for bucket:', error);
+        throw error;
     }
+}
+
+/**
+ * Get usage of OpenAlex query features, parsed from request URLs
+ *
+ * Runs three queries: per-feature counts and latency, the most common
+ * filter fields, and the per_page value distribution.
+ */
+async function getQueryParamUsage(env: Env, scope: string | null, range: TimeRange, limit: number): Promise<QueryParamUsage> {
+    const schema = datasetSchema(env);
+    const { url } = schema;
+    const scopeCondition = scope ? `AND ${scope}` : '';
 
-    // Use prefix matching with string comparison
-    const bucketNum = parseInt(bucketMatch[1]);
-    const nextBucketNum = bucketNum + 1;
-    const prefix = `anon_${bucketNum}_`;
-    const prefixEnd = `anon_${nextBucketNum}_`;
+    const featureColumns = QUERY_FEATURES.map((feature, index) => {
+        const condition = hasQueryParamExpr(url, feature.params);
+        return `SUM(if(${condition}, _sample_interval, 0)) as feature${index}Count,
+            SUM(if(${condition}, ${schema.responseTime} * _sample_interval, 0)) as feature${index}Time`;
+    }).join(',\n            ');
 
-    const query = `
+    // cursor=* starts a cursor walk; any other cursor value is a later page
+    const deepPagingCondition = `${hasQueryParamExpr(url, ['cursor'])} AND position(${url}, 'cursor=*') = 0 AND position(${url}, 'cursor=%2A') = 0`;
+
+    const featuresQuery = `
         SELECT
-            blob2 as ipAddress,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
+            SUM(_sample_interval) as totalRequests,
+            SUM(if(${deepPagingCondition}, _sample_interval, 0)) as deepPagingCount,
+            ${featureColumns}
+        FROM ${datasetTable(env)}
         WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = ''
-            AND index1 >= '${prefix}'
-            AND index1 < '${prefixEnd}'
-            AND blob2 != ''
-        GROUP BY blob2
+            ${timeRangeCondition(range)}
+            ${scopeCondition}
+            AND ${url} != ''
+    `;
+
+    const fieldExprs = filterFieldExprs('filterValue');
+    const fieldColumns = fieldExprs.map((expr, index) => `${expr} as field${index}`).join(',\n                ');
+    const fieldNames = fieldExprs.map((_, index) => `field${index}`).join(', ');
+
+    // Group by the combination of field names (not values) to keep cardinality low,
+    // then split the combinations into individual fields below
+    const filterFieldsQuery = `
+        SELECT
+            ${fieldNames},
+            SUM(sampleInterval) as requestCount,
+            SUM(weightedResponseTime) as totalResponseTime
+        FROM (
+            SELECT
+                ${fieldColumns},
+                sampleInterval,
+                weightedResponseTime
+            FROM (
+                SELECT
+                    ${queryParamValueExpr(url, ['filter'])} as filterValue,
+                    _sample_interval as sampleInterval,
+                    ${schema.responseTime} * _sample_interval as weightedResponseTime
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    ${scopeCondition}
+                    AND ${hasQueryParamExpr(url, ['filter'])}
+            )
+        )
+        GROUP BY ${fieldNames}
         ORDER BY requestCount DESC
-        LIMIT 1
+        LIMIT 10000
+    `;
+
+    const perPageQuery = `
+        SELECT
+            perPage,
+            SUM(sampleInterval) as requestCount
+        FROM (
+            SELECT
+                ${queryParamValueExpr(url, ['per_page', 'per-page'])} as perPage,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                ${scopeCondition}
+                AND ${hasQueryParamExpr(url, ['per_page', 'per-page'])}
+        )
+        GROUP BY perPage
+        ORDER BY requestCount DESC
+        LIMIT ${clampLimit(limit)}
     `;
 
+    const [featureResults, filterFieldResults, perPageResults] = await Promise.all([
+        executeQuery(env, featuresQuery),
+        executeQuery(env, filterFieldsQuery),
+        executeQuery(env, perPageQuery)
+    ]);
+
+    const totals = featureResults[0] ?? {};
+    const totalRequests = Number(totals.totalRequests ?? 0);
+
+    const features: QueryFeatureUsage[] = QUERY_FEATURES.map((feature, index) => {
+        const requestCount = Number(totals[`feature${index}Count`] ?? 0);
+        const totalResponseTime = Number(totals[`feature${index}Time`] ?? 0);
+        return {
+            feature: feature.name,
+            requestCount: Math.round(requestCount),
+            percentage: totalRequests > 0 ? Math.round((requestCount / totalRequests) * 10000) / 100 : 0,
+            avgResponseTime: requestCount > 0 ? Math.round((totalResponseTime / requestCount) * 100) / 100 : 0
+        };
+    }).sort((a, b) => b.requestCount - a.requestCount);
+
+    // Aggregate by field (each field appears in many combinations)
+    const fieldMap = new Map<string, { requestCount: number; totalResponseTime: number }>();
+    for (const result of filterFieldResults) {
+        const requestCount = Number(result.requestCount);
+        const totalResponseTime = Number(result.totalResponseTime);
+        const fields = new Set(fieldExprs.map((_, index) => String(result[`field${index}`] ?? '')).filter(field => field !== ''));
+
+        for (const field of fields) {
+            const existing = fieldMap.get(field);
+            if (existing) {
+                existing.requestCount += requestCount;
+                existing.totalResponseTime += totalResponseTime;
+            } else {
+                fieldMap.set(field, { requestCount, totalResponseTime });
+            }
+        }
+    }
+
+    const filterFields: FilterFieldUsage[] = Array.from(fieldMap.entries())
+        .map(([field, stats]) => ({
+            field,
+            requestCount: Math.round(stats.requestCount),
+            avgResponseTime: Math.round((stats.totalResponseTime / stats.requestCount) * 100) / 100
+        }))
+        .sort((a, b) => b.requestCount - a.requestCount)
+        .slice(0, clampLimit(limit));
+
+    return {
+        totalRequests: Math.round(totalRequests),
+        deepPagingCount: Math.round(Number(totals.deepPagingCount ?? 0)),
+        features,
+        filterFields,
+        perPage: perPageResults.map(r => ({
+            perPage: r.perPage,
+            requestCount: Math.round(Number(r.requestCount))
+        }))
+    };
+}
+
+/**
+ * Get query parameter usage across all requests (aggregate)
+ */
+export async function getQueryParamUsageAggregate(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 10, segment: Segment | null = null): Promise<QueryParamUsage> {
+    try {
+        return await getQueryParamUsage(env, await segmentCondition(env, segment, range), range, limit);
+    } catch (error) {
+        console.error('Error querying query parameter usage aggregate:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get query parameter usage for a specific user
+ */
+export async function getQueryParamUsageForUser(env: Env, apiKey: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<QueryParamUsage> {
+    const schema = datasetSchema(env);
+    try {
+        return await getQueryParamUsage(env, apiKeyCondition(schema, apiKey), range, limit);
+    } catch (error) {
+        console.error('Error querying query parameter usage:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get query parameter usage for an anonymous bucket
+ */
+export async function getQueryParamUsageForBucket(env: Env, bucket: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<QueryParamUsage> {
+    const schema = datasetSchema(env);
     try {
-        const results = await executeQuery(env, query);
-        return results.length > 0 ? results[0].ipAddress : null;
+        return await getQueryParamUsage(env, bucketCondition(schema, bucket), range, limit);
     } catch (error) {
-        console.error('Error querying top IP in bucket:', error);
+        console.error('Error querying query parameter usage for bucket:', error);
         throw error;
     }
 }
 
+// Keys with traffic compared with their limits, busiest first
+const RATE_LIMIT_KEY_LIMIT = 10000;
+
+// A key is consistently throttled when at least this share of its active buckets had 429s
+const THROTTLED_BUCKET_SHARE = 0.5;
+
+// Quota use (% of max_per_second or max_per_day) at which a key counts as near its limit
+const NEAR_LIMIT_PERCENT = 80;
+
+// Quota use below which a key counts as far under its allocation
+const UNDERUSED_PERCENT = 10;
+
 /**
- * Get timeline data for a specific anonymous bucket with status code breakdown
+ * Get observed traffic for every active API key against its D1 rate limits
+ *
+ * Peak rates come from per-second sums of _sample_interval, so heavily sampled
+ * keys can show bursty peaks. Keys are consistently throttled when most of the
+ * timeline buckets they were active in contain 429 responses.
+ *
+ * Only the RATE_LIMIT_KEY_LIMIT busiest keys are compared; all three queries
+ * rank keys the same way so they read the same keys, and keysTruncated says
+ * when quieter keys were left out.
  */
-export async function getAnonymousTimeline(env: Env, bucket: string, period: Period = 'hour'): Promise<any[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-    const bucketInterval = period === 'hour' ? "INTERVAL '5' MINUTE" : "INTERVAL '1' HOUR";
+export async function getRateLimitCompliance(env: Env, range: TimeRange = resolvePreset('1h'), limit: number = 100): Promise<RateLimitReport> {
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+    const projectDaily = durationSeconds < 86400;
 
-    // Extract bucket number from format "anon_123"
-    const bucketMatch = bucket.match(/^anon_(\d+)$/);
-    if (!bucketMatch) {
-        throw new Error('Invalid bucket format');
-    }
+    // Totals, 429s and the busiest second per key
+    const perSecondQuery = `
+        SELECT
+            apiKey,
+            SUM(requestCount) as requestCount,
+            SUM(throttledCount) as throttledCount,
+            MAX(requestCount) as peakPerSecond
+        FROM (
+            SELECT
+                apiKey,
+                second,
+                SUM(sampleInterval) as requestCount,
+                SUM(if(statusCode = 429, sampleInterval, 0)) as throttledCount
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    toUnixTimestamp(timestamp) as second,
+                    toUInt32(${schema.statusCode}) as statusCode,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} != ''
+            )
+            GROUP BY apiKey, second
+        )
+        GROUP BY apiKey
+        ORDER BY requestCount DESC, apiKey
+        LIMIT ${RATE_LIMIT_KEY_LIMIT + 1}
+    `;
 
-    // Use prefix matching with string comparison
-    // Match all entries from anon_N_ up to (but not including) anon_(N+1)_
-    const bucketNum = parseInt(bucketMatch[1]);
-    const nextBucketNum = bucketNum + 1;
-    const prefix = `anon_${bucketNum}_`;
-    const prefixEnd = `anon_${nextBucketNum}_`;
+    // Active and throttled timeline buckets per key
+    const bucketQuery = `
+        SELECT
+            apiKey,
+            SUM(requestCount) as requestCount,
+            count() as activeBuckets,
+            SUM(if(throttledCount > 0, 1, 0)) as throttledBuckets
+        FROM (
+            SELECT
+                apiKey,
+                timeBucket,
+                SUM(sampleInterval) as requestCount,
+                SUM(if(statusCode = 429, sampleInterval, 0)) as throttledCount
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    toStartOfInterval(timestamp, ${timelineBucketInterval(range)}) as timeBucket,
+                    toUInt32(${schema.statusCode}) as statusCode,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} != ''
+            )
+            GROUP BY apiKey, timeBucket
+        )
+        GROUP BY apiKey
+        ORDER BY requestCount DESC, apiKey
+        LIMIT ${RATE_LIMIT_KEY_LIMIT}
+    `;
 
-    const query = `
+    // Busiest UTC day per key (ranges under a day are projected from the total instead)
+    const dailyQuery = `
         SELECT
-            timeBucket,
-            statusCode,
-            SUM(sampleInterval) as requestCount,
-            SUM(weightedResponseTime) / SUM(sampleInterval) as avgResponseTime
+            apiKey,
+            SUM(requestCount) as totalCount,
+            MAX(requestCount) as peakDaily
         FROM (
             SELECT
-                toStartOfInterval(timestamp, ${bucketInterval}) as timeBucket,
-                toUInt32(double2) as statusCode,
-                _sample_interval as sampleInterval,
-                double1 * _sample_interval as weightedResponseTime
-            FROM ${env.ANALYTICS_DATASET}
-            WHERE timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-                AND blob1 = ''
-                AND index1 >= '${prefix}'
-                AND index1 < '${prefixEnd}'
+                apiKey,
+                day,
+                SUM(sampleInterval) as requestCount
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    toStartOfInterval(timestamp, INTERVAL '1' DAY) as day,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} != ''
+            )
+            GROUP BY apiKey, day
         )
-        GROUP BY timeBucket, statusCode
-        ORDER BY timeBucket ASC, statusCode ASC
+        GROUP BY apiKey
+        ORDER BY totalCount DESC, apiKey
+        LIMIT ${RATE_LIMIT_KEY_LIMIT}
     `;
 
     try {
-        const results = await executeQuery(env, query);
+        const [rankedKeys, bucketResults, dailyResults] = await Promise.all([
+            executeQuery(env, perSecondQuery, 'ranking'),
+            executeQuery(env, bucketQuery, 'ranking'),
+            projectDaily ? Promise.resolve([]) : executeQuery(env, dailyQuery, 'ranking')
+        ]);
+
+        const keysTruncated = rankedKeys.length > RATE_LIMIT_KEY_LIMIT;
+        const perSecondResults = rankedKeys.slice(0, RATE_LIMIT_KEY_LIMIT);
+        if (perSecondResults.length === 0) {
+            return { keyCount: 0, keysTruncated, keys: [], throttled: [], underused: [] };
+        }
 
-        return results.map((result: any) => ({
-            timestamp: result.timeBucket,
-            statusCode: Number(result.statusCode),
-            requestCount: Math.round(Number(result.requestCount)),
-            avgResponseTime: Math.round(Number(result.avgResponseTime) * 100) / 100
-        }));
-    } catch (error) {
-        console.error('Error querying anonymous timeline:', error);
-        throw error;
-    }
-}
+        // Look up limits for every active key at once; json_each keeps this to
+        // one bound parameter, well under D1's 100 parameter limit
+        const apiKeys = perSecondResults.map(result => result.apiKey as string);
+        const userInfoResults = await env.DB
+            .prepare(`
+                SELECT api_key, name, email, organization, max_per_second, max_per_day
+                FROM api_keys_archive
+                WHERE api_key IN (SELECT value FROM json_each(?))
+            `)
+            .bind(JSON.stringify(apiKeys))
+            .all<Pick<ApiUser, 'api_key' | 'name' | 'email' | 'organization' | 'max_per_second' | 'max_per_day'>>();
 
-/**
- * Get sample URLs for a specific user
- */
-export async function getSampleUrlsForUser(env: Env, apiKey: string, period: Period = 'hour', limit: number = 10): Promise<string[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+        const userInfoMap = new Map(
+            userInfoResults.results?.map(user => [user.api_key, user]) || []
+        );
+        const bucketMap = new Map(bucketResults.map(result => [result.apiKey as string, result]));
+        const dailyMap = new Map(dailyResults.map(result => [result.apiKey as string, Number(result.peakDaily)]));
 
-    const query = `
-        SELECT
-            blob3 as url,
-            MAX(timestamp) as last_seen
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = '${apiKey}'
-            AND blob3 != ''
-        GROUP BY blob3
-        ORDER BY last_seen DESC
-        LIMIT ${limit}
-    `;
+        const usage: RateLimitUsage[] = perSecondResults.map(result => {
+            const apiKey = result.apiKey as string;
+            const userInfo = userInfoMap.get(apiKey);
+            const buckets = bucketMap.get(apiKey);
 
-    try {
-        const results = await executeQuery(env, query);
-        return results.map(r => r.url);
+            const requestCount = Number(result.requestCount);
+            const throttledCount = Number(result.throttledCount);
+            const peakPerSecond = Number(result.peakPerSecond);
+            const dailyRequests = projectDaily
+                ? requestCount * 86400 / durationSeconds
+                : dailyMap.get(apiKey) ?? requestCount;
+            const activeBuckets = buckets ? Number(buckets.activeBuckets) : 0;
+            const throttledBuckets = buckets ? Number(buckets.throttledBuckets) : 0;
+
+            const maxPerSecond = userInfo?.max_per_second || null;
+            const maxPerDay = userInfo?.max_per_day || null;
+            const perSecondQuotaPercent = maxPerSecond ? Math.round((peakPerSecond / maxPerSecond) * 10000) / 100 : null;
+            const dailyQuotaPercent = maxPerDay ? Math.round((dailyRequests / maxPerDay) * 10000) / 100 : null;
+            const throttledBucketShare = activeBuckets > 0 ? throttledBuckets / activeBuckets : 0;
+
+            return {
+                apiKey,
+                name: userInfo?.name || null,
+                email: userInfo?.email || null,
+                organization: userInfo?.organization || null,
+                maxPerSecond,
+                maxPerDay,
+                requestCount: Math.round(requestCount),
+                throttledCount: Math.round(throttledCount),
+                throttledRate: Math.round((throttledCount / requestCount) * 10000) / 100,
+                throttledBucketShare: Math.round(throttledBucketShare * 10000) / 100,
+                peakRequestsPerSecond: Math.round(peakPerSecond),
+                perSecondQuotaPercent,
+                dailyRequests: Math.round(dailyRequests),
+                dailyRequestsProjected: projectDaily,
+                dailyQuotaPercent,
+                status: rateLimitStatus(throttledCount, throttledBucketShare, perSecondQuotaPercent, dailyQuotaPercent)
+            };
+        });
+
+        const quotaUsed = (row: RateLimitUsage) => Math.max(row.perSecondQuotaPercent ?? -1, row.dailyQuotaPercent ?? -1);
+        const maxRows = clampLimit(limit, 1000, 100);
+
+        return {
+            keyCount: usage.length,
+            keysTruncated,
+            keys: [...usage]
+                .sort((a, b) => quotaUsed(b) - quotaUsed(a) || b.requestCount - a.requestCount)
+                .slice(0, maxRows),
+            throttled: usage
+                .filter(row => row.status === 'throttled')
+                .sort((a, b) => b.throttledCount - a.throttledCount)
+                .slice(0, maxRows),
+            underused: usage
+                .filter(row => row.status === 'underused')
+                .sort((a, b) => b.requestCount - a.requestCount)
+                .slice(0, maxRows)
+        };
     } catch (error) {
-        console.error('Error querying sample URLs:', error);
+        console.error('Error querying rate limit compliance:', error);
         throw error;
     }
 }
 
 /**
- * Get sample URLs for an anonymous bucket
+ * Classify a key's traffic against its limits
  */
-export async function getSampleUrlsForBucket(env: Env, bucket: string, period: Period = 'hour', limit: number = 10): Promise<string[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+function rateLimitStatus(throttledCount: number, throttledBucketShare: number, perSecondQuotaPercent: number | null, dailyQuotaPercent: number | null): RateLimitStatus {
+    if (throttledCount > 0 && throttledBucketShare >= THROTTLED_BUCKET_SHARE) {
+        return 'throttled';
+    }
+    if (perSecondQuotaPercent === null && dailyQuotaPercent === null) {
+        return 'no_limit';
+    }
 
-    // Extract bucket number from format "anon_123"
-    const bucketMatch = bucket.match(/^anon_(\d+)$/);
-    if (!bucketMatch) {
-        throw new Error('Invalid bucket format');
+    const quotaPercents = [perSecondQuotaPercent, dailyQuotaPercent].filter((p): p is number => p !== null);
+    if (quotaPercents.some(p => p >= NEAR_LIMIT_PERCENT)) {
+        return 'near_limit';
     }
+    if (throttledCount === 0 && quotaPercents.every(p => p < UNDERUSED_PERCENT)) {
+        return 'underused';
+    }
+    return 'ok';
+}
 
-    const bucketNum = parseInt(bucketMatch[1]);
-    const nextBucketNum = bucketNum + 1;
-    const prefix = `anon_${bucketNum}_`;
-    const prefixEnd = `anon_${nextBucketNum}_`;
+// Keys with traffic that are checked against expires_at, busiest first
+const EXPIRY_KEY_LIMIT = 10000;
 
-    const query = `
-        SELECT
-            blob3 as url,
-            MAX(timestamp) as last_seen
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = ''
-            AND index1 >= '${prefix}'
-            AND index1 < '${prefixEnd}'
-            AND blob3 != ''
-        GROUP BY blob3
-        ORDER BY last_seen DESC
-        LIMIT ${limit}
-    `;
+// Furthest ahead (days) the expiring list looks
+const MAX_EXPIRY_DAYS = 365;
 
-    try {
-        const results = await executeQuery(env, query);
-        return results.map(r => r.url);
-    } catch (error) {
-        console.error('Error querying sample URLs:', error);
-        throw error;
-    }
+/**
+ * Parse a stored time: "YYYY-MM-DD HH:MM:SS" in UTC, as SQLite and Analytics Engine write it, or ISO 8601
+ */
+function parseUtcTime(value: string): Date {
+    return new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? value.replace(' ', 'T') + 'Z' : value);
 }
 
 /**
- * Get status code breakdown for a specific anonymous bucket
+ * Get keys still used after their expires_at, and keys that expire within
+ * withinDays while carrying at least minRequests requests in the range
+ *
+ * Keys with traffic are looked up in api_keys_archive first; their traffic is
+ * then split at each key's own expiry in a single query.
  */
-export async function getAnonymousStatusBreakdown(env: Env, bucket: string, period: Period = 'hour'): Promise<StatusCodeBreakdown[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-
-    // Extract bucket number from format "anon_123"
-    const bucketMatch = bucket.match(/^anon_(\d+)$/);
-    if (!bucketMatch) {
-        throw new Error('Invalid bucket format');
-    }
+export async function getKeyExpiryReport(env: Env, range: TimeRange = resolvePreset('24h'), withinDays: number = 30, minRequests: number = 100, limit: number = 100): Promise<KeyExpiryReport> {
+    const schema = datasetSchema(env);
+    const days = clampLimit(withinDays, MAX_EXPIRY_DAYS, 30);
+    const threshold = Number.isFinite(minRequests) ? Math.max(0, Math.floor(minRequests)) : 100;
+    const maxRows = clampLimit(limit, MAX_TOP_LIMIT, 100);
+    const rangeDays = rangeDurationSeconds(range) / 86400;
+    const now = Date.now();
 
-    // Use prefix matching with string comparison
-    // Match all entries from anon_N_ up to (but not including) anon_(N+1)_
-    const bucketNum = parseInt(bucketMatch[1]);
-    const nextBucketNum = bucketNum + 1;
-    const prefix = `anon_${bucketNum}_`;
-    const prefixEnd = `anon_${nextBucketNum}_`;
+    try {
+        const rankedKeys = await executeQuery(env, `
+            SELECT apiKey, SUM(sampleInterval) as requestCount
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} != ''
+            )
+            GROUP BY apiKey
+            ORDER BY requestCount DESC, apiKey
+            LIMIT ${EXPIRY_KEY_LIMIT + 1}
+        `, 'ranking');
+        // Quieter keys past the limit are not checked, so the report may miss some of them
+        const keysTruncated = rankedKeys.length > EXPIRY_KEY_LIMIT;
+        const activeKeys = rankedKeys.slice(0, EXPIRY_KEY_LIMIT);
+        const empty: KeyExpiryReport = { withinDays: days, minRequests: threshold, keysTruncated, expired: [], expiring: [] };
+        if (activeKeys.length === 0) {
+            return empty;
+        }
 
-    const query = `
-        SELECT
-            toUInt32(double2) as statusCode,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = ''
-            AND index1 >= '${prefix}'
-            AND index1 < '${prefixEnd}'
-        GROUP BY double2
-        ORDER BY requestCount DESC
-    `;
+        const keyResults = await env.DB
+            .prepare(`
+                SELECT api_key, name, email, organization, expires_at
+                FROM api_keys_archive
+                WHERE api_key IN (SELECT value FROM json_each(?))
+                    AND expires_at IS NOT NULL AND expires_at != ''
+            `)
+            .bind(JSON.stringify(activeKeys.map(row => row.apiKey)))
+            .all<Pick<ApiUser, 'api_key' | 'name' | 'email' | 'organization' | 'expires_at'>>();
+        const keys = (keyResults.results ?? [])
+            .map(row => ({ ...row, expiry: parseUtcTime(row.expires_at!) }))
+            .filter(key => key.expiry.getTime() <= now + days * 86400000);
+        if (keys.length === 0) {
+            return empty;
+        }
 
-    try {
-        const results = await executeQuery(env, query);
+        // Rows sent after their key's expiry; only keys that expired before the end of the range can have any
+        const expiredInRange = keys.filter(key => key.expiry < range.to);
+        const afterExpiry = expiredInRange.length > 0
+            ? expiredInRange.map(key => `(${schema.apiKey} = ${stringLiteral(key.api_key)} AND timestamp > ${dateTimeLiteral(key.expiry)})`).join(' OR ')
+            : '1 = 0';
+        const results = await executeQuery(env, `
+            SELECT
+                apiKey,
+                statusCode,
+                SUM(sampleInterval) as requestCount,
+                SUM(if(afterExpiry = 1, sampleInterval, 0)) as afterExpiryCount,
+                MAX(requestTime) as lastSeen
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    toUInt32(${schema.statusCode}) as statusCode,
+                    _sample_interval as sampleInterval,
+                    timestamp as requestTime,
+                    if(${afterExpiry}, 1, 0) as afterExpiry
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} IN (${keys.map(key => stringLiteral(key.api_key)).join(', ')})
+            )
+            GROUP BY apiKey, statusCode
+        `);
+
+        const rowsByKey = new Map<string, any[]>();
+        for (const row of results) {
+            rowsByKey.set(row.apiKey, [...(rowsByKey.get(row.apiKey) ?? []), row]);
+        }
 
-        // Calculate total for percentages
-        const total = results.reduce((sum, r) => sum + Number(r.requestCount), 0);
+        const usage: KeyExpiryUsage[] = keys.map(key => {
+            const rows = rowsByKey.get(key.api_key) ?? [];
+            const requestCount = rows.reduce((sum, row) => sum + Number(row.requestCount), 0);
+            const requestsAfterExpiry = rows.reduce((sum, row) => sum + Number(row.afterExpiryCount), 0);
+            const lastSeen = rows.reduce<string | null>((latest, row) => latest === null || String(row.lastSeen) > latest ? String(row.lastSeen) : latest, null);
+            return {
+                apiKey: key.api_key,
+                name: key.name || null,
+                email: key.email || null,
+                organization: key.organization || null,
+                expiresAt: key.expiry.toISOString(),
+                daysUntilExpiry: Math.round(((key.expiry.getTime() - now) / 86400000) * 10) / 10,
+                requestCount: Math.round(requestCount),
+                requestsPerDay: Math.round(requestCount / rangeDays),
+                lastSeen,
+                requestsAfterExpiry: Math.round(requestsAfterExpiry),
+                statusCodesAfterExpiry: rows
+                    .filter(row => Number(row.afterExpiryCount) > 0)
+                    .sort((a, b) => Number(b.afterExpiryCount) - Number(a.afterExpiryCount))
+                    .map(row => ({
+                        statusCode: Number(row.statusCode),
+                        requestCount: Math.round(Number(row.afterExpiryCount)),
+                        percentage: Math.round((Number(row.afterExpiryCount) / requestsAfterExpiry) * 10000) / 100
+                    }))
+            };
+        });
 
-        return results.map(result => ({
-            statusCode: Number(result.statusCode),
-            requestCount: Math.round(Number(result.requestCount)),
-            percentage: Math.round((Number(result.requestCount) / total) * 10000) / 100
-        }));
+        return {
+            withinDays: days,
+            minRequests: threshold,
+            keysTruncated,
+            expired: usage
+                .filter(key => Date.parse(key.expiresAt) <= now && key.requestsAfterExpiry > 0)
+                .sort((a, b) => b.requestsAfterExpiry - a.requestsAfterExpiry)
+                .slice(0, maxRows),
+            expiring: usage
+                .filter(key => Date.parse(key.expiresAt) > now && key.requestCount >= threshold)
+                .sort((a, b) => Date.parse(a.expiresAt) - Date.parse(b.expiresAt))
+                .slice(0, maxRows)
+        };
     } catch (error) {
-        console.error('Error querying anonymous status breakdown:', error);
+        console.error('Error querying key expiry:', error);
         throw error;
     }
 }
 
+// Days without traffic that make a key dormant
+export const DORMANT_WINDOWS = [7, 30, 90];
+
+// Traffic the dormant report looks at (Analytics Engine keeps about three months); a
+// preset, so the report's queries end on a rounded time and share cached results
+export const DORMANT_LOOKBACK_PRESET: RangePreset = '90d';
+const DORMANT_LOOKBACK_DAYS = 90;
+
+// Keys with traffic in the lookback that the dormant report reads, busiest first
+const DORMANT_KEY_LIMIT = 10000;
+
+// Recent days compared against the rest of the lookback when looking for drops
+const DECLINE_RECENT_DAYS = 7;
+
+// Drop (percent of the baseline daily average) that counts as sharp
+const DECLINE_PERCENT = 75;
+
+// Baseline daily average a key needs before its drops are reported
+const DECLINE_MIN_BASELINE_PER_DAY = 10;
+
+const DAY_MS = 86400000;
+
 /**
- * Get top user agents for a specific user
+ * Get registered keys without traffic in the last windowDays, keys that never
+ * sent a request, and keys whose last week fell sharply below their baseline
+ *
+ * The report ends now (rounded as the 90d preset is) and looks back
+ * DORMANT_LOOKBACK_DAYS, so a key created before that and not seen since is
+ * dormant rather than never used. Past DORMANT_KEY_LIMIT active keys, the
+ * quietest are not read and may be reported as idle; keysTruncated says so.
  */
-export async function getTopUserAgentsForUser(env: Env, apiKey: string, period: Period = 'hour', limit: number = 10): Promise<{ userAgent: string; requestCount: number }[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+export async function getDormantKeyReport(env: Env, windowDays: number = 30, limit: number = 100): Promise<DormantKeyReport> {
+    const schema = datasetSchema(env);
+    if (!DORMANT_WINDOWS.includes(windowDays)) {
+        throw new QueryValidationError(`Unknown dormancy window: ${windowDays} (expected one of ${DORMANT_WINDOWS.join(', ')})`);
+    }
+    const maxRows = clampLimit(limit, MAX_TOP_LIMIT, 100);
+    const lookback = resolvePreset(DORMANT_LOOKBACK_PRESET);
+    const now = lookback.to;
+    const windowStart = new Date(now.getTime() - windowDays * DAY_MS);
+    const recentStart = new Date(now.getTime() - DECLINE_RECENT_DAYS * DAY_MS);
 
     const query = `
         SELECT
-            blob6 as userAgent,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = '${apiKey}'
-            AND blob6 != ''
-        GROUP BY blob6
-        ORDER BY requestCount DESC
-        LIMIT ${limit}
+            apiKey,
+            MAX(requestTime) as lastSeen,
+            SUM(if(requestTime >= ${dateTimeLiteral(windowStart)}, sampleInterval, 0)) as windowCount,
+            SUM(if(requestTime >= ${dateTimeLiteral(recentStart)}, sampleInterval, 0)) as recentCount,
+            SUM(if(requestTime < ${dateTimeLiteral(recentStart)}, sampleInterval, 0)) as baselineCount,
+            SUM(sampleInterval) as requestCount
+        FROM (
+            SELECT
+                ${schema.apiKey} as apiKey,
+                timestamp as requestTime,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(lookback)}
+                AND ${schema.apiKey} != ''
+        )
+        GROUP BY apiKey
+        ORDER BY requestCount DESC, apiKey
+        LIMIT ${DORMANT_KEY_LIMIT + 1}
     `;
 
     try {
-        const results = await executeQuery(env, query);
-        return results.map(r => ({
-            userAgent: r.userAgent,
-            requestCount: Math.round(Number(r.requestCount))
-        }));
+        const [rankedKeys, keyResults] = await Promise.all([
+            executeQuery(env, query, 'ranking'),
+            env.DB
+                .prepare('SELECT api_key, name, email, organization, created_at FROM api_keys_archive')
+                .all<Pick<ApiUser, 'api_key' | 'name' | 'email' | 'organization' | 'created_at'>>()
+        ]);
+        const keysTruncated = rankedKeys.length > DORMANT_KEY_LIMIT;
+        const trafficByKey = new Map(rankedKeys.slice(0, DORMANT_KEY_LIMIT).map(row => [row.apiKey as string, row]));
+        const keys = keyResults.results ?? [];
+        const keyInfo = new Map(keys.map(key => [key.api_key, key]));
+        const daysSince = (time: number) => Math.round(((now.getTime() - time) / DAY_MS) * 10) / 10;
+
+        const dormant: DormantKey[] = [];
+        const neverUsed: DormantKey[] = [];
+        for (const key of keys) {
+            const created = parseUtcTime(key.created_at);
+            const traffic = trafficByKey.get(key.api_key);
+            if (traffic && Number(traffic.windowCount) > 0) {
+                continue;
+            }
+            const entry: DormantKey = {
+                apiKey: key.api_key,
+                name: key.name || null,
+                email: key.email || null,
+                organization: key.organization || null,
+                createdAt: created.toISOString(),
+                lastSeen: traffic ? String(traffic.lastSeen) : null,
+                idleDays: traffic
+                    ? daysSince(parseUtcTime(String(traffic.lastSeen)).getTime())
+                    : daysSince(Math.max(created.getTime(), lookback.from.getTime()))
+            };
+            if (!traffic && created >= lookback.from) {
+                neverUsed.push(entry);
+            } else if (created < windowStart) {
+                dormant.push(entry);
+            }
+        }
+        dormant.sort((a, b) => a.idleDays - b.idleDays || a.apiKey.localeCompare(b.apiKey));
+        neverUsed.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        const declining: DecliningKey[] = [];
+        for (const [apiKey, traffic] of trafficByKey) {
+            const info = keyInfo.get(apiKey);
+            // The baseline starts when the key was created, if that is within the lookback
+            const baselineStart = Math.max(lookback.from.getTime(), info ? parseUtcTime(info.created_at).getTime() : 0);
+            const baselineDays = (recentStart.getTime() - baselineStart) / DAY_MS;
+            if (baselineDays < 1) {
+                continue;
+            }
+            const baselineRequestsPerDay = Number(traffic.baselineCount) / baselineDays;
+            const recentRequestsPerDay = Number(traffic.recentCount) / DECLINE_RECENT_DAYS;
+            const dropPercent = (1 - recentRequestsPerDay / baselineRequestsPerDay) * 100;
+            if (baselineRequestsPerDay >= DECLINE_MIN_BASELINE_PER_DAY && dropPercent >= DECLINE_PERCENT) {
+                declining.push({
+                    apiKey,
+                    name: info?.name || null,
+                    email: info?.email || null,
+                    organization: info?.organization || null,
+                    recentRequestsPerDay: Math.round(recentRequestsPerDay * 10) / 10,
+                    baselineRequestsPerDay: Math.round(baselineRequestsPerDay * 10) / 10,
+                    dropPercent: Math.round(dropPercent * 10) / 10,
+                    lastSeen: String(traffic.lastSeen)
+                });
+            }
+        }
+        declining.sort((a, b) => (b.baselineRequestsPerDay - b.recentRequestsPerDay) - (a.baselineRequestsPerDay - a.recentRequestsPerDay));
+
+        return {
+            windowDays,
+            lookbackDays: DORMANT_LOOKBACK_DAYS,
+            keysTruncated,
+            dormant: dormant.slice(0, maxRows),
+            neverUsed: neverUsed.slice(0, maxRows),
+            declining: declining.slice(0, maxRows)
+        };
     } catch (error) {
-        console.error('Error querying top user agents:', error);
+        console.error('Error querying dormant keys:', error);
         throw error;
     }
 }
 
+// Keys with traffic in the lookback that the API keys page reads, busiest in the last 7 days first
+const API_KEY_USAGE_LIMIT = 10000;
+
 /**
- * Get top referrers for a specific user
+ * Get recent traffic for each of apiKeys, for the API keys page: last seen
+ * (within DORMANT_LOOKBACK_DAYS), 24h and 7d request counts, the 24h success
+ * rate and a 7d trend
+ *
+ * Keys without traffic get zero counts, a null last seen and success rate,
+ * and a flat trend. When more than API_KEY_USAGE_LIMIT keys had traffic, keys
+ * outside the busiest are marked trafficUnknown instead of looking idle.
  */
-export async function getTopReferrersForUser(env: Env, apiKey: string, period: Period = 'hour', limit: number = 10): Promise<{ referrer: string; requestCount: number }[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+export async function getApiKeyUsage(env: Env, apiKeys: string[]): Promise<Map<string, ApiKeyUsage>> {
+    const schema = datasetSchema(env);
+    // Preset ranges end on a rounded time, so repeated page loads hit the query cache
+    const week = resolvePreset('7d');
+    const day = resolvePreset('24h');
+    const lookback: TimeRange = { from: new Date(week.to.getTime() - DORMANT_LOOKBACK_DAYS * DAY_MS), to: week.to, preset: null };
 
     const query = `
         SELECT
-            blob7 as referrer,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = '${apiKey}'
-            AND blob7 != ''
-        GROUP BY blob7
-        ORDER BY requestCount DESC
-        LIMIT ${limit}
+            apiKey,
+            MAX(requestTime) as lastSeen,
+            SUM(if(requestTime >= ${dateTimeLiteral(day.from)}, sampleInterval, 0)) as requests24h,
+            SUM(if(requestTime >= ${dateTimeLiteral(week.from)}, sampleInterval, 0)) as requests7d,
+            SUM(if(requestTime >= ${dateTimeLiteral(day.from)} AND statusCode >= 200 AND statusCode < 300, sampleInterval, 0)) as successCount24h
+        FROM (
+            SELECT
+                ${schema.apiKey} as apiKey,
+                timestamp as requestTime,
+                toUInt32(${schema.statusCode}) as statusCode,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(lookback)}
+                AND ${schema.apiKey} != ''
+        )
+        GROUP BY apiKey
+        ORDER BY requests7d DESC, lastSeen DESC, apiKey
+        LIMIT ${API_KEY_USAGE_LIMIT + 1}
     `;
 
     try {
-        const results = await executeQuery(env, query);
-        return results.map(r => ({
-            referrer: r.referrer,
-            requestCount: Math.round(Number(r.requestCount))
+        const rankedKeys = await executeQuery(env, query, 'ranking');
+        const truncated = rankedKeys.length > API_KEY_USAGE_LIMIT;
+        const trafficByKey = new Map(rankedKeys.slice(0, API_KEY_USAGE_LIMIT).map(row => [row.apiKey as string, row]));
+
+        // Trends are read only for the listed keys with traffic in the week
+        const activeKeys = apiKeys.filter(apiKey => Number(trafficByKey.get(apiKey)?.requests7d ?? 0) > 0);
+        const trendScope = activeKeys.length > 0
+            ? `${schema.apiKey} IN (${activeKeys.map(apiKey => stringLiteral(apiKey)).join(', ')})`
+            : '1 = 0';
+        const trends = await getTrendsByGroup(env, schema.apiKey, apiKeys, week, trendScope);
+
+        return new Map(apiKeys.map(apiKey => {
+            const traffic = trafficByKey.get(apiKey);
+            const requests24h = Number(traffic?.requests24h ?? 0);
+            const usage: ApiKeyUsage = {
+                lastSeen: traffic ? String(traffic.lastSeen) : null,
+                trafficUnknown: truncated && !traffic,
+                requests24h: Math.round(requests24h),
+                requests7d: Math.round(Number(traffic?.requests7d ?? 0)),
+                successRate: traffic && requests24h > 0
+                    ? Math.round((Number(traffic.successCount24h) / requests24h) * 10000) / 100
+                    : null,
+                trend: trends.get(apiKey)!
+            };
+            return [apiKey, usage];
         }));
     } catch (error) {
-        console.error('Error querying top referrers:', error);
+        console.error('Error querying API key usage:', error);
         throw error;
     }
 }
 
-/**
- * Get top user agents for an anonymous bucket
- */
-export async function getTopUserAgentsForBucket(env: Env, bucket: string, period: Period = 'hour', limit: number = 10): Promise<{ userAgent: string; requestCount: number }[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+// Keys with traffic that are checked against api_keys_archive, busiest first
+const UNKNOWN_KEY_SCAN_LIMIT = 10000;
 
-    // Extract bucket number from format "anon_123"
-    const bucketMatch = bucket.match(/^anon_(\d+)$/);
-    if (!bucketMatch) {
-        throw new Error('Invalid bucket format');
-    }
+// (key, status code) rows read for the status breakdown of the unknown keys
+const UNKNOWN_KEY_BREAKDOWN_LIMIT = 10000;
 
-    const bucketNum = parseInt(bucketMatch[1]);
-    const nextBucketNum = bucketNum + 1;
-    const prefix = `anon_${bucketNum}_`;
-    const prefixEnd = `anon_${nextBucketNum}_`;
+// IPs and user agents listed for each unknown key
+const UNKNOWN_KEY_TOP_ITEMS = 5;
 
-    const query = `
-        SELECT
-            blob6 as userAgent,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = ''
-            AND index1 >= '${prefix}'
-            AND index1 < '${prefixEnd}'
-            AND blob6 != ''
-        GROUP BY blob6
-        ORDER BY requestCount DESC
-        LIMIT ${limit}
-    `;
+/**
+ * Get keys sent in traffic that have no api_keys_archive row, busiest first,
+ * with their status codes and the IPs and user agents sending them
+ *
+ * getTopUsers only shows these as keys without a name; here they are the point.
+ * Only the UNKNOWN_KEY_SCAN_LIMIT busiest keys are checked, so on busy days the
+ * quietest unknown keys are missed; keysTruncated says so.
+ */
+export async function getUnknownKeyReport(env: Env, range: TimeRange = resolvePreset('24h'), limit: number = 20): Promise<UnknownKeyReport> {
+    const schema = datasetSchema(env);
+    const maxRows = clampLimit(limit, MAX_TOP_LIMIT, 20);
 
     try {
-        const results = await executeQuery(env, query);
-        return results.map(r => ({
-            userAgent: r.userAgent,
-            requestCount: Math.round(Number(r.requestCount))
-        }));
+        const rankedKeys = await executeQuery(env, `
+            SELECT
+                apiKey,
+                SUM(sampleInterval) as requestCount,
+                SUM(if(statusCode >= 400, sampleInterval, 0)) as errorCount,
+                MIN(requestTime) as firstSeen,
+                MAX(requestTime) as lastSeen
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    toUInt32(${schema.statusCode}) as statusCode,
+                    timestamp as requestTime,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${schema.apiKey} != ''
+            )
+            GROUP BY apiKey
+            ORDER BY requestCount DESC, apiKey
+            LIMIT ${UNKNOWN_KEY_SCAN_LIMIT + 1}
+        `, 'ranking');
+        const keysTruncated = rankedKeys.length > UNKNOWN_KEY_SCAN_LIMIT;
+        const activeKeys = rankedKeys.slice(0, UNKNOWN_KEY_SCAN_LIMIT);
+        if (activeKeys.length === 0) {
+            return { keyCount: 0, requestCount: 0, keysTruncated, keys: [] };
+        }
+
+        const registered = await env.DB
+            .prepare('SELECT api_key FROM api_keys_archive WHERE api_key IN (SELECT value FROM json_each(?))')
+            .bind(JSON.stringify(activeKeys.map(row => row.apiKey)))
+            .all<{ api_key: string }>();
+        const registeredKeys = new Set((registered.results ?? []).map(row => row.api_key));
+        const unknown = activeKeys.filter(row => !registeredKeys.has(row.apiKey));
+        const shown = unknown.slice(0, maxRows);
+        const report: UnknownKeyReport = {
+            keyCount: unknown.length,
+            requestCount: Math.round(unknown.reduce((sum, row) => sum + Number(row.requestCount), 0)),
+            keysTruncated,
+            keys: []
+        };
+        if (shown.length === 0) {
+            return report;
+        }
+
+        // Requests per key and value of one field, busiest first; perKey keeps only the
+        // busiest values of each key, so a key sent from many IPs cannot crowd out the others
+        const keyCondition = `${schema.apiKey} IN (${shown.map(row => stringLiteral(row.apiKey)).join(', ')})`;
+        const breakdown = (valueExpr: string, perKey: number | null = null) => executeQuery(env, `
+            SELECT
+                apiKey,
+                value,
+                SUM(sampleInterval) as requestCount
+            FROM (
+                SELECT
+                    ${schema.apiKey} as apiKey,
+                    ${valueExpr} as value,
+                    _sample_interval as sampleInterval
+                FROM ${datasetTable(env)}
+                WHERE ${timeRangeCondition(range)}
+                    AND ${keyCondition}
+            )
+            GROUP BY apiKey, value
+            ORDER BY requestCount DESC, value
+            ${perKey === null ? '' : `LIMIT ${perKey} BY apiKey`}
+            LIMIT ${UNKNOWN_KEY_BREAKDOWN_LIMIT}
+        `);
+        const [statusRows, ipRows, userAgentRows] = await Promise.all([
+            breakdown(`toUInt32(${schema.statusCode})`),
+            breakdown(schema.ip, UNKNOWN_KEY_TOP_ITEMS),
+            breakdown(schema.userAgent, UNKNOWN_KEY_TOP_ITEMS)
+        ]);
+        const byKey = (rows: any[]) => {
+            const grouped = new Map<string, any[]>();
+            for (const row of rows) {
+                grouped.set(row.apiKey, [...(grouped.get(row.apiKey) ?? []), row]);
+            }
+            return grouped;
+        };
+        const statusByKey = byKey(statusRows);
+        const ipsByKey = byKey(ipRows);
+        const userAgentsByKey = byKey(userAgentRows);
+
+        report.keys = shown.map(row => {
+            const requestCount = Number(row.requestCount);
+            const usage: UnknownKeyUsage = {
+                apiKey: row.apiKey,
+                requestCount: Math.round(requestCount),
+                errorRate: Math.round((Number(row.errorCount) / requestCount) * 10000) / 100,
+                firstSeen: String(row.firstSeen),
+                lastSeen: String(row.lastSeen),
+                statusCodes: (statusByKey.get(row.apiKey) ?? []).map(status => ({
+                    statusCode: Number(status.value),
+                    requestCount: Math.round(Number(status.requestCount)),
+                    percentage: Math.round((Number(status.requestCount) / requestCount) * 10000) / 100
+                })),
+                topIps: (ipsByKey.get(row.apiKey) ?? []).map(ip => ({
+                    ip: String(ip.value),
+                    requestCount: Math.round(Number(ip.requestCount))
+                })),
+                topUserAgents: (userAgentsByKey.get(row.apiKey) ?? []).map(userAgent => ({
+                    userAgent: String(userAgent.value),
+                    requestCount: Math.round(Number(userAgent.requestCount))
+                }))
+            };
+            return usage;
+        });
+        return report;
     } catch (error) {
-        console.error('Error querying top user agents for bucket:', error);
+        console.error('Error querying unknown keys:', error);
         throw error;
     }
 }
 
-/**
- * Get top referrers for an anonymous bucket
- */
-export async function getTopReferrersForBucket(env: Env, bucket: string, period: Period = 'hour', limit: number = 10): Promise<{ referrer: string; requestCount: number }[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-
-    // Extract bucket number from format "anon_123"
-    const bucketMatch = bucket.match(/^anon_(\d+)$/);
-    if (!bucketMatch) {
-        throw new Error('Invalid bucket format');
-    }
-
-    const bucketNum = parseInt(bucketMatch[1]);
-    const nextBucketNum = bucketNum + 1;
-    const prefix = `anon_${bucketNum}_`;
-    const prefixEnd = `anon_${nextBucketNum}_`;
+// Matches taken from each source (archive, keys in traffic, IP addresses) before ranking
+const SEARCH_SOURCE_LIMIT = 50;
 
-    const query = `
-        SELECT
-            blob7 as referrer,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob1 = ''
-            AND index1 >= '${prefix}'
-            AND index1 < '${prefixEnd}'
-            AND blob7 != ''
-        GROUP BY blob7
-        ORDER BY requestCount DESC
-        LIMIT ${limit}
-    `;
+const MAX_SEARCH_LIMIT = 50;
 
-    try {
-        const results = await executeQuery(env, query);
-        return results.map(r => ({
-            referrer: r.referrer,
-            requestCount: Math.round(Number(r.requestCount))
-        }));
-    } catch (error) {
-        console.error('Error querying top referrers for bucket:', error);
-        throw error;
-    }
+interface SearchCandidate {
+    type: SearchResult['type'];
+    groupKey: string;
+    matchedField: SearchMatchField;
+    matchedValue: string;
+    // 0 for an exact match, 1 for a prefix, 2 for any other part
+    quality: number;
 }
 
 /**
- * Get top user agents across all requests (aggregate)
+ * How closely a value fits the search term (case-insensitively), see SearchCandidate
  */
-export async function getTopUserAgentsAggregate(env: Env, period: Period = 'hour', limit: number = 10): Promise<{ userAgent: string; requestCount: number }[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
-
-    const query = `
-        SELECT
-            blob6 as userAgent,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob6 != ''
-        GROUP BY blob6
-        ORDER BY requestCount DESC
-        LIMIT ${limit}
-    `;
-
-    try {
-        const results = await executeQuery(env, query);
-        return results.map(r => ({
-            userAgent: r.userAgent,
-            requestCount: Math.round(Number(r.requestCount))
-        }));
-    } catch (error) {
-        console.error('Error querying top user agents aggregate:', error);
-        throw error;
+function matchQuality(value: string, term: string): number {
+    const lower = value.toLowerCase();
+    const lowerTerm = term.toLowerCase();
+    if (lower === lowerTerm) {
+        return 0;
     }
+    return lower.startsWith(lowerTerm) ? 1 : 2;
 }
 
 /**
- * Get top referrers across all requests (aggregate)
+ * Search API keys and anonymous buckets, with their usage in range
+ *
+ * The term matches names, emails, organizations and keys in api_keys_archive,
+ * parts of API keys seen in traffic (unregistered keys included), IP addresses
+ * or prefixes (the keys and buckets that sent requests from them) and bucket
+ * names. Exact matches rank first, then prefixes, then busier keys and buckets.
  */
-export async function getTopReferrersAggregate(env: Env, period: Period = 'hour', limit: number = 10): Promise<{ referrer: string; requestCount: number }[]> {
-    const interval = period === 'hour' ? '1' : '1';
-    const intervalUnit = period === 'hour' ? 'HOUR' : 'DAY';
+export async function searchUsage(env: Env, query: string, range: TimeRange = resolvePreset('1h'), limit: number = 10): Promise<SearchResult[]> {
+    const term = query.trim();
+    if (term.length < 2 || term.length > 100) {
+        throw new QueryValidationError('q must be between 2 and 100 characters');
+    }
 
-    const query = `
+    const schema = datasetSchema(env);
+    const durationSeconds = rangeDurationSeconds(range);
+    const maxResults = clampLimit(limit, MAX_SEARCH_LIMIT);
+    const likePattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+    // Keys are base62, addresses are IPv4 or IPv6 (or a prefix of one)
+    const searchKeys = /^[A-Za-z0-9]{4,}$/.test(term);
+    const searchIps = /^[0-9A-Fa-f.:]+$/.test(term) && /[.:]/.test(term);
+
+    const keyQuery = `
+        SELECT ${schema.apiKey} as apiKey
+        FROM ${datasetTable(env)}
+        WHERE ${timeRangeCondition(range)}
+            AND ${schema.apiKey} != ''
+            AND position(${schema.apiKey}, ${stringLiteral(term)}) > 0
+        GROUP BY apiKey
+        LIMIT ${SEARCH_SOURCE_LIMIT}
+    `;
+
+    const ipQuery = `
         SELECT
-            blob7 as referrer,
-            SUM(_sample_interval) as requestCount
-        FROM ${env.ANALYTICS_DATASET}
-        WHERE
-            timestamp > NOW() - INTERVAL '${interval}' ${intervalUnit}
-            AND blob7 != ''
-        GROUP BY blob7
+            groupKey,
+            MAX(apiKey) as apiKey,
+            MAX(ip) as ip,
+            SUM(sampleInterval) as requestCount
+        FROM (
+            SELECT
+                if(${schema.apiKey} != '', ${schema.apiKey}, ${anonBucketExpr(schema)}) as groupKey,
+                ${schema.apiKey} as apiKey,
+                ${schema.ip} as ip,
+                _sample_interval as sampleInterval
+            FROM ${datasetTable(env)}
+            WHERE ${timeRangeCondition(range)}
+                AND startsWith(${schema.ip}, ${stringLiteral(term)})
+                AND (${schema.apiKey} != '' OR startsWith(${schema.index}, 'anon_'))
+        )
+        GROUP BY groupKey
         ORDER BY requestCount DESC
-        LIMIT ${limit}
+        LIMIT ${SEARCH_SOURCE_LIMIT}
     `;
 
     try {
-        const results = await executeQuery(env, query);
-        return results.map(r => ({
-            referrer: r.referrer,
-            requestCount: Math.round(Number(r.requestCount))
-        }));
+        const [archiveResults, keyResults, ipResults] = await Promise.all([
+            env.DB
+                .prepare(`
+                    SELECT api_key, name, email, organization
+                    FROM api_keys_archive
+                    WHERE api_key LIKE ?1 ESCAPE '\\'
+                        OR name LIKE ?1 ESCAPE '\\'
+                        OR email LIKE ?1 ESCAPE '\\'
+                        OR organization LIKE ?1 ESCAPE '\\'
+                    LIMIT ${SEARCH_SOURCE_LIMIT}
+                `)
+                .bind(likePattern)
+                .all<Pick<ApiUser, 'api_key' | 'name' | 'email' | 'organization'>>(),
+            searchKeys ? executeQuery(env, keyQuery) : Promise.resolve([]),
+            searchIps ? executeQuery(env, ipQuery) : Promise.resolve([])
+        ]);
+
+        // One candidate per key or bucket, keeping its closest match
+        const candidates = new Map<string, SearchCandidate>();
+        const addCandidate = (candidate: SearchCandidate) => {
+            const existing = candidates.get(candidate.groupKey);
+            if (!existing || candidate.quality < existing.quality) {
+                candidates.set(candidate.groupKey, candidate);
+            }
+        };
+
+        const userInfoMap = new Map((archiveResults.results ?? []).map(user => [user.api_key, user]));
+        for (const user of userInfoMap.values()) {
+            const fields: [SearchMatchField, string | null][] = [['apiKey', user.api_key], ['name', user.name], ['email', user.email], ['organization', user.organization]];
+            for (const [field, value] of fields) {
+                if (value && value.toLowerCase().includes(term.toLowerCase())) {
+                    addCandidate({ type: 'user', groupKey: user.api_key, matchedField: field, matchedValue: value, quality: matchQuality(value, term) });
+                }
+            }
+        }
+        for (const row of keyResults) {
+            const apiKey = row.apiKey as string;
+            addCandidate({ type: 'user', groupKey: apiKey, matchedField: 'apiKey', matchedValue: apiKey, quality: matchQuality(apiKey, term) });
+        }
+        for (const row of ipResults) {
+            const ip = row.ip as string;
+            addCandidate({ type: row.apiKey ? 'user' : 'anonymous', groupKey: row.groupKey as string, matchedField: 'ip', matchedValue: ip, quality: matchQuality(ip, term) });
+        }
+        if (/^anon_\d+$/.test(term)) {
+            addCandidate({ type: 'anonymous', groupKey: term, matchedField: 'bucket', matchedValue: term, quality: 0 });
+        }
+
+        const apiKeys = [...candidates.values()].filter(c => c.type === 'user').map(c => c.groupKey);
+        const buckets = [...candidates.values()].filter(c => c.type === 'anonymous').map(c => c.groupKey);
+        const ordering = topListOrder();
+        const bucketConditions = buckets.map(bucket => `(${bucketIndexCondition(bucket, schema.index)})`).join(' OR ');
+        const unnamedKeys = apiKeys.filter(apiKey => !userInfoMap.has(apiKey));
+
+        // Usage of every candidate, and names of keys found in traffic only
+        const [keyUsage, bucketUsage, unnamedResults] = await Promise.all([
+            apiKeys.length > 0
+                ? getTopListRows(env, schema.apiKey, `${schema.apiKey} IN (${apiKeys.map(apiKey => stringLiteral(apiKey)).join(', ')})`, range, ordering, apiKeys.length, 0)
+                : Promise.resolve([]),
+            buckets.length > 0
+                ? getTopListRows(env, anonBucketExpr(schema), `${schema.apiKey} = '' AND (${bucketConditions})`, range, ordering, buckets.length, 0)
+                : Promise.resolve([]),
+            unnamedKeys.length > 0
+                ? env.DB
+                    .prepare('SELECT api_key, name, email, organization FROM api_keys_archive WHERE api_key IN (SELECT value FROM json_each(?))')
+                    .bind(JSON.stringify(unnamedKeys))
+                    .all<Pick<ApiUser, 'api_key' | 'name' | 'email' | 'organization'>>()
+                : Promise.resolve({ results: [] })
+        ]);
+
+        for (const user of unnamedResults.results ?? []) {
+            userInfoMap.set(user.api_key, user);
+        }
+        const usage = new Map([...keyUsage, ...bucketUsage].map(row => [row.groupKey as string, readTopListTotals(row, durationSeconds)]));
+
+        const results = [...candidates.values()]
+            // Buckets only exist while they have traffic
+            .filter(candidate => candidate.type === 'user' || usage.has(candidate.groupKey))
+            .map(candidate => {
+                const userInfo = candidate.type === 'user' ? userInfoMap.get(candidate.groupKey) : undefined;
+                const totals = usage.get(candidate.groupKey);
+                const result: SearchResult = {
+                    type: candidate.type,
+                    apiKey: candidate.type === 'user' ? candidate.groupKey : null,
+                    bucket: candidate.type === 'anonymous' ? candidate.groupKey : null,
+                    name: userInfo?.name || null,
+                    email: userInfo?.email || null,
+                    organization: userInfo?.organization || null,
+                    matchedField: candidate.matchedField,
+                    matchedValue: candidate.matchedValue,
+                    requestCount: totals?.requestCount ?? 0,
+                    avgResponseTime: totals?.avgResponseTime ?? 0,
+                    successRate: totals?.successRate ?? 0,
+                };
+                return { result, quality: candidate.quality };
+            });
+
+        results.sort((a, b) => a.quality - b.quality
+            || b.result.requestCount - a.result.requestCount
+            || (a.result.apiKey ?? a.result.bucket ?? '').localeCompare(b.result.apiKey ?? b.result.bucket ?? ''));
+
+        return results.slice(0, maxResults).map(({ result }) => result);
     } catch (error) {
-        console.error('Error querying top referrers aggregate:', error);
+        console.error('Error searching keys and buckets:', error);
         throw error;
     }
 }
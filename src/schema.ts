@@ -0,0 +1,98 @@
+import type { Env } from './types';
+import { COLUMNS } from './sql';
+import type { ColumnName } from './sql';
+
+/**
+ * Where the proxy writes each request field in an Analytics Engine dataset
+ *
+ * Queries reference fields through a DatasetSchema instead of blob and
+ * double numbers, so a dataset version that moves or adds columns only
+ * needs an ANALYTICS_SCHEMAS entry in wrangler.jsonc:
+ *
+ *   "ANALYTICS_SCHEMAS": { "openalex_requests_v3": { "userAgent": "blob4" } }
+ *
+ * Entries are keyed by dataset name and override DEFAULT_SCHEMA field by field.
+ */
+
+export interface DatasetSchema {
+    // API key; empty for anonymous requests
+    apiKey: ColumnName;
+    // Client IP address
+    ip: ColumnName;
+    // Full request URL, e.g. https://api.openalex.org/works?filter=...
+    url: ColumnName;
+    userAgent: ColumnName;
+    referrer: ColumnName;
+    // Response time in ms
+    responseTime: ColumnName;
+    // HTTP status code
+    statusCode: ColumnName;
+    // API key, or anon_${bucket}_${statusCode} for anonymous requests
+    index: ColumnName;
+}
+
+export type SchemaField = keyof DatasetSchema;
+
+// Per-dataset overrides, as set in wrangler.jsonc (an object) or with --var (a JSON string)
+export type SchemaOverrides = Record<string, Partial<Record<SchemaField, string>>>;
+
+// Layout of openalex_requests_v2
+export const DEFAULT_SCHEMA: Readonly<DatasetSchema> = {
+    apiKey: 'blob1',
+    ip: 'blob2',
+    url: 'blob3',
+    userAgent: 'blob6',
+    referrer: 'blob7',
+    responseTime: 'double1',
+    statusCode: 'double2',
+    index: 'index1',
+};
+
+// Column kind each field has to live in: strings in blobs, numbers in doubles
+const FIELD_COLUMN_PATTERNS: Record<SchemaField, RegExp> = {
+    apiKey: /^blob\d+$/,
+    ip: /^blob\d+$/,
+    url: /^blob\d+$/,
+    userAgent: /^blob\d+$/,
+    referrer: /^blob\d+$/,
+    responseTime: /^double\d+$/,
+    statusCode: /^double\d+$/,
+    index: /^index1$/,
+};
+
+/**
+ * Schema of the configured dataset: DEFAULT_SCHEMA with its ANALYTICS_SCHEMAS entry applied
+ *
+ * Throws when the entry names an unknown field or a column of the wrong kind;
+ * that is a deployment mistake, so it surfaces as a server error.
+ */
+export function datasetSchema(env: Env): DatasetSchema {
+    const overrides = parseOverrides(env.ANALYTICS_SCHEMAS)[env.ANALYTICS_DATASET];
+    if (!overrides) {
+        return { ...DEFAULT_SCHEMA };
+    }
+
+    const schema = { ...DEFAULT_SCHEMA };
+    for (const [field, name] of Object.entries(overrides)) {
+        if (!(field in FIELD_COLUMN_PATTERNS)) {
+            throw new Error(`ANALYTICS_SCHEMAS.${env.ANALYTICS_DATASET}: unknown field ${field}`);
+        }
+        const pattern = FIELD_COLUMN_PATTERNS[field as SchemaField];
+        if (typeof name !== 'string' || !pattern.test(name) || !COLUMNS.includes(name)) {
+            throw new Error(`ANALYTICS_SCHEMAS.${env.ANALYTICS_DATASET}: ${field} cannot be stored in ${name}`);
+        }
+        schema[field as SchemaField] = name as ColumnName;
+    }
+    return schema;
+}
+
+function parseOverrides(value: Env['ANALYTICS_SCHEMAS']): SchemaOverrides {
+    if (value === undefined || value === '') {
+        return {};
+    }
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('ANALYTICS_SCHEMAS must be an object keyed by dataset name');
+    }
+    return parsed;
+}
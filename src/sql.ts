@@ -0,0 +1,134 @@
+/**
+ * Helpers for building Analytics Engine SQL safely
+ *
+ * Every value that comes from a request (API keys, bucket names, limits,
+ * column choices) goes through one of these before it is interpolated
+ * into a query string.
+ */
+
+/**
+ * Thrown when a value cannot be safely placed into a query
+ */
+export class QueryValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueryValidationError';
+    }
+}
+
+// Analytics Engine datasets have 20 blob and 20 double columns
+const BLOB_COUNT = 20;
+const DOUBLE_COUNT = 20;
+
+/**
+ * Columns of an Analytics Engine dataset that queries may reference
+ */
+export const COLUMNS: readonly string[] = [
+    'timestamp',
+    '_sample_interval',
+    'index1',
+    ...Array.from({ length: BLOB_COUNT }, (_, i) => `blob${i + 1}`),
+    ...Array.from({ length: DOUBLE_COUNT }, (_, i) => `double${i + 1}`),
+];
+
+export type ColumnName = 'timestamp' | '_sample_interval' | 'index1' | `blob${number}` | `double${number}`;
+
+// Longest string literal we accept (blob values are capped well below this)
+const MAX_LITERAL_LENGTH = 1024;
+
+// Control characters have no business in keys, buckets or URLs
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const BUCKET = /^anon_(\d{1,9})$/;
+
+/**
+ * Quote a string as a SQL literal
+ *
+ * Backslashes and single quotes are escaped; control characters and
+ * overlong values are rejected.
+ */
+export function stringLiteral(value: string, maxLength: number = MAX_LITERAL_LENGTH): string {
+    if (typeof value !== 'string') {
+        throw new QueryValidationError('Expected a string value');
+    }
+    if (value.length > maxLength) {
+        throw new QueryValidationError(`Value exceeds maximum length of ${maxLength}`);
+    }
+    if (CONTROL_CHARS.test(value)) {
+        throw new QueryValidationError('Value contains control characters');
+    }
+
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    return `'${escaped}'`;
+}
+
+/**
+ * Format a Date as a DateTime literal (UTC, second precision)
+ */
+export function dateTimeLiteral(date: Date): string {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+        throw new QueryValidationError('Invalid date');
+    }
+    return `toDateTime('${date.toISOString().slice(0, 19).replace('T', ' ')}')`;
+}
+
+/**
+ * Clamp a row limit to a sane integer range
+ *
+ * Non-numeric values fall back to the default.
+ */
+export function clampLimit(limit: number, max: number = 1000, fallback: number = 10): number {
+    if (!Number.isFinite(limit)) {
+        return fallback;
+    }
+    return Math.min(max, Math.max(1, Math.floor(limit)));
+}
+
+/**
+ * Return a column name if it is part of the dataset schema
+ */
+export function column(name: string): ColumnName {
+    if (!COLUMNS.includes(name)) {
+        throw new QueryValidationError(`Unknown column: ${name}`);
+    }
+    return name as ColumnName;
+}
+
+/**
+ * Validate a table (dataset) name
+ */
+export function identifier(name: string): string {
+    if (!IDENTIFIER.test(name)) {
+        throw new QueryValidationError(`Invalid identifier: ${name}`);
+    }
+    return name;
+}
+
+/**
+ * Parse an anonymous bucket name ("anon_123") into its number
+ */
+export function parseBucket(bucket: string): number {
+    const match = typeof bucket === 'string' ? bucket.match(BUCKET) : null;
+    if (!match) {
+        throw new QueryValidationError('Invalid bucket format');
+    }
+    return parseInt(match[1], 10);
+}
+
+/**
+ * Index range covering every status code of an anonymous bucket
+ *
+ * Anonymous rows are indexed as anon_${bucket}_${statusCode}, so all of them
+ * sort between anon_N_ (inclusive) and anon_N` (exclusive, '`' being the
+ * character after '_'). Using anon_(N+1)_ as the upper bound breaks for
+ * N = 9, 99, ... because 'anon_10_' sorts before 'anon_9_'.
+ */
+export function bucketIndexCondition(bucket: string, indexColumn: string = 'index1'): string {
+    const bucketNum = parseBucket(bucket);
+    const prefix = stringLiteral(`anon_${bucketNum}_`);
+    const prefixEnd = stringLiteral(`anon_${bucketNum}\``);
+    const index = column(indexColumn);
+    return `${index} >= ${prefix} AND ${index} < ${prefixEnd}`;
+}
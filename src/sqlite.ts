@@ -0,0 +1,435 @@
+import type { AnalyticsBackend } from './backend';
+import { AnalyticsQueryError } from './errors';
+import { COLUMNS, column, identifier } from './sql';
+import defaultFixture from '../fixtures/analytics-engine.json';
+
+/**
+ * Local analytics backend: Analytics Engine queries run against a SQLite
+ * (D1) table with the dataset's schema, seeded from a fixture file
+ *
+ * Queries are translated from the ClickHouse dialect the SQL API speaks to
+ * SQLite. Only the functions this project's queries use are covered, and
+ * quantileExactWeighted may only appear in the outermost SELECT (its
+ * values are collected by SQLite and the quantile is taken afterwards).
+ */
+
+// Fixture traffic: rows of values in the order of columns
+export interface AnalyticsFixture {
+    columns: string[];
+    rows: (string | number)[][];
+}
+
+// Fixture rows are moved so the newest lands at the current time; once they
+// lag further behind than this they are moved forward again
+const FIXTURE_MAX_LAG_SECONDS = 600;
+
+// Rows are moved by whole multiples of this, so they keep falling into the same
+// rate and timeline windows (the newest row ends up within the last minute)
+const FIXTURE_SHIFT_STEP_SECONDS = 60;
+
+// Rows inserted per D1 batch while seeding
+const SEED_BATCH_SIZE = 500;
+
+const UNIT_SECONDS: Record<string, number> = { SECOND: 1, MINUTE: 60, HOUR: 3600, DAY: 86400 };
+
+// Seeding (or refreshing) in progress or done, per database and table
+const prepared = new WeakMap<D1Database, Map<string, { promise: Promise<void>; checkedAt: number }>>();
+
+export class LocalAnalyticsBackend implements AnalyticsBackend {
+    constructor(
+        private db: D1Database,
+        private dataset: string,
+        private fixture: AnalyticsFixture = defaultFixture as AnalyticsFixture
+    ) {}
+
+    async query(sql: string): Promise<any[]> {
+        await this.prepare();
+
+        const { query, quantiles, ordering } = toSqlite(sql);
+        let rows: Record<string, unknown>[];
+        try {
+            rows = (await this.db.prepare(query).all()).results;
+        } catch (error) {
+            console.error('Local analytics query failed:', error, query);
+            throw new AnalyticsQueryError();
+        }
+
+        for (const row of rows) {
+            for (const [name, level] of quantiles) {
+                row[name] = weightedQuantile(JSON.parse(String(row[name] ?? '[]')), level);
+            }
+        }
+        return ordering ? applyOrdering(rows, ordering) : rows;
+    }
+
+    /**
+     * Create and seed the table on first use, and keep its traffic recent
+     */
+    private prepare(): Promise<void> {
+        let tables = prepared.get(this.db);
+        if (!tables) {
+            tables = new Map();
+            prepared.set(this.db, tables);
+        }
+
+        const entry = tables.get(this.dataset);
+        if (entry && Date.now() - entry.checkedAt < FIXTURE_MAX_LAG_SECONDS * 1000) {
+            return entry.promise;
+        }
+
+        const promise = this.seed().catch(error => {
+            tables!.delete(this.dataset);
+            throw error;
+        });
+        tables.set(this.dataset, { promise, checkedAt: Date.now() });
+        return promise;
+    }
+
+    private async seed(): Promise<void> {
+        const table = identifier(this.dataset);
+        await this.db.batch([
+            this.db.prepare(`CREATE TABLE IF NOT EXISTS ${table} (${COLUMNS.map(columnDefinition).join(', ')})`),
+            this.db.prepare(`CREATE INDEX IF NOT EXISTS ${table}_timestamp ON ${table} (timestamp)`),
+        ]);
+
+        const now = Math.floor(Date.now() / 1000);
+        const latest = await this.db
+            .prepare(`SELECT CAST(strftime('%s', MAX(timestamp)) AS INTEGER) as latest FROM ${table}`)
+            .first<{ latest: number | null }>();
+
+        if (latest?.latest == null) {
+            await this.insertFixture(table, now);
+        } else if (now - latest.latest > FIXTURE_MAX_LAG_SECONDS) {
+            await this.db
+                .prepare(`UPDATE ${table} SET timestamp = datetime(CAST(strftime('%s', timestamp) AS INTEGER) + ?, 'unixepoch')`)
+                .bind(fixtureShift(now - latest.latest))
+                .run();
+        }
+    }
+
+    private async insertFixture(table: string, now: number): Promise<void> {
+        const columns = this.fixture.columns.map(name => column(name));
+        const timestampIndex = columns.indexOf('timestamp');
+        if (timestampIndex === -1) {
+            throw new Error('Analytics fixture has no timestamp column');
+        }
+
+        const seconds = this.fixture.rows.map(row => Date.parse(String(row[timestampIndex]).replace(' ', 'T') + 'Z') / 1000);
+        const offset = fixtureShift(now - Math.max(...seconds));
+        const insert = this.db.prepare(
+            `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+        );
+
+        for (let start = 0; start < this.fixture.rows.length; start += SEED_BATCH_SIZE) {
+            const statements = this.fixture.rows.slice(start, start + SEED_BATCH_SIZE).map((row, i) => {
+                const values = [...row];
+                values[timestampIndex] = new Date((seconds[start + i] + offset) * 1000).toISOString().slice(0, 19).replace('T', ' ');
+                return insert.bind(...values);
+            });
+            await this.db.batch(statements);
+        }
+    }
+}
+
+/**
+ * Whole FIXTURE_SHIFT_STEP_SECONDS steps of a forward shift
+ */
+function fixtureShift(seconds: number): number {
+    return Math.floor(seconds / FIXTURE_SHIFT_STEP_SECONDS) * FIXTURE_SHIFT_STEP_SECONDS;
+}
+
+/**
+ * SQLite definition of a dataset column
+ */
+function columnDefinition(name: string): string {
+    if (name === 'timestamp') {
+        return 'timestamp TEXT NOT NULL';
+    }
+    if (name === '_sample_interval') {
+        return '_sample_interval INTEGER NOT NULL DEFAULT 1';
+    }
+    return name.startsWith('double') ? `${name} REAL NOT NULL DEFAULT 0` : `${name} TEXT NOT NULL DEFAULT ''`;
+}
+
+// Outermost ORDER BY and LIMIT, applied to the rows once quantiles have their values
+export interface DeferredOrdering {
+    terms: { name: string; descending: boolean }[];
+    // LIMIT n BY column: the first n rows of each value of column
+    limitBy: { limit: number; column: string } | null;
+    limit: number | null;
+    offset: number;
+}
+
+/**
+ * Translate an Analytics Engine query to SQLite
+ *
+ * Returns the query and the quantile columns (alias and level) whose
+ * values come back as JSON arrays of [value, weight]. When the outermost
+ * ORDER BY sorts by one of those columns, or is followed by LIMIT n BY,
+ * which SQLite lacks, it is taken out of the query (with its LIMIT) and
+ * returned as ordering instead.
+ */
+export function toSqlite(sql: string): { query: string; quantiles: Map<string, number>; ordering: DeferredOrdering | null } {
+    const quantiles = new Map<string, number>();
+    const { sql: translated, ordering } = deferOrdering(translateCalls(sql, quantiles), quantiles);
+    return { query: translateLiterals(translated), quantiles, ordering };
+}
+
+/**
+ * Split off the outermost ORDER BY (and LIMIT BY / LIMIT / OFFSET) if it references
+ * a quantile column or has a LIMIT BY
+ */
+function deferOrdering(sql: string, quantiles: Map<string, number>): { sql: string; ordering: DeferredOrdering | null } {
+    const start = lastTopLevelOrderBy(sql);
+    const tail = start === -1
+        ? null
+        : /^ORDER\s+BY\s+([\s\S]+?)(?:\s+LIMIT\s+(\d+)\s+BY\s+([A-Za-z_][A-Za-z0-9_]*))?(?:\s+LIMIT\s+(\d+)(?:\s+OFFSET\s+(\d+))?)?\s*$/i.exec(sql.slice(start));
+    if (!tail) {
+        return { sql, ordering: null };
+    }
+
+    const terms: DeferredOrdering['terms'] = [];
+    for (const term of tail[1].split(',')) {
+        const match = /^\s*([A-Za-z_][A-Za-z0-9_]*)(?:\s+(ASC|DESC))?\s*$/i.exec(term);
+        if (!match) {
+            return { sql, ordering: null };
+        }
+        terms.push({ name: match[1], descending: match[2]?.toUpperCase() === 'DESC' });
+    }
+    const limitBy = tail[2] ? { limit: Number(tail[2]), column: tail[3] } : null;
+    if (!limitBy && !terms.some(term => quantiles.has(term.name))) {
+        return { sql, ordering: null };
+    }
+
+    return {
+        sql: sql.slice(0, start),
+        ordering: { terms, limitBy, limit: tail[4] ? Number(tail[4]) : null, offset: Number(tail[5] ?? 0) }
+    };
+}
+
+/**
+ * Index of the last ORDER BY outside parentheses and string literals, or -1
+ */
+function lastTopLevelOrderBy(sql: string): number {
+    let depth = 0;
+    let found = -1;
+    for (let i = 0; i < sql.length; i++) {
+        if (sql[i] === "'") {
+            i = literalEnd(sql, i) - 1;
+        } else if (sql[i] === '(') {
+            depth++;
+        } else if (sql[i] === ')') {
+            depth--;
+        } else if (depth === 0 && /^ORDER\s+BY\b/i.test(sql.slice(i, i + 16)) && /\s/.test(sql[i - 1] ?? ' ')) {
+            found = i;
+        }
+    }
+    return found;
+}
+
+/**
+ * Sort and cut rows as a deferred ORDER BY / LIMIT BY / LIMIT would have (NULLs first, like SQLite)
+ */
+function applyOrdering(rows: Record<string, unknown>[], ordering: DeferredOrdering): Record<string, unknown>[] {
+    const compare = (a: unknown, b: unknown): number => {
+        if (a == null || b == null) {
+            return (a == null ? 0 : 1) - (b == null ? 0 : 1);
+        }
+        if (typeof a === 'number' && typeof b === 'number') {
+            return a - b;
+        }
+        return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+    };
+
+    let sorted = [...rows].sort((a, b) => {
+        for (const { name, descending } of ordering.terms) {
+            const result = compare(a[name], b[name]);
+            if (result !== 0) {
+                return descending ? -result : result;
+            }
+        }
+        return 0;
+    });
+    if (ordering.limitBy) {
+        const { limit, column } = ordering.limitBy;
+        const seen = new Map<unknown, number>();
+        sorted = sorted.filter(row => {
+            const count = seen.get(row[column]) ?? 0;
+            seen.set(row[column], count + 1);
+            return count < limit;
+        });
+    }
+    return sorted.slice(ordering.offset, ordering.limit === null ? undefined : ordering.offset + ordering.limit);
+}
+
+/**
+ * Rewrite ClickHouse function calls into SQLite expressions
+ */
+function translateCalls(sql: string, quantiles: Map<string, number>): string {
+    let out = '';
+    let i = 0;
+
+    while (i < sql.length) {
+        if (sql[i] === "'") {
+            const end = literalEnd(sql, i);
+            out += sql.slice(i, end);
+            i = end;
+            continue;
+        }
+
+        const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(sql.slice(i))?.[0];
+        if (!word) {
+            out += sql[i++];
+            continue;
+        }
+        if (sql[i + word.length] !== '(') {
+            out += word;
+            i += word.length;
+            continue;
+        }
+
+        const call = readArguments(sql, i + word.length);
+        const args = call.args.map(arg => translateCalls(arg, quantiles));
+        i = call.end;
+
+        if (word === 'quantileExactWeighted') {
+            const values = readArguments(sql, i);
+            const alias = /^\s+as\s+([A-Za-z_][A-Za-z0-9_]*)/i.exec(sql.slice(values.end));
+            if (values.args.length !== 2 || !alias) {
+                throw new AnalyticsQueryError('quantileExactWeighted needs (value, weight) and an alias in local queries');
+            }
+            quantiles.set(alias[1], Number(args[0]));
+            const [value, weight] = values.args.map(arg => translateCalls(arg, quantiles));
+            out += `json_group_array(json_array(${value}, ${weight}))`;
+            i = values.end;
+            continue;
+        }
+
+        out += translateCall(word, args);
+    }
+
+    return out;
+}
+
+function translateCall(name: string, args: string[]): string {
+    switch (name) {
+        case 'if':
+            return `iif(${args.join(', ')})`;
+        case 'position':
+            return `instr(${args.join(', ')})`;
+        case 'startsWith':
+            return `(substr(${args[0]}, 1, length(${args[1]})) = ${args[1]})`;
+        case 'endsWith':
+            return `(substr(${args[0]}, -length(${args[1]})) = ${args[1]})`;
+        case 'toUInt32':
+            return `CAST(${args[0]} AS INTEGER)`;
+        case 'toDateTime':
+            return args[0];
+        case 'toUnixTimestamp':
+            return `CAST(strftime('%s', ${args[0]}) AS INTEGER)`;
+        case 'toStartOfInterval': {
+            const interval = /^INTERVAL\s+'?(\d+)'?\s+(SECOND|MINUTE|HOUR|DAY)$/i.exec(args[1] ?? '');
+            if (!interval) {
+                throw new AnalyticsQueryError(`Unsupported interval in local queries: ${args[1]}`);
+            }
+            const seconds = Number(interval[1]) * UNIT_SECONDS[interval[2].toUpperCase()];
+            return `datetime((CAST(strftime('%s', ${args[0]}) AS INTEGER) / ${seconds}) * ${seconds}, 'unixepoch')`;
+        }
+        case 'count':
+            return args.length === 0 ? 'COUNT(*)' : `COUNT(${args.join(', ')})`;
+        default:
+            return `${name}(${args.join(', ')})`;
+    }
+}
+
+/**
+ * Split the argument list of the call whose "(" is at start
+ */
+function readArguments(sql: string, start: number): { args: string[]; end: number } {
+    const args: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (let i = start; i < sql.length; i++) {
+        const ch = sql[i];
+        if (ch === "'") {
+            const end = literalEnd(sql, i);
+            current += sql.slice(i, end);
+            i = end - 1;
+        } else if (ch === '(') {
+            if (depth++ > 0) {
+                current += ch;
+            }
+        } else if (ch === ')') {
+            if (--depth === 0) {
+                if (current.trim() !== '' || args.length > 0) {
+                    args.push(current.trim());
+                }
+                return { args, end: i + 1 };
+            }
+            current += ch;
+        } else if (ch === ',' && depth === 1) {
+            args.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+
+    throw new AnalyticsQueryError('Unbalanced parentheses in query');
+}
+
+/**
+ * Index just past the ClickHouse string literal starting at start
+ */
+function literalEnd(sql: string, start: number): number {
+    for (let i = start + 1; i < sql.length; i++) {
+        if (sql[i] === '\\') {
+            i++;
+        } else if (sql[i] === "'") {
+            return i + 1;
+        }
+    }
+    throw new AnalyticsQueryError('Unterminated string literal in query');
+}
+
+/**
+ * Re-quote string literals: ClickHouse escapes with backslashes, SQLite doubles quotes
+ */
+function translateLiterals(sql: string): string {
+    let out = '';
+    let i = 0;
+    while (i < sql.length) {
+        if (sql[i] !== "'") {
+            out += sql[i++];
+            continue;
+        }
+        const end = literalEnd(sql, i);
+        const value = sql.slice(i + 1, end - 1).replace(/\\(.)/g, '$1');
+        out += `'${value.replace(/'/g, "''")}'`;
+        i = end;
+    }
+    return out;
+}
+
+/**
+ * Weighted quantile as quantileExactWeighted computes it: the smallest value
+ * whose cumulative weight reaches level times the total weight
+ */
+export function weightedQuantile(pairs: [number, number][], level: number): number {
+    const sorted = pairs.filter(([value]) => value !== null).sort((a, b) => a[0] - b[0]);
+    const total = sorted.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total === 0) {
+        return 0;
+    }
+
+    const threshold = Math.ceil(total * level);
+    let cumulative = 0;
+    for (const [value, weight] of sorted) {
+        cumulative += weight;
+        if (cumulative >= threshold) {
+            return value;
+        }
+    }
+    return sorted[sorted.length - 1][0];
+}
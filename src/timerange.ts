@@ -0,0 +1,162 @@
+import type { TimeRange, RangePreset, BucketInterval, RangeInfo } from './types';
+
+/**
+ * Duration of each preset in seconds
+ */
+const PRESET_SECONDS: Record<RangePreset, number> = {
+    '1h': 3600,
+    '24h': 86400,
+    '7d': 7 * 86400,
+    '30d': 30 * 86400,
+    '90d': 90 * 86400,
+};
+
+/**
+ * Preset ranges end on a multiple of this many seconds, so requests made
+ * close together produce identical queries and share cached results
+ */
+const PRESET_RESOLUTION_SECONDS: Record<RangePreset, number> = {
+    '1h': 60,
+    '24h': 300,
+    '7d': 900,
+    '30d': 3600,
+    '90d': 3600,
+};
+
+/**
+ * Legacy ?period= values still accepted by the API
+ */
+const LEGACY_PERIODS: Record<string, RangePreset> = {
+    hour: '1h',
+    day: '24h',
+};
+
+// Analytics Engine keeps roughly three months of data
+const MAX_RANGE_SECONDS = 92 * 86400;
+
+/**
+ * Bucket sizes for timeline queries, smallest first.
+ * The first one whose span limit covers the range is used.
+ */
+const BUCKET_STEPS: { maxSpanSeconds: number; interval: BucketInterval }[] = [
+    { maxSpanSeconds: 3 * 3600, interval: { value: 5, unit: 'MINUTE' } },
+    { maxSpanSeconds: 12 * 3600, interval: { value: 15, unit: 'MINUTE' } },
+    { maxSpanSeconds: 2 * 86400, interval: { value: 1, unit: 'HOUR' } },
+    { maxSpanSeconds: 8 * 86400, interval: { value: 3, unit: 'HOUR' } },
+    { maxSpanSeconds: 31 * 86400, interval: { value: 12, unit: 'HOUR' } },
+    { maxSpanSeconds: Infinity, interval: { value: 1, unit: 'DAY' } },
+];
+
+export function isRangePreset(value: string): value is RangePreset {
+    return Object.prototype.hasOwnProperty.call(PRESET_SECONDS, value);
+}
+
+/**
+ * Build a range ending now (rounded down to the preset's resolution) for a preset
+ */
+export function resolvePreset(preset: RangePreset, now: Date = new Date()): TimeRange {
+    const resolutionMs = PRESET_RESOLUTION_SECONDS[preset] * 1000;
+    const to = new Date(Math.floor(now.getTime() / resolutionMs) * resolutionMs);
+    return {
+        from: new Date(to.getTime() - PRESET_SECONDS[preset] * 1000),
+        to,
+        preset,
+    };
+}
+
+/**
+ * Parse the time range from request query parameters
+ *
+ * Accepts, in order of precedence:
+ * - from/to: ISO 8601 timestamps or epoch milliseconds (to defaults to now)
+ * - range: one of the presets (1h, 24h, 7d, 30d, 90d)
+ * - period: legacy hour/day values
+ * Falls back to the last hour when nothing is given.
+ */
+export function parseTimeRange(params: URLSearchParams, now: Date = new Date()): TimeRange | { error: string } {
+    const fromParam = params.get('from');
+    const toParam = params.get('to');
+
+    if (fromParam || toParam) {
+        if (!fromParam) {
+            return { error: 'from parameter is required when to is given' };
+        }
+
+        const from = parseTimestamp(fromParam);
+        const to = toParam ? parseTimestamp(toParam) : now;
+
+        if (!from || !to) {
+            return { error: 'Invalid from/to timestamp. Use ISO 8601 or epoch milliseconds.' };
+        }
+        if (from.getTime() >= to.getTime()) {
+            return { error: 'from must be earlier than to' };
+        }
+        if ((to.getTime() - from.getTime()) / 1000 > MAX_RANGE_SECONDS) {
+            return { error: 'Time range cannot exceed 92 days' };
+        }
+
+        return { from, to, preset: null };
+    }
+
+    const rangeParam = params.get('range');
+    if (rangeParam) {
+        if (!isRangePreset(rangeParam)) {
+            return { error: `Invalid range. Use one of: ${Object.keys(PRESET_SECONDS).join(', ')}.` };
+        }
+        return resolvePreset(rangeParam, now);
+    }
+
+    const periodParam = params.get('period');
+    if (periodParam) {
+        const preset = LEGACY_PERIODS[periodParam];
+        if (!preset) {
+            return { error: 'Invalid period. Use "hour" or "day".' };
+        }
+        return resolvePreset(preset, now);
+    }
+
+    return resolvePreset('1h', now);
+}
+
+function parseTimestamp(value: string): Date | null {
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Length of the range in seconds
+ */
+export function rangeDurationSeconds(range: TimeRange): number {
+    return Math.max(1, (range.to.getTime() - range.from.getTime()) / 1000);
+}
+
+/**
+ * The window of equal length immediately before the range, for period-over-period comparison
+ */
+export function previousRange(range: TimeRange): TimeRange {
+    const durationMs = range.to.getTime() - range.from.getTime();
+    return {
+        from: new Date(range.from.getTime() - durationMs),
+        to: new Date(range.from.getTime()),
+        preset: range.preset,
+    };
+}
+
+/**
+ * Pick a toStartOfInterval bucket size appropriate for the span of the range
+ */
+export function bucketIntervalFor(range: TimeRange): BucketInterval {
+    const span = rangeDurationSeconds(range);
+    return BUCKET_STEPS.find(step => span <= step.maxSpanSeconds)!.interval;
+}
+
+/**
+ * Range fields echoed back in API responses
+ */
+export function describeRange(range: TimeRange): RangeInfo {
+    return {
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        preset: range.preset,
+    };
+}
@@ -1,10 +1,19 @@
+import type { QueryCache } from './cache';
+import type { SchemaOverrides } from './schema';
+
 // Environment bindings
 export interface Env {
     DB: D1Database;
     ACCOUNT_ID: string;
     API_TOKEN: string;
     ANALYTICS_DATASET: string;
+    // Column overrides per dataset name, see DEFAULT_SCHEMA in schema.ts
+    ANALYTICS_SCHEMAS?: SchemaOverrides | string;
     DASHBOARD_PASSWORD: string;
+    // "local" runs queries against fixture traffic in D1 instead of the SQL API
+    ANALYTICS_BACKEND?: string;
+    // Per-request Analytics Engine result cache, set by the router (not a binding)
+    QUERY_CACHE?: QueryCache;
 }
 
 // API User from D1
@@ -15,40 +24,226 @@ export interface ApiUser {
     organization: string;
     is_academic: boolean;
     max_per_second: number;
+    max_per_day: number;
+    premium_domain: string | null;
+    expires_at: string | null;
+    created_at: string;
+}
+
+// Recent traffic for a key, shown next to its limits on the API keys page
+export interface ApiKeyUsage {
+    // Newest request within the dormant report's lookback, "YYYY-MM-DD HH:MM:SS" in UTC
+    lastSeen: string | null;
+    // The key was not among the busiest keys read, so it may have traffic
+    // even though lastSeen is null and the counts are zero
+    trafficUnknown: boolean;
+    requests24h: number;
+    requests7d: number;
+    // Percentage of the last 24h of requests with a 2xx status; null without requests
+    successRate: number | null;
+    // Requests per timeline bucket over the last 7 days, oldest first
+    trend: number[];
+}
+
+// Sample-weighted response time percentiles (ms)
+export interface LatencyPercentiles {
+    p50ResponseTime: number;
+    p90ResponseTime: number;
+    p95ResponseTime: number;
+    p99ResponseTime: number;
+}
+
+// Change against the previous window of the same length
+export interface PeriodComparison {
+    previousRequestCount: number;
+    requestCountChange: number;
+    // null when there was no traffic in the previous window
+    requestCountChangePercent: number | null;
+    // null when the row was not ranked in the previous window
+    previousRank: number | null;
+    // Positive when the row moved up the ranking
+    rankChange: number | null;
+}
+
+// Sample-weighted request rates measured over short fixed windows
+export interface RequestRates {
+    peakRequestsPerSecond: number;
+    // 99th percentile over the windows with traffic
+    p99RequestsPerSecond: number;
+}
+
+// Sample-weighted traffic totals of a key, bucket or organization over the range
+export interface UsageTotals {
+    requestCount: number;
+    requestsPerSecond: number;
+    avgResponseTime: number;
+    successRate: number;
+    // Responses with status >= 400
+    errorCount: number;
+    // Responses with status >= 500
+    serverErrorCount: number;
+    // 429 responses
+    throttledCount: number;
 }
 
 // Top user analytics result
-export interface TopUser {
+export interface TopUser extends UsageTotals, LatencyPercentiles, PeriodComparison, RequestRates {
     apiKey: string;
     name: string | null;
     email: string | null;
     organization: string | null;
-    requestCount: number;
-    requestsPerSecond: number;
-    avgResponseTime: number;
-    successRate: number;
 }
 
 // Anonymous user analytics result
-export interface TopAnonymousUser {
+export interface TopAnonymousUser extends UsageTotals, LatencyPercentiles, PeriodComparison, RequestRates {
     bucket: string;
     ipSample: string | null;
     topIp: string | null;
+}
+
+// Organization analytics result: totals across the organization's keys
+export interface TopOrganization extends UsageTotals {
+    organization: string;
+    // Keys registered to the organization, and those with traffic in the range
+    keyCount: number;
+    activeKeyCount: number;
+}
+
+// A key of an organization and its part of the organization's traffic
+export interface OrganizationKeyUsage extends UsageTotals {
+    apiKey: string;
+    name: string | null;
+    email: string | null;
+    // Percentage of the organization's requests
+    share: number;
+}
+
+export interface OrganizationUsage extends TopOrganization, LatencyPercentiles {
+    // Every key of the organization, busiest first
+    keys: OrganizationKeyUsage[];
+}
+
+// Traffic attributed to a premium domain: requests with one of the keys that carry
+// the domain, plus requests without such a key whose referrer is on the domain
+export interface PremiumDomainUsage extends UsageTotals, LatencyPercentiles, PeriodComparison {
+    domain: string;
+    // Keys carrying the domain
+    keyCount: number;
+    keyRequestCount: number;
+    referrerRequestCount: number;
+    // Percentage of requests with status >= 400
+    errorRate: number;
+    // Requests per timeline bucket, oldest first
+    trend: number[];
+}
+
+// Timeline data point
+export interface TimelineDataPoint extends LatencyPercentiles {
+    timestamp: string;
     requestCount: number;
-    requestsPerSecond: number;
+    errorCount: number;
     avgResponseTime: number;
-    successRate: number;
 }
 
-// Timeline data point
-export interface TimelineDataPoint {
+// Timeline data point for one status code (user and anonymous bucket timelines)
+export interface StatusTimelineDataPoint {
+    timestamp: string;
+    statusCode: number;
+    requestCount: number;
+    avgResponseTime: number;
+}
+
+// Who traffic comes from: keys flagged is_academic, other keys (registered or not), or no key
+export type Segment = 'academic' | 'non_academic' | 'anonymous';
+
+// Timeline data point for one segment
+export interface SegmentTimelineDataPoint {
     timestamp: string;
+    segment: Segment;
+    requestCount: number;
+    errorCount: number;
+}
+
+// Timeline series checked for anomalies
+export type AnomalyMetric = 'requestCount' | 'errorRate' | 'avgResponseTime';
+
+// Timeline bucket that deviates from its rolling baseline
+export interface Anomaly {
+    timestamp: string;
+    metric: AnomalyMetric;
+    direction: 'spike' | 'drop';
+    value: number;
+    // Baseline (EWMA) value the bucket was compared against
+    expected: number;
+    zScore: number;
+}
+
+// Named time range presets (ending now)
+export type RangePreset = '1h' | '24h' | '7d' | '30d' | '90d';
+
+// Query time range: [from, to)
+export interface TimeRange {
+    from: Date;
+    to: Date;
+    preset: RangePreset | null;
+}
+
+// toStartOfInterval bucket size for timeline queries
+export interface BucketInterval {
+    value: number;
+    unit: 'MINUTE' | 'HOUR' | 'DAY';
+}
+
+// Response time histogram bin: [minMs, maxMs), maxMs is null for the last bin
+export interface LatencyHistogramBin {
+    minMs: number;
+    maxMs: number | null;
     requestCount: number;
+    percentage: number;
+}
+
+// Traffic for one OpenAlex entity type (works, authors, ...)
+export interface EntityBreakdown {
+    entity: string;
+    requestCount: number;
+    singleCount: number;
+    listCount: number;
+    percentage: number;
     avgResponseTime: number;
+    errorCount: number;
+    errorRate: number;
 }
 
-// Query period type
-export type Period = 'hour' | 'day';
+// Requests using one OpenAlex query feature (filter, search, group_by, ...)
+export interface QueryFeatureUsage {
+    feature: string;
+    requestCount: number;
+    percentage: number;
+    avgResponseTime: number;
+}
+
+// Requests filtering on one field (publication_year, is_oa, ...)
+export interface FilterFieldUsage {
+    field: string;
+    requestCount: number;
+    avgResponseTime: number;
+}
+
+// Requests per per_page value
+export interface PerPageUsage {
+    perPage: string;
+    requestCount: number;
+}
+
+// Query parameter usage summary
+export interface QueryParamUsage {
+    totalRequests: number;
+    // cursor paging beyond the first page (cursor other than *)
+    deepPagingCount: number;
+    features: QueryFeatureUsage[];
+    filterFields: FilterFieldUsage[];
+    perPage: PerPageUsage[];
+}
 
 // Status code breakdown item
 export interface StatusCodeBreakdown {
@@ -57,21 +252,294 @@ export interface StatusCodeBreakdown {
     percentage: number;
 }
 
+// Time range echoed back in API responses
+export interface RangeInfo {
+    from: string;
+    to: string;
+    preset: RangePreset | null;
+}
+
+// Segment echoed back by routes narrowed with ?segment
+export interface SegmentInfo {
+    segment: Segment | null;
+    // Only the busiest keys were checked for is_academic; the rest count as non-academic
+    segmentTruncated: boolean;
+}
+
+// How a key's traffic compares with its D1 rate limits
+export type RateLimitStatus = 'throttled' | 'near_limit' | 'ok' | 'underused' | 'no_limit';
+
+// Observed traffic for one API key against its max_per_second / max_per_day
+export interface RateLimitUsage {
+    apiKey: string;
+    name: string | null;
+    email: string | null;
+    organization: string | null;
+    // null when the key has no limit set (or is not in api_keys_archive)
+    maxPerSecond: number | null;
+    maxPerDay: number | null;
+    requestCount: number;
+    // 429 responses
+    throttledCount: number;
+    throttledRate: number;
+    // Percentage of active timeline buckets that had any 429s
+    throttledBucketShare: number;
+    peakRequestsPerSecond: number;
+    perSecondQuotaPercent: number | null;
+    // Busiest UTC day in the range, or the range total scaled to 24h for ranges under a day
+    dailyRequests: number;
+    dailyRequestsProjected: boolean;
+    dailyQuotaPercent: number | null;
+    status: RateLimitStatus;
+}
+
+export interface RateLimitReport {
+    // Keys with traffic in the range that were compared with their limits
+    keyCount: number;
+    // More keys had traffic than were compared; the quietest are missing
+    keysTruncated: boolean;
+    // Keys closest to (or over) their limits first
+    keys: RateLimitUsage[];
+    throttled: RateLimitUsage[];
+    underused: RateLimitUsage[];
+}
+
+// A key past or near its expires_at, with its traffic in the range
+export interface KeyExpiryUsage {
+    apiKey: string;
+    name: string | null;
+    email: string | null;
+    organization: string | null;
+    expiresAt: string;
+    // Negative once the key has expired
+    daysUntilExpiry: number;
+    requestCount: number;
+    requestsPerDay: number;
+    lastSeen: string | null;
+    // Requests made after expires_at and the status codes they got
+    requestsAfterExpiry: number;
+    statusCodesAfterExpiry: StatusCodeBreakdown[];
+}
+
+export interface KeyExpiryReport {
+    withinDays: number;
+    minRequests: number;
+    // More keys had traffic than were checked against expires_at; quieter ones may be missing
+    keysTruncated: boolean;
+    // Keys used after they expired, busiest first
+    expired: KeyExpiryUsage[];
+    // Keys expiring within withinDays with at least minRequests requests, soonest first
+    expiring: KeyExpiryUsage[];
+}
+
+// A key seen in traffic without an api_keys_archive row: mistyped, revoked or forged
+export interface UnknownKeyUsage {
+    apiKey: string;
+    requestCount: number;
+    // Percentage of requests with status >= 400
+    errorRate: number;
+    firstSeen: string;
+    lastSeen: string;
+    statusCodes: StatusCodeBreakdown[];
+    // Busiest client IPs and user agents sending the key
+    topIps: { ip: string; requestCount: number }[];
+    topUserAgents: { userAgent: string; requestCount: number }[];
+}
+
+export interface UnknownKeyReport {
+    // Unknown keys among those checked and their requests, before the limit
+    keyCount: number;
+    requestCount: number;
+    // More keys had traffic than were checked against api_keys_archive; quieter unknown keys may be missing
+    keysTruncated: boolean;
+    // Busiest first
+    keys: UnknownKeyUsage[];
+}
+
+// A registered key without traffic in the dormancy window
+export interface DormantKey {
+    apiKey: string;
+    name: string | null;
+    email: string | null;
+    organization: string | null;
+    createdAt: string;
+    // null when the key was not seen within the lookback
+    lastSeen: string | null;
+    // Days since lastSeen, or since the start of the lookback or creation when not seen
+    idleDays: number;
+}
+
+// A key whose traffic over the last week fell sharply below its earlier daily average
+export interface DecliningKey {
+    apiKey: string;
+    name: string | null;
+    email: string | null;
+    organization: string | null;
+    recentRequestsPerDay: number;
+    baselineRequestsPerDay: number;
+    dropPercent: number;
+    lastSeen: string | null;
+}
+
+export interface DormantKeyReport {
+    // Days without traffic that make a key dormant (7, 30 or 90)
+    windowDays: number;
+    // Days of traffic looked at, ending now
+    lookbackDays: number;
+    // More keys had traffic than were read; quieter ones may be wrongly listed as dormant or never used
+    keysTruncated: boolean;
+    // Most recently active first; keys not seen in the lookback last
+    dormant: DormantKey[];
+    // Keys created within the lookback that never sent a request, oldest first
+    neverUsed: DormantKey[];
+    // Largest drop in daily requests first
+    declining: DecliningKey[];
+}
+
+
+// Metrics top lists can be ranked by (requestsPerSecond ranks like requestCount)
+export type TopListSort =
+    | 'requestCount'
+    | 'requestsPerSecond'
+    | 'peakRequestsPerSecond'
+    | 'avgResponseTime'
+    | keyof LatencyPercentiles
+    | 'successRate'
+    | 'errorCount'
+    | 'serverErrorCount'
+    | 'throttledCount';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Where a page of a top list starts; validated by the queries
+export interface TopListPage {
+    sort?: string;
+    order?: string;
+    offset?: number;
+}
+
+// One page of rows, ranked and cut by the query itself
+export interface TopList<T> {
+    data: T[];
+    sort: TopListSort;
+    order: SortOrder;
+    // Rows ranked above this page
+    offset: number;
+    // Keys or buckets with traffic in the range, on all pages
+    total: number;
+    // More keys or buckets follow this page
+    truncated: boolean;
+    // Opaque cursor for the next page (same range, sort and order), null on the last page
+    nextCursor: string | null;
+}
+
+// What a search result was found by
+export type SearchMatchField = 'apiKey' | 'name' | 'email' | 'organization' | 'ip' | 'bucket';
+
+export interface SearchResult {
+    type: 'user' | 'anonymous';
+    apiKey: string | null;
+    bucket: string | null;
+    name: string | null;
+    email: string | null;
+    organization: string | null;
+    matchedField: SearchMatchField;
+    // Value that matched (for IP matches, one of the matching addresses)
+    matchedValue: string;
+    // Usage in the range; zero for registered keys without traffic
+    requestCount: number;
+    avgResponseTime: number;
+    successRate: number;
+}
+
 // API response types
-export interface TopUsersResponse {
-    period: Period;
-    data: TopUser[];
+export interface TopUsersResponse extends RangeInfo, SegmentInfo, TopList<TopUser> {
     timestamp: string;
 }
 
-export interface TopAnonymousResponse {
-    period: Period;
-    data: TopAnonymousUser[];
+export interface TopAnonymousResponse extends RangeInfo, SegmentInfo, TopList<TopAnonymousUser> {
     timestamp: string;
 }
 
-export interface TimelineResponse {
-    period: Period;
+export interface SegmentTimelineResponse extends RangeInfo {
+    bucketInterval: BucketInterval;
+    data: SegmentTimelineDataPoint[];
+    // As SegmentInfo.segmentTruncated, for the academic / non-academic split
+    segmentTruncated: boolean;
+    timestamp: string;
+}
+
+export interface TimelineResponse extends RangeInfo, SegmentInfo {
+    bucketInterval: BucketInterval;
     data: TimelineDataPoint[];
+    // Same series for the previous window of equal length
+    previous: RangeInfo & { data: TimelineDataPoint[] };
+    anomalies: Anomaly[];
+    timestamp: string;
+}
+
+export interface LatencyHistogramResponse extends RangeInfo, SegmentInfo {
+    bins: LatencyHistogramBin[];
+    percentiles: LatencyPercentiles;
+    timestamp: string;
+}
+
+export interface RequestRatesResponse extends RangeInfo, SegmentInfo, RequestRates {
+    // Average over the whole range
+    requestsPerSecond: number;
+    windowSeconds: number;
+    timestamp: string;
+}
+
+export interface DormantKeysResponse extends RangeInfo, DormantKeyReport {
+    timestamp: string;
+}
+
+export interface UnknownKeysResponse extends RangeInfo, UnknownKeyReport {
+    timestamp: string;
+}
+
+export interface KeyExpiryResponse extends RangeInfo, KeyExpiryReport {
+    timestamp: string;
+}
+
+export interface RateLimitResponse extends RangeInfo, RateLimitReport {
+    timestamp: string;
+}
+
+export interface TopOrganizationsResponse extends RangeInfo, SegmentInfo {
+    data: TopOrganization[];
+    // Organizations with traffic in the range
+    total: number;
+    truncated: boolean;
+    // More keys had traffic than were rolled up, so totals are understated
+    keysTruncated: boolean;
+    timestamp: string;
+}
+
+export interface OrganizationResponse extends RangeInfo, OrganizationUsage {
+    timestamp: string;
+}
+
+export interface PremiumDomainsResponse extends RangeInfo {
+    bucketInterval: BucketInterval;
+    data: PremiumDomainUsage[];
+    timestamp: string;
+}
+
+export interface SearchResponse extends RangeInfo {
+    query: string;
+    data: SearchResult[];
+    timestamp: string;
+}
+
+/**
+ * Body of every non-2xx API response
+ */
+export interface ApiErrorResponse {
+    error: string;
+    code: string;
+    retryable: boolean;
+    retryAfter?: number;
     timestamp: string;
 }
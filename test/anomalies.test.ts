@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies, seriesFromStatusTimeline } from '../src/anomalies';
+import type { AnomalySeriesPoint } from '../src/anomalies';
+import type { TimeRange } from '../src/types';
+
+// 2h range, which uses 5 minute buckets
+const range: TimeRange = {
+    from: new Date('2024-03-01T10:00:00Z'),
+    to: new Date('2024-03-01T12:00:00Z'),
+    preset: null,
+};
+
+function steadySeries(overrides: Record<number, Partial<AnomalySeriesPoint>> = {}, from: Date = range.from): AnomalySeriesPoint[] {
+    return Array.from({ length: 24 }, (_, i) => {
+        const start = new Date(from.getTime() + i * 5 * 60000);
+        return {
+            timestamp: start.toISOString().slice(0, 19).replace('T', ' '),
+            requestCount: 1000 + (i % 3) * 20,
+            errorCount: 10,
+            avgResponseTime: 200 + (i % 2) * 10,
+            ...overrides[i],
+        };
+    });
+}
+
+describe('detectAnomalies', () => {
+    it('flags nothing on a steady series', () => {
+        expect(detectAnomalies(steadySeries(), range)).toEqual([]);
+    });
+
+    it('flags volume spikes and drops', () => {
+        const anomalies = detectAnomalies(steadySeries({ 12: { requestCount: 5000 }, 18: { requestCount: 100 } }), range);
+        expect(anomalies.filter(a => a.metric === 'requestCount').map(a => [a.timestamp, a.direction])).toEqual([
+            ['2024-03-01 11:00:00', 'spike'],
+            ['2024-03-01 11:30:00', 'drop'],
+        ]);
+    });
+
+    it('flags error rate and latency spikes', () => {
+        const anomalies = detectAnomalies(steadySeries({ 15: { errorCount: 400, avgResponseTime: 2000 } }), range);
+        expect(anomalies.map(a => a.metric).sort()).toEqual(['avgResponseTime', 'errorRate']);
+        expect(anomalies.every(a => a.timestamp === '2024-03-01 11:15:00' && a.direction === 'spike')).toBe(true);
+    });
+
+    it('treats missing buckets as having no traffic', () => {
+        const points = steadySeries().filter((_, i) => i !== 20);
+        const anomalies = detectAnomalies(points, range);
+        expect(anomalies).toEqual([
+            expect.objectContaining({ timestamp: '2024-03-01 11:40:00', metric: 'requestCount', direction: 'drop', value: 0 }),
+        ]);
+    });
+
+    it('does not flag the start of the range without a baseline, but does with one', () => {
+        const spikeAtStart = steadySeries({ 1: { requestCount: 5000 } });
+        expect(detectAnomalies(spikeAtStart, range)).toEqual([]);
+
+        const previous: TimeRange = { from: new Date('2024-03-01T08:00:00Z'), to: range.from, preset: null };
+        const anomalies = detectAnomalies(spikeAtStart, range, { points: steadySeries({}, previous.from), range: previous });
+        expect(anomalies).toEqual([
+            expect.objectContaining({ timestamp: '2024-03-01 10:05:00', metric: 'requestCount', direction: 'spike' }),
+        ]);
+    });
+});
+
+describe('seriesFromStatusTimeline', () => {
+    it('sums status codes per bucket and weights latency by requests', () => {
+        expect(seriesFromStatusTimeline([
+            { timestamp: 't1', statusCode: 200, requestCount: 90, avgResponseTime: 100 },
+            { timestamp: 't1', statusCode: 500, requestCount: 10, avgResponseTime: 1000 },
+            { timestamp: 't2', statusCode: 200, requestCount: 5, avgResponseTime: 50 },
+        ])).toEqual([
+            { timestamp: 't1', requestCount: 100, errorCount: 10, avgResponseTime: 190 },
+            { timestamp: 't2', requestCount: 5, errorCount: 0, avgResponseTime: 50 },
+        ]);
+    });
+});
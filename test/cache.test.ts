@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll, afterEach } from 'vitest';
+import { QueryCache, cacheKey } from '../src/cache';
+import { createTestWorld, createCtx } from './worker';
+import type { TestWorld } from './worker';
+
+let world: TestWorld;
+
+beforeAll(async () => {
+    // Only D1 is needed: no analytics backend, so no fixture traffic is loaded
+    world = await createTestWorld({ ANALYTICS_BACKEND: undefined });
+}, 60000);
+
+afterAll(async () => {
+    await world.dispose();
+});
+
+async function cachedBodies(): Promise<string[]> {
+    const { results } = await world.db.prepare('SELECT body FROM analytics_query_cache ORDER BY stored_at').all<{ body: string }>();
+    return results.map(row => row.body);
+}
+
+describe('cacheKey', () => {
+    it('ignores indentation and blank lines', async () => {
+        expect(await cacheKey('SELECT 1\n    FROM t\n\n')).toBe(await cacheKey('  SELECT 1\nFROM t'));
+    });
+
+    it('keeps spaces inside lines significant', async () => {
+        expect(await cacheKey("WHERE blob6 = 'a  b'")).not.toBe(await cacheKey("WHERE blob6 = 'a b'"));
+    });
+});
+
+describe('QueryCache', () => {
+    beforeEach(async () => {
+        await world.db.prepare('DELETE FROM analytics_query_cache').run();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    // Only Date is faked: D1 calls still need real timers
+    const setNow = (iso: string) => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(iso));
+    };
+
+    it('misses, then hits, then serves stale while refreshing', async () => {
+        setNow('2024-03-01T12:00:00Z');
+        const load = vi.fn(async () => [{ requestCount: load.mock.calls.length }]);
+
+        const firstCtx = createCtx();
+        const first = new QueryCache(world.db, firstCtx);
+        expect(await first.get('SELECT 1', 'timeline', load)).toEqual([{ requestCount: 1 }]);
+        expect(first.status()).toBe('MISS');
+        await Promise.all(firstCtx.pending);
+
+        const second = new QueryCache(world.db, createCtx());
+        expect(await second.get('SELECT 1', 'timeline', load)).toEqual([{ requestCount: 1 }]);
+        expect(second.status()).toBe('HIT');
+        expect(load).toHaveBeenCalledTimes(1);
+
+        // Past the 60s timeline TTL but within the stale window
+        setNow('2024-03-01T12:02:00Z');
+        const ctx = createCtx();
+        const third = new QueryCache(world.db, ctx);
+        expect(await third.get('SELECT 1', 'timeline', load)).toEqual([{ requestCount: 1 }]);
+        expect(third.status()).toBe('STALE');
+        await Promise.all(ctx.pending);
+        // The background refresh queues its own cache write, which replaces the entry
+        await Promise.all(ctx.pending);
+        expect(load).toHaveBeenCalledTimes(2);
+        expect((await cachedBodies()).map(body => JSON.parse(body))).toEqual([[{ requestCount: 2 }]]);
+    });
+
+    it('misses once the stale window is over', async () => {
+        setNow('2024-03-01T12:00:00Z');
+        const load = vi.fn(async () => [{ n: load.mock.calls.length }]);
+        const ctx = createCtx();
+        await new QueryCache(world.db, ctx).get('SELECT 1', 'timeline', load);
+        await Promise.all(ctx.pending);
+
+        // 60s fresh plus 300s stale
+        setNow('2024-03-01T12:06:01Z');
+        const cache = new QueryCache(world.db, createCtx());
+        expect(await cache.get('SELECT 1', 'timeline', load)).toEqual([{ n: 2 }]);
+        expect(cache.status()).toBe('MISS');
+    });
+
+    it('prunes expired entries on some writes', async () => {
+        setNow('2024-03-01T12:00:00Z');
+        const firstCtx = createCtx();
+        await new QueryCache(world.db, firstCtx).get('SELECT 1', 'timeline', async () => [{ n: 1 }]);
+        await Promise.all(firstCtx.pending);
+
+        setNow('2024-03-01T13:00:00Z');
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        const ctx = createCtx();
+        await new QueryCache(world.db, ctx).get('SELECT 2', 'timeline', async () => [{ n: 2 }]);
+        await Promise.all(ctx.pending);
+        expect(await cachedBodies()).toEqual([JSON.stringify([{ n: 2 }])]);
+    });
+
+    it('bypasses reads with fresh but still stores the result', async () => {
+        const ctx = createCtx();
+        const cache = new QueryCache(world.db, ctx, true);
+        const load = vi.fn(async () => [{ n: 1 }]);
+
+        await cache.get('SELECT 1', 'ranking', load);
+        await cache.get('SELECT 1', 'ranking', load);
+        expect(load).toHaveBeenCalledTimes(2);
+        expect(cache.status()).toBe('BYPASS');
+        await Promise.all(ctx.pending);
+        expect(await cachedBodies()).toEqual([JSON.stringify([{ n: 1 }])]);
+
+        const response = cache.withStatusHeaders(new Response('{}', { status: 200 }));
+        expect(response.headers.get('X-Cache-Status')).toBe('BYPASS');
+        expect(response.headers.get('X-Cache-Queries')).toBe('hit=0, stale=0, miss=0, bypass=2');
+    });
+
+    it('treats an unreadable cache as a miss', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await world.db.prepare('ALTER TABLE analytics_query_cache RENAME TO analytics_query_cache_moved').run();
+        try {
+            const ctx = createCtx();
+            const cache = new QueryCache(world.db, ctx);
+            expect(await cache.get('SELECT 1', 'lookup', async () => [{ ok: true }])).toEqual([{ ok: true }]);
+            expect(cache.status()).toBe('MISS');
+            // The failed write is logged, not thrown
+            await Promise.all(ctx.pending);
+        } finally {
+            await world.db.prepare('ALTER TABLE analytics_query_cache_moved RENAME TO analytics_query_cache').run();
+        }
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getTopIpInBucket } from '../src/queries';
+import { AnalyticsEngineError, AnalyticsAuthError, AnalyticsQueryError, AnalyticsRateLimitError, AnalyticsTimeoutError, AnalyticsUnavailableError, errorForStatus } from '../src/errors';
+import type { Env } from '../src/types';
+
+const env = { ACCOUNT_ID: 'acct', API_TOKEN: 'token', ANALYTICS_DATASET: 'openalex_requests_v2' } as Env;
+
+const range = { from: new Date('2024-03-01T10:00:00Z'), to: new Date('2024-03-01T11:00:00Z'), preset: null };
+
+function okResponse(data: unknown[]) {
+    return new Response(JSON.stringify({ data }), { status: 200 });
+}
+
+describe('errorForStatus', () => {
+    it('maps upstream statuses to typed errors', () => {
+        expect(errorForStatus(401)).toBeInstanceOf(AnalyticsAuthError);
+        expect(errorForStatus(403).status).toBe(502);
+        expect(errorForStatus(429, 3)).toMatchObject({ status: 429, retryAfterSeconds: 3, retryable: true });
+        expect(errorForStatus(503)).toBeInstanceOf(AnalyticsUnavailableError);
+        expect(errorForStatus(422)).toBeInstanceOf(AnalyticsQueryError);
+    });
+});
+
+describe('Analytics Engine queries', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('retries rate limits and upstream failures', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '1' } }))
+            .mockResolvedValueOnce(new Response('bad gateway', { status: 502 }))
+            .mockResolvedValueOnce(okResponse([{ ipAddress: '192.0.2.1' }]));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = getTopIpInBucket(env, 'anon_3', range);
+        await vi.runAllTimersAsync();
+        expect(await result).toBe('192.0.2.1');
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the last attempt', async () => {
+        const fetchMock = vi.fn(async () => new Response('unavailable', { status: 503 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = getTopIpInBucket(env, 'anon_3', range);
+        const assertion = expect(result).rejects.toBeInstanceOf(AnalyticsUnavailableError);
+        await vi.runAllTimersAsync();
+        await assertion;
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry auth failures or rejected queries', async () => {
+        const fetchMock = vi.fn(async () => new Response('forbidden', { status: 403 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(getTopIpInBucket(env, 'anon_3', range)).rejects.toBeInstanceOf(AnalyticsAuthError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying when the time budget runs out', async () => {
+        // Every attempt fails slowly, so a third attempt would end well past 30s
+        const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((resolve, reject) => {
+            const timer = setTimeout(() => resolve(new Response('unavailable', { status: 503 })), 14000);
+            init.signal!.addEventListener('abort', () => {
+                clearTimeout(timer);
+                reject(new DOMException('aborted', 'AbortError'));
+            });
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        let settled = false;
+        const result = getTopIpInBucket(env, 'anon_3', range).finally(() => { settled = true; });
+        const assertion = expect(result).rejects.toBeInstanceOf(AnalyticsEngineError);
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(settled).toBe(true);
+        await assertion;
+    });
+
+    it('aborts queries that run past the timeout', async () => {
+        const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = getTopIpInBucket(env, 'anon_3', range);
+        const assertion = expect(result).rejects.toBeInstanceOf(AnalyticsTimeoutError);
+        await vi.advanceTimersByTimeAsync(15000);
+        await assertion;
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,1053 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { getTopUsers, getTopAnonymousUsers, topListPage, searchUsage, getTopOrganizations, getOrganizationUsage, getOrganizationTimeline, getAnonymousStatusBreakdown, getUserStatusBreakdown, getTopUserAgentsForUser, getTopIpInBucket, getSegmentTimeline, getStatusBreakdownAggregate, getUsageTimeline, parseSegment, segmentKeysTruncated, getPremiumDomainUsage, getKeyExpiryReport, getDormantKeyReport, getApiKeyUsage, getUnknownKeyReport, getEntityBreakdownAggregate, getLatencyHistogram, getQueryParamUsageAggregate, getQueryParamUsageForUser, getQueryParamUsageForBucket, getRateLimitCompliance, getRequestRates } from '../src/queries';
+import { LocalAnalyticsBackend } from '../src/sqlite';
+import { QueryValidationError } from '../src/sql';
+import { previousRange } from '../src/timerange';
+import { createTestWorld, localFixtureEnv } from './worker';
+import type { TestWorld } from './worker';
+import type { Env, TimeRange } from '../src/types';
+
+let world: TestWorld;
+
+beforeAll(async () => {
+    world = await createTestWorld({ ANALYTICS_BACKEND: undefined });
+}, 60000);
+
+afterAll(async () => {
+    await world.dispose();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const range: TimeRange = {
+    from: new Date('2024-03-01T10:00:00Z'),
+    to: new Date('2024-03-01T11:00:00Z'),
+    preset: null,
+};
+
+/**
+ * Stub the SQL API: rows for queries containing a marker, no rows otherwise
+ */
+function stubAnalyticsEngine(responses: [string, unknown[]][]) {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const match = responses.find(([marker]) => String(init.body).includes(marker));
+        return new Response(JSON.stringify({ data: match ? match[1] : [] }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+describe('getTopUsers', () => {
+    it('reads one ranked row per key from the query', async () => {
+        // Analytics Engine returns numbers as strings
+        const fetchMock = stubAnalyticsEngine([['sortValue', [
+            { groupKey: 'PFjNXBbH290en1kFI653iL', requestCount: '100', totalResponseTime: '19000', successCount: '90', errorCount: '10', serverErrorCount: '10', throttledCount: '0' },
+            { groupKey: 'iQ6yJzcDBhz0qXkrss9bGL', requestCount: '80', totalResponseTime: '5150', successCount: '50', errorCount: '30', serverErrorCount: '0', throttledCount: '30' },
+            { groupKey: 'unregisteredKey0000001', requestCount: '5', totalResponseTime: '250', successCount: '5', errorCount: '0', serverErrorCount: '0', throttledCount: '0' },
+        ]]]);
+
+        const { data: users, sort, order, total, truncated, nextCursor } = await getTopUsers(world.env, range, 10);
+
+        expect(users.map(user => [user.apiKey, user.requestCount, user.avgResponseTime, user.successRate, user.throttledCount])).toEqual([
+            ['PFjNXBbH290en1kFI653iL', 100, 190, 90, 0],
+            ['iQ6yJzcDBhz0qXkrss9bGL', 80, 64.38, 62.5, 30],
+            ['unregisteredKey0000001', 5, 50, 100, 0],
+        ]);
+        expect(users[0]).toMatchObject({ name: 'Research Data Services', email: 'data-team@example.edu', requestsPerSecond: 0.03, serverErrorCount: 10 });
+        expect(users[2]).toMatchObject({ name: null, organization: null });
+        expect([sort, order, total, truncated, nextCursor]).toEqual(['requestCount', 'desc', 3, false, null]);
+        // Ordered and limited server-side, with one row to spare for the truncation check
+        expect(String(fetchMock.mock.calls[0][1].body)).toMatch(/ORDER BY sortValue DESC, requestCount DESC, groupKey ASC\s+LIMIT 11/);
+    });
+
+    it('flags lists cut at the limit and counts every key', async () => {
+        stubAnalyticsEngine([
+            ['sortValue', [
+                { groupKey: 'a', requestCount: '10', totalResponseTime: '10', successCount: '10', errorCount: '0', serverErrorCount: '0', throttledCount: '0' },
+                { groupKey: 'b', requestCount: '8', totalResponseTime: '8', successCount: '8', errorCount: '0', serverErrorCount: '0', throttledCount: '0' },
+            ]],
+            ['groupCount', [{ groupCount: '42' }]],
+        ]);
+
+        const { data: users, total, truncated, nextCursor } = await getTopUsers(world.env, range, 1);
+        expect(users.map(user => user.apiKey)).toEqual(['a']);
+        expect([total, truncated]).toEqual([42, true]);
+        expect(nextCursor).toEqual(expect.any(String));
+    });
+
+    it('pages with an offset', async () => {
+        const fetchMock = stubAnalyticsEngine([]);
+        expect(await getTopUsers(world.env, range, 10, { offset: 20 })).toMatchObject({ data: [], offset: 20, total: 0 });
+        expect(String(fetchMock.mock.calls[0][1].body)).toMatch(/LIMIT 11 OFFSET 20/);
+        await expect(getTopUsers(world.env, range, 10, { offset: -1 })).rejects.toThrow(QueryValidationError);
+    });
+
+    it('returns nothing without traffic', async () => {
+        const fetchMock = stubAnalyticsEngine([]);
+        expect(await getTopUsers(world.env, range)).toEqual({ data: [], sort: 'requestCount', order: 'desc', offset: 0, total: 0, truncated: false, nextCursor: null });
+        // No follow-up queries for percentiles, rates or the previous ranking
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('looks up the previous window\'s segment before starting the follow-up queries', async () => {
+        // Only the ranking and the first academic key lookup succeed
+        let keyLookups = 0;
+        const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+            const body = String(init.body);
+            if (body.includes('sortValue')) {
+                return new Response(JSON.stringify({ data: [
+                    { groupKey: 'PFjNXBbH290en1kFI653iL', requestCount: '100', totalResponseTime: '19000', successCount: '90', errorCount: '10', serverErrorCount: '10', throttledCount: '0' },
+                ] }));
+            }
+            if (body.includes('ORDER BY requestCount DESC, apiKey') && keyLookups++ === 0) {
+                return new Response(JSON.stringify({ data: [{ apiKey: 'PFjNXBbH290en1kFI653iL', requestCount: '100' }] }));
+            }
+            return new Response('bad query', { status: 400 });
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        // A fresh env, so no earlier academic key lookup is reused
+        await expect(getTopUsers({ ...world.env }, range, 10, {}, 'academic')).rejects.toThrow();
+        expect(fetchMock.mock.calls.some(([, init]) => String(init.body).includes('quantileExactWeighted'))).toBe(false);
+    });
+
+    it('rejects unknown sorts and orders', async () => {
+        const fetchMock = stubAnalyticsEngine([]);
+        await expect(getTopUsers(world.env, range, 10, { sort: 'name' })).rejects.toThrow(QueryValidationError);
+        await expect(getTopUsers(world.env, range, 10, { order: 'up' })).rejects.toThrow(QueryValidationError);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
+
+describe('topListPage', () => {
+    it('reads sort, order and offset', () => {
+        const params = new URLSearchParams({ sort: 'errorCount', order: 'asc', offset: '30' });
+        expect(topListPage(params, range)).toEqual({ range, page: { sort: 'errorCount', order: 'asc', offset: 30 } });
+    });
+
+    it('rejects malformed offsets and cursors', () => {
+        expect(() => topListPage(new URLSearchParams({ offset: '1.5' }), range)).toThrow(QueryValidationError);
+        expect(() => topListPage(new URLSearchParams({ cursor: 'not-a-cursor' }), range)).toThrow(QueryValidationError);
+        expect(() => topListPage(new URLSearchParams({ cursor: btoa('[1,2,3]') }), range)).toThrow(QueryValidationError);
+    });
+});
+
+describe('top lists on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('counts every request of a key exactly', async () => {
+        const { data: users, truncated } = await getTopUsers(env, week, 100);
+        expect(truncated).toBe(false);
+
+        const breakdown = await getUserStatusBreakdown(env, users[0].apiKey, week);
+        expect(users[0].requestCount).toBe(breakdown.reduce((sum, row) => sum + row.requestCount, 0));
+    });
+
+    it.each([
+        ['errorCount', 'desc'],
+        ['throttledCount', 'desc'],
+        ['successRate', 'asc'],
+        ['avgResponseTime', 'desc'],
+        ['p95ResponseTime', 'desc'],
+        ['p50ResponseTime', 'asc'],
+    ] as const)('ranks by %s %s', async (sort, order) => {
+        const { data: users } = await getTopUsers(env, week, 100, { sort, order });
+        const values = users.map(user => user[sort]);
+        const expected = [...values].sort((a, b) => order === 'asc' ? a - b : b - a);
+        expect(values).toEqual(expected);
+        expect(new Set(values).size).toBeGreaterThan(1);
+
+        const { data: buckets } = await getTopAnonymousUsers(env, week, 100, { sort, order });
+        const bucketValues = buckets.map(bucket => bucket[sort]);
+        expect(bucketValues).toEqual([...bucketValues].sort((a, b) => order === 'asc' ? a - b : b - a));
+    });
+
+    it('walks every key page by page with cursors', async () => {
+        const { data: all, total } = await getTopUsers(env, week, 100);
+        const paged: string[] = [];
+        let page = topListPage(new URLSearchParams(), week);
+        for (;;) {
+            const result = await getTopUsers(env, page.range, 3, page.page);
+            expect(result.total).toBe(total);
+            paged.push(...result.data.map(user => user.apiKey));
+            if (!result.nextCursor) {
+                break;
+            }
+            page = topListPage(new URLSearchParams({ cursor: result.nextCursor }), week);
+        }
+        expect(paged).toEqual(all.map(user => user.apiKey));
+    });
+
+    it('keeps the same order when truncating', async () => {
+        const { data: all } = await getTopUsers(env, week, 100);
+        const { data: top, truncated } = await getTopUsers(env, week, 3);
+        expect(truncated).toBe(true);
+        expect(top.map(user => user.apiKey)).toEqual(all.slice(0, 3).map(user => user.apiKey));
+    });
+});
+
+describe('searchUsage on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('finds registered keys by organization, busiest first', async () => {
+        const results = await searchUsage(env, 'example university', week);
+        expect(results.map(result => [result.apiKey, result.matchedField])).toEqual([
+            ['PFjNXBbH290en1kFI653iL', 'organization'],
+            ['bHvkxYNQBRU27L2kUTI8G5', 'organization'],
+            ['8ryTiqDVcv8CjSnpdPsfC0', 'organization'],
+            ['Mn4bVc6XzL9kJh2Gf5Ds8A', 'organization'],
+        ]);
+        // Registered but without traffic
+        expect(results[3]).toMatchObject({ name: 'New Key', requestCount: 0 });
+    });
+
+    it('finds unregistered keys by part of the key', async () => {
+        const [result] = await searchUsage(env, 'VbwnzSqa', week);
+        expect(result).toMatchObject({ type: 'user', apiKey: 'GVbwnzSqaVtguqQx7x2Kkg', name: null, matchedField: 'apiKey', requestCount: 138 });
+    });
+
+    it('finds the keys and buckets behind an IP address', async () => {
+        const results = await searchUsage(env, '203.158.146.19', week);
+        expect(results.map(result => [result.type, result.apiKey ?? result.bucket, result.matchedValue])).toEqual([
+            ['anonymous', 'anon_3', '203.158.146.19'],
+            ['user', 'GVbwnzSqaVtguqQx7x2Kkg', '203.158.146.19'],
+        ]);
+    });
+
+    it('ranks exact matches first', async () => {
+        const results = await searchUsage(env, 'anon_3', week);
+        expect(results[0]).toMatchObject({ type: 'anonymous', bucket: 'anon_3', matchedField: 'bucket', requestCount: 1074 });
+    });
+
+    it('rejects terms that are too short', async () => {
+        await expect(searchUsage(env, ' a ', week)).rejects.toThrow(QueryValidationError);
+    });
+});
+
+describe('organizations on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('sums traffic across the keys of each organization', async () => {
+        const { data, total, truncated, keysTruncated } = await getTopOrganizations(env, week, 3);
+        expect(data.map(org => [org.organization, org.requestCount, org.activeKeyCount, org.keyCount])).toEqual([
+            ['Example University', 8800, 3, 4],
+            ['Bibliometrics Inc', 3555, 1, 1],
+            ['Example College London', 1850, 2, 2],
+        ]);
+        // Unregistered keys and organizations without traffic are left out
+        expect([total, truncated]).toEqual([5, true]);
+        // Every active key was rolled up
+        expect(keysTruncated).toBe(false);
+    });
+
+    it('lists every member key with its share', async () => {
+        const usage = await getOrganizationUsage(env, 'Example University', week);
+        expect(usage).toMatchObject({ requestCount: 8800, keyCount: 4, activeKeyCount: 3 });
+        expect(usage!.keys.map(key => [key.apiKey, key.requestCount, key.share])).toEqual([
+            ['PFjNXBbH290en1kFI653iL', 5538, 62.93],
+            ['bHvkxYNQBRU27L2kUTI8G5', 2417, 27.47],
+            ['8ryTiqDVcv8CjSnpdPsfC0', 845, 9.6],
+            ['Mn4bVc6XzL9kJh2Gf5Ds8A', 0, 0],
+        ]);
+        expect(usage!.p50ResponseTime).toBeGreaterThan(0);
+    });
+
+    it('adds up the timeline of every member key', async () => {
+        const timeline = await getOrganizationTimeline(env, 'Example College London', week);
+        expect(timeline.reduce((sum, point) => sum + point.requestCount, 0)).toBe(1850);
+    });
+
+    it('returns nothing for unknown organizations', async () => {
+        expect(await getOrganizationUsage(env, 'Nowhere', week)).toBeNull();
+        expect(await getOrganizationTimeline(env, 'Nowhere', week)).toEqual([]);
+    });
+});
+
+describe('segments on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('keeps academic keys in the academic segment', async () => {
+        const { data, total } = await getTopUsers(env, week, 100, {}, 'academic');
+        expect(data.map(user => [user.apiKey, user.requestCount])).toEqual([
+            ['PFjNXBbH290en1kFI653iL', 5538],
+            ['bHvkxYNQBRU27L2kUTI8G5', 2417],
+            ['o9auaCEz8xKXRe04MTgQZA', 1159],
+            ['8ryTiqDVcv8CjSnpdPsfC0', 845],
+            ['t4th98mwDhmPuB6bVjjBZk', 691],
+        ]);
+        expect(total).toBe(5);
+    });
+
+    it('counts unregistered keys as non-academic', async () => {
+        const { data } = await getTopUsers(env, week, 100, {}, 'non_academic');
+        expect(data.map(user => user.apiKey)).toEqual([
+            'iQ6yJzcDBhz0qXkrss9bGL',
+            'xasTHfHPlreMOr2yr0YJHh',
+            'oWdPkrilOXZ6O56j5BPhf7',
+            'EIGPRia8plWrR42ioukRJO',
+            'GVbwnzSqaVtguqQx7x2Kkg',
+        ]);
+    });
+
+    it('checks every active key for is_academic', async () => {
+        expect(await segmentKeysTruncated(env, 'academic', week)).toBe(false);
+        expect(await segmentKeysTruncated(env, 'anonymous', week)).toBe(false);
+    });
+
+    it('has no anonymous buckets outside the anonymous segment', async () => {
+        expect((await getTopAnonymousUsers(env, week, 10, {}, 'academic')).data).toEqual([]);
+        expect((await getTopUsers(env, week, 10, {}, 'anonymous')).data).toEqual([]);
+    });
+
+    it('splits the timeline into segments that add up to all traffic', async () => {
+        const [segments, all, academic] = await Promise.all([
+            getSegmentTimeline(env, week),
+            getUsageTimeline(env, week),
+            getStatusBreakdownAggregate(env, week, 'academic'),
+        ]);
+        const sum = (points: { requestCount: number }[]) => points.reduce((total, point) => total + point.requestCount, 0);
+        expect(sum(segments)).toBe(sum(all));
+        expect(sum(segments.filter(point => point.segment === 'academic'))).toBe(5538 + 2417 + 1159 + 845 + 691);
+        expect(sum(academic)).toBe(5538 + 2417 + 1159 + 845 + 691);
+    });
+
+    it('rejects unknown segments', () => {
+        expect(parseSegment(null)).toBeNull();
+        expect(parseSegment('anonymous')).toBe('anonymous');
+        expect(() => parseSegment('commercial')).toThrow(QueryValidationError);
+    });
+});
+
+describe('premium domains on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('attributes traffic by key and by referrer', async () => {
+        // Some requests with the bibliometrics and scholarapp keys were referred from
+        // scholar.example.edu; they stay with the key, whose totals match getTopUsers
+        const data = await getPremiumDomainUsage(env, week);
+        expect(data.map(domain => [domain.domain, domain.keyRequestCount, domain.referrerRequestCount > 0])).toEqual([
+            ['bibliometrics.example.com', 3555, false],
+            ['scholar.example.edu', 0, true],
+            ['scholarapp.example.org', 1407, false],
+        ]);
+        for (const domain of data) {
+            expect(domain.keyRequestCount + domain.referrerRequestCount).toBe(domain.requestCount);
+            expect(domain.trend.reduce((sum, count) => sum + count, 0)).toBe(domain.requestCount);
+            expect(domain.errorRate).toBe(Math.round((domain.errorCount / domain.requestCount) * 10000) / 100);
+        }
+    });
+});
+
+describe('premium domain referrers', () => {
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'blob7', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:00:00', 'anon_1_200', '', 'https://Scholar.Example.edu/search?q=x', 100, 200, 3],
+            ['2024-03-01 10:01:00', 'anon_1_200', '', 'https://www.scholar.example.edu', 100, 200, 2],
+            ['2024-03-01 10:02:00', 'anon_1_200', '', 'https://notscholar.example.edu/', 100, 200, 7],
+            ['2024-03-01 10:03:00', 'anon_1_200', '', 'https://scholar.example.edu.evil.test/', 100, 200, 11],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'premium_referrers', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('matches the domain and its subdomains in any case, but not look-alike hosts', async () => {
+        const data = await getPremiumDomainUsage(env, recent);
+        expect(data.find(domain => domain.domain === 'scholar.example.edu')).toMatchObject({ requestCount: 5, referrerRequestCount: 5 });
+        expect(data.reduce((sum, domain) => sum + domain.requestCount, 0)).toBe(5);
+    });
+});
+
+describe('key expiry on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('reports traffic after expiry with its status codes', async () => {
+        const { expired, keysTruncated } = await getKeyExpiryReport(env, week);
+        expect(expired.map(key => key.apiKey)).toEqual(['o9auaCEz8xKXRe04MTgQZA']);
+        expect(keysTruncated).toBe(false);
+        const [key] = expired;
+        // The key expired three days ago, part way through the range
+        expect(key.daysUntilExpiry).toBe(-3);
+        expect(key.requestsAfterExpiry).toBeGreaterThan(0);
+        expect(key.requestsAfterExpiry).toBeLessThan(key.requestCount);
+        expect(key.statusCodesAfterExpiry.reduce((sum, row) => sum + row.requestCount, 0)).toBe(key.requestsAfterExpiry);
+    });
+
+    it('lists busy keys expiring within the window, soonest first', async () => {
+        const report = await getKeyExpiryReport(env, week, 30, 1000);
+        expect(report.expiring.map(key => [key.apiKey, key.daysUntilExpiry, key.requestCount])).toEqual([
+            ['iQ6yJzcDBhz0qXkrss9bGL', 20, 3555],
+        ]);
+
+        const wider = await getKeyExpiryReport(env, week, 200, 100);
+        expect(wider.expiring.map(key => key.apiKey)).toEqual([
+            't4th98mwDhmPuB6bVjjBZk',
+            'iQ6yJzcDBhz0qXkrss9bGL',
+            'xasTHfHPlreMOr2yr0YJHh',
+        ]);
+        expect(wider.expiring[0].requestsAfterExpiry).toBe(0);
+    });
+});
+
+describe('unknown keys on fixture traffic', () => {
+    let env: Env;
+    let week: TimeRange;
+
+    beforeAll(async () => {
+        ({ env, week } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('reports the unregistered keys in traffic, busiest first', async () => {
+        const report = await getUnknownKeyReport(env, week);
+        expect(report.keyCount).toBe(2);
+        expect(report.requestCount).toBe(343 + 138);
+        // Every key with traffic was checked
+        expect(report.keysTruncated).toBe(false);
+        expect(report.keys.map(key => [key.apiKey, key.requestCount])).toEqual([
+            ['EIGPRia8plWrR42ioukRJO', 343],
+            ['GVbwnzSqaVtguqQx7x2Kkg', 138],
+        ]);
+
+        const [key] = report.keys;
+        expect(key.statusCodes.reduce((sum, row) => sum + row.requestCount, 0)).toBe(key.requestCount);
+        const errors = key.statusCodes.filter(row => row.statusCode >= 400).reduce((sum, row) => sum + row.requestCount, 0);
+        expect(key.errorRate).toBeCloseTo((errors / key.requestCount) * 100, 1);
+        expect(key.topIps).toEqual([{ ip: '203.23.173.18', requestCount: 343 }]);
+        expect(key.topUserAgents[0].requestCount).toBeGreaterThanOrEqual(key.topUserAgents[1].requestCount);
+        expect(key.firstSeen < key.lastSeen).toBe(true);
+    });
+
+    it('counts every unknown key when listing fewer', async () => {
+        const report = await getUnknownKeyReport(env, week, 1);
+        expect(report.keyCount).toBe(2);
+        expect(report.requestCount).toBe(343 + 138);
+        expect(report.keys.map(key => key.apiKey)).toEqual(['EIGPRia8plWrR42ioukRJO']);
+    });
+});
+
+describe('unknown keys sent from many IPs', () => {
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'blob2', 'blob6', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ...[7, 6, 5, 4, 3, 2, 1].map((requests, i) =>
+                ['2024-03-01 10:10:00', 'unknownKeyManyIps00001', 'unknownKeyManyIps00001', `192.0.2.${i + 1}`, `client/${i + 1}`, 100, 401, requests]),
+            ['2024-03-01 10:20:00', 'unknownKeyOneIp0000001', 'unknownKeyOneIp0000001', '198.51.100.1', 'curl/8.0', 100, 401, 2],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'unknown_key_ips', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('lists the busiest IPs and user agents of each key', async () => {
+        const { keys } = await getUnknownKeyReport(env, recent);
+        expect(keys.map(key => [key.apiKey, key.topIps.map(ip => ip.ip), key.topUserAgents.length])).toEqual([
+            ['unknownKeyManyIps00001', ['192.0.2.1', '192.0.2.2', '192.0.2.3', '192.0.2.4', '192.0.2.5'], 5],
+            ['unknownKeyOneIp0000001', ['198.51.100.1'], 1],
+        ]);
+        // Statuses are not cut per key
+        expect(keys[0].statusCodes).toEqual([{ statusCode: 401, requestCount: 28, percentage: 100 }]);
+    });
+});
+
+describe('dormant keys on fixture traffic', () => {
+    let env: Env;
+
+    beforeAll(async () => {
+        ({ env } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('finds registered keys without traffic', async () => {
+        const report = await getDormantKeyReport(env, 7);
+        expect(report.keysTruncated).toBe(false);
+        // Zk3v predates the lookback, so it counts as dormant; Mn4b was created two days ago
+        expect(report.dormant.map(key => key.apiKey)).toEqual(['Zk3vQp8LwN2rT5yH7cJ1aB']);
+        expect(report.dormant[0].lastSeen).toBeNull();
+        expect(report.dormant[0].idleDays).toBe(90);
+        expect(report.neverUsed.map(key => key.apiKey)).toEqual(['Mn4bVc6XzL9kJh2Gf5Ds8A']);
+        // Fixture traffic only covers the last week, so there is no baseline to fall from
+        expect(report.declining).toEqual([]);
+    });
+
+    it('rejects windows other than 7, 30 and 90 days', async () => {
+        await expect(getDormantKeyReport(env, 14)).rejects.toThrow(QueryValidationError);
+    });
+});
+
+describe('API key usage on fixture traffic', () => {
+    let env: Env;
+
+    beforeAll(async () => {
+        ({ env } = await localFixtureEnv(world));
+    }, 60000);
+
+    it('summarizes recent traffic for each key', async () => {
+        const usage = await getApiKeyUsage(env, ['PFjNXBbH290en1kFI653iL', 'Zk3vQp8LwN2rT5yH7cJ1aB']);
+
+        const busy = usage.get('PFjNXBbH290en1kFI653iL')!;
+        expect(busy.lastSeen).not.toBeNull();
+        expect(busy.requests24h).toBeGreaterThan(0);
+        expect(busy.requests24h).toBeLessThan(busy.requests7d);
+        expect(busy.successRate).toBeGreaterThan(0);
+        expect(busy.successRate).toBeLessThanOrEqual(100);
+        expect(busy.trend.reduce((sum, count) => sum + count, 0)).toBe(busy.requests7d);
+
+        // Registered but silent: zeros, with the same trend length as the busy key
+        expect(usage.get('Zk3vQp8LwN2rT5yH7cJ1aB')).toEqual({
+            lastSeen: null,
+            // Every key with traffic was read, so no traffic means idle
+            trafficUnknown: false,
+            requests24h: 0,
+            requests7d: 0,
+            successRate: null,
+            trend: new Array(busy.trend.length).fill(0),
+        });
+    });
+
+    it('reads trends only for the listed keys with traffic', async () => {
+        const fetchMock = stubAnalyticsEngine([['requests7d', [
+            { apiKey: 'PFjNXBbH290en1kFI653iL', lastSeen: '2024-03-01 10:00:00', requests24h: '5', requests7d: '9', successCount24h: '5' },
+            { apiKey: 'EIGPRia8plWrR42ioukRJO', lastSeen: '2024-03-01 10:00:00', requests24h: '1', requests7d: '1', successCount24h: '0' },
+        ]]]);
+        await getApiKeyUsage(world.env, ['PFjNXBbH290en1kFI653iL', 'Zk3vQp8LwN2rT5yH7cJ1aB']);
+
+        const trendQuery = String(fetchMock.mock.calls[1][1].body);
+        expect(trendQuery).toContain("IN ('PFjNXBbH290en1kFI653iL')");
+        expect(trendQuery).not.toContain('EIGPRia8plWrR42ioukRJO');
+    });
+
+    it('marks keys past the busiest read as unknown rather than idle', async () => {
+        const rows = Array.from({ length: 10001 }, (_, i) => ({ apiKey: `busyKey${i}`, lastSeen: '2024-03-01 10:00:00', requests24h: '1', requests7d: '1', successCount24h: '1' }));
+        stubAnalyticsEngine([['requests7d', rows]]);
+        const usage = await getApiKeyUsage(world.env, ['busyKey0', 'Zk3vQp8LwN2rT5yH7cJ1aB']);
+        expect(usage.get('busyKey0')).toMatchObject({ trafficUnknown: false, requests7d: 1 });
+        expect(usage.get('Zk3vQp8LwN2rT5yH7cJ1aB')).toMatchObject({ trafficUnknown: true, lastSeen: null });
+    });
+});
+
+describe('dormant keys on older traffic', () => {
+    // Times relative to the newest row, which the backend moves to now
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-06-01 12:00:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 100, 200, 1000],
+            ['2024-06-10 12:00:00', 'bHvkxYNQBRU27L2kUTI8G5', 'bHvkxYNQBRU27L2kUTI8G5', 100, 200, 5],
+            ['2024-06-20 12:00:00', 'o9auaCEz8xKXRe04MTgQZA', 'o9auaCEz8xKXRe04MTgQZA', 100, 200, 50],
+            ['2024-06-29 12:00:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 100, 200, 1],
+            ['2024-06-30 12:00:00', 'o9auaCEz8xKXRe04MTgQZA', 'o9auaCEz8xKXRe04MTgQZA', 100, 200, 50],
+        ],
+    };
+    let env: Env;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'dormant_keys', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+    });
+
+    it('reports keys idle for the whole window', async () => {
+        const week = await getDormantKeyReport(env, 7);
+        const bHvk = week.dormant.find(key => key.apiKey === 'bHvkxYNQBRU27L2kUTI8G5');
+        expect(bHvk?.idleDays).toBe(20);
+        expect(week.dormant.map(key => key.apiKey)).not.toContain('PFjNXBbH290en1kFI653iL');
+        // Seen in the lookback, so not never used even though created within it
+        expect(week.neverUsed.map(key => key.apiKey)).not.toContain('o9auaCEz8xKXRe04MTgQZA');
+
+        const month = await getDormantKeyReport(env, 30);
+        expect(month.dormant.map(key => key.apiKey)).not.toContain('bHvkxYNQBRU27L2kUTI8G5');
+    });
+
+    it('reports keys far below their baseline', async () => {
+        const { declining } = await getDormantKeyReport(env, 30);
+        // o9au keeps its pace and bHvk is below the minimum baseline
+        expect(declining.map(key => key.apiKey)).toEqual(['PFjNXBbH290en1kFI653iL']);
+        const [key] = declining;
+        // 1000 requests over the 83 days before the last week, 1 in the last week
+        expect(key.baselineRequestsPerDay).toBe(12);
+        expect(key.recentRequestsPerDay).toBe(0.1);
+        expect(key.dropPercent).toBeGreaterThan(98);
+    });
+});
+
+describe('anonymous bucket expressions', () => {
+    // Rows for buckets whose names are prefixes of each other
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'blob2', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:10:00', 'anon_1_200', '', '192.0.2.1', 100, 200, 3],
+            ['2024-03-01 10:20:00', 'anon_1_503', '', '192.0.2.1', 900, 503, 1],
+            ['2024-03-01 10:30:00', 'anon_10_200', '', '192.0.2.10', 200, 200, 5],
+            ['2024-03-01 10:40:00', 'anon_123_200', '', '192.0.2.123', 300, 200, 2],
+            ['2024-03-01 10:50:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', '192.0.2.200', 50, 200, 7],
+            ['2024-03-01 10:55:00', 'not-a-bucket', '', '192.0.2.201', 10, 200, 9],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'bucket_prefixes', ANALYTICS_BACKEND: 'local' };
+        // Seeds the table (newest row at the current time) before the queries reach it
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('groups index keys into buckets without mixing prefixes', async () => {
+        const { data: buckets, truncated } = await getTopAnonymousUsers(env, recent);
+        expect(buckets.map(bucket => [bucket.bucket, bucket.ipSample, bucket.requestCount, bucket.avgResponseTime, bucket.successRate])).toEqual([
+            ['anon_10', '192.0.2.10', 5, 200, 100],
+            ['anon_1', '192.0.2.1', 4, 300, 75],
+            ['anon_123', '192.0.2.123', 2, 300, 100],
+        ]);
+        expect(truncated).toBe(false);
+    });
+
+    it('attributes percentiles and rates to the right bucket', async () => {
+        const { data: buckets } = await getTopAnonymousUsers(env, recent);
+        expect(buckets.map(bucket => [bucket.bucket, bucket.requestCount, bucket.p50ResponseTime, bucket.peakRequestsPerSecond])).toEqual([
+            ['anon_10', 5, 200, 0.5],
+            ['anon_1', 4, 100, 0.3],
+            ['anon_123', 2, 300, 0.2],
+        ]);
+    });
+
+    it('ranks buckets by their busiest window', async () => {
+        const { data: buckets } = await getTopAnonymousUsers(env, recent, 10, { sort: 'peakRequestsPerSecond', order: 'asc' });
+        expect(buckets.map(bucket => [bucket.bucket, bucket.peakRequestsPerSecond])).toEqual([
+            ['anon_123', 0.2],
+            ['anon_1', 0.3],
+            ['anon_10', 0.5],
+        ]);
+    });
+
+    it('scopes a bucket to its own index keys', async () => {
+        const breakdown = await getAnonymousStatusBreakdown(env, 'anon_1', recent);
+        expect(breakdown.map(row => [row.statusCode, row.requestCount])).toEqual([[200, 3], [503, 1]]);
+    });
+});
+
+describe('period comparison', () => {
+    // Two hours of traffic: the newest row is moved to now, so the first five rows fall in the previous hour
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:10:00', 'anon_1_200', '', 100, 200, 4],
+            ['2024-03-01 10:15:00', 'anon_2_200', '', 100, 200, 12],
+            ['2024-03-01 10:20:00', 'iQ6yJzcDBhz0qXkrss9bGL', 'iQ6yJzcDBhz0qXkrss9bGL', 100, 200, 15],
+            ['2024-03-01 10:30:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 100, 200, 20],
+            ['2024-03-01 10:40:00', 'bHvkxYNQBRU27L2kUTI8G5', 'bHvkxYNQBRU27L2kUTI8G5', 100, 200, 10],
+            ['2024-03-01 11:20:00', 'o9auaCEz8xKXRe04MTgQZA', 'o9auaCEz8xKXRe04MTgQZA', 100, 200, 5],
+            ['2024-03-01 11:30:00', 'bHvkxYNQBRU27L2kUTI8G5', 'bHvkxYNQBRU27L2kUTI8G5', 100, 200, 30],
+            ['2024-03-01 11:40:00', 'anon_1_200', '', 100, 200, 8],
+            ['2024-03-01 12:00:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 100, 200, 10],
+        ],
+    };
+    let env: Env;
+    let lastHour: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'two_hours', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        lastHour = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('compares each key with its count and rank in the previous window', async () => {
+        const { data: users } = await getTopUsers(env, lastHour);
+        expect(users.map(user => [user.apiKey, user.requestCount, user.previousRequestCount, user.requestCountChange, user.requestCountChangePercent, user.previousRank, user.rankChange])).toEqual([
+            ['bHvkxYNQBRU27L2kUTI8G5', 30, 10, 20, 200, 3, 2],
+            ['PFjNXBbH290en1kFI653iL', 10, 20, -10, -50, 1, -1],
+            // Without traffic in the previous window there is no percentage or rank to compare with
+            ['o9auaCEz8xKXRe04MTgQZA', 5, 0, 5, null, null, null],
+        ]);
+    });
+
+    it('ranks a page of keys against every key of the previous window', async () => {
+        // Latencies tie, so the previous window ranks PFjN, iQ6y, bHvk by request count
+        for (const sort of ['p50ResponseTime', 'avgResponseTime', 'peakRequestsPerSecond'] as const) {
+            const { data: [user] } = await getTopUsers(env, lastHour, 1, { sort });
+            expect(user).toMatchObject({ apiKey: 'bHvkxYNQBRU27L2kUTI8G5', previousRequestCount: 10, previousRank: 3 });
+        }
+        const { data: [user] } = await getTopUsers(env, lastHour, 1, { sort: 'p99ResponseTime', order: 'asc' });
+        expect(user).toMatchObject({ apiKey: 'bHvkxYNQBRU27L2kUTI8G5', previousRank: 3 });
+    });
+
+    it('compares each bucket with the previous window', async () => {
+        const { data: [bucket] } = await getTopAnonymousUsers(env, lastHour);
+        expect(bucket).toMatchObject({
+            bucket: 'anon_1',
+            requestCount: 8,
+            previousRequestCount: 4,
+            requestCountChangePercent: 100,
+            previousRank: 2,
+            rankChange: 1,
+        });
+    });
+
+    it('reads the timeline of the previous window', async () => {
+        const previous = await getUsageTimeline(env, previousRange(lastHour));
+        expect(previous.reduce((sum, point) => sum + point.requestCount, 0)).toBe(61);
+    });
+});
+
+describe('rate limit compliance', () => {
+    // Keys against the limits in api_keys_archive: iQ6y allows 1/s, xasT 20/s, the others 10/s
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:50:00', 'iQ6yJzcDBhz0qXkrss9bGL', 'iQ6yJzcDBhz0qXkrss9bGL', 100, 200, 3],
+            ['2024-03-01 10:50:00', 'iQ6yJzcDBhz0qXkrss9bGL', 'iQ6yJzcDBhz0qXkrss9bGL', 5, 429, 2],
+            ['2024-03-01 11:00:00', 'xasTHfHPlreMOr2yr0YJHh', 'xasTHfHPlreMOr2yr0YJHh', 100, 200, 1],
+            ['2024-03-01 11:10:00', 'EIGPRia8plWrR42ioukRJO', 'EIGPRia8plWrR42ioukRJO', 100, 401, 2],
+            ['2024-03-01 11:30:00', 'bHvkxYNQBRU27L2kUTI8G5', 'bHvkxYNQBRU27L2kUTI8G5', 100, 200, 1],
+            ['2024-03-01 11:40:00', 'iQ6yJzcDBhz0qXkrss9bGL', 'iQ6yJzcDBhz0qXkrss9bGL', 5, 429, 1],
+            ['2024-03-01 11:45:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 100, 200, 9],
+        ],
+    };
+    let env: Env;
+    let hour: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'rate_limits', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        const to = new Date(Date.now() + 60000);
+        hour = { from: new Date(to.getTime() - 3600000), to, preset: null };
+    });
+
+    it('ranks keys by how much of their limits they use', async () => {
+        const report = await getRateLimitCompliance(env, hour);
+        expect([report.keyCount, report.keysTruncated]).toEqual([5, false]);
+        expect(report.keys.map(key => [key.apiKey, key.peakRequestsPerSecond, key.perSecondQuotaPercent, key.status])).toEqual([
+            ['iQ6yJzcDBhz0qXkrss9bGL', 5, 500, 'throttled'],
+            ['PFjNXBbH290en1kFI653iL', 9, 90, 'near_limit'],
+            ['bHvkxYNQBRU27L2kUTI8G5', 1, 10, 'ok'],
+            ['xasTHfHPlreMOr2yr0YJHh', 1, 5, 'underused'],
+            // Not in api_keys_archive, so there is no limit to compare with
+            ['EIGPRia8plWrR42ioukRJO', 2, null, 'no_limit'],
+        ]);
+    });
+
+    it('counts 429s and the buckets they fell in', async () => {
+        const { throttled } = await getRateLimitCompliance(env, hour);
+        expect(throttled).toHaveLength(1);
+        expect(throttled[0]).toMatchObject({
+            apiKey: 'iQ6yJzcDBhz0qXkrss9bGL',
+            maxPerSecond: 1,
+            requestCount: 6,
+            throttledCount: 3,
+            throttledRate: 50,
+            throttledBucketShare: 100,
+        });
+    });
+
+    it('projects the daily total of ranges under a day', async () => {
+        const { keys, underused } = await getRateLimitCompliance(env, hour);
+        expect(keys.find(key => key.apiKey === 'PFjNXBbH290en1kFI653iL')).toMatchObject({
+            dailyRequests: 216,
+            dailyRequestsProjected: true,
+            dailyQuotaPercent: 0.22,
+        });
+        expect(underused.map(key => key.apiKey)).toEqual(['xasTHfHPlreMOr2yr0YJHh']);
+    });
+});
+
+describe('peak request rates', () => {
+    const row = (time: Date, apiKey: string, sampleInterval: number) =>
+        [time.toISOString().slice(0, 19).replace('T', ' '), apiKey, apiKey, 100, 200, sampleInterval];
+    const start = Date.parse('2024-03-01T10:00:00Z');
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            // One request every 20 seconds, then a burst of 500 in a single window
+            ...Array.from({ length: 100 }, (_, i) => row(new Date(start + i * 20000), 'PFjNXBbH290en1kFI653iL', 1)),
+            row(new Date('2024-03-01T10:40:00Z'), 'PFjNXBbH290en1kFI653iL', 500),
+            // More requests in total, but never more than 200 in a window
+            ...[0, 20, 40, 60, 300].map(seconds => row(new Date(Date.parse('2024-03-01T10:50:00Z') + seconds * 1000), 'bHvkxYNQBRU27L2kUTI8G5', 200)),
+        ],
+    };
+    let env: Env;
+    let hour: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'bursts', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        const to = new Date(Date.now() + 60000);
+        hour = { from: new Date(to.getTime() - 3600000), to, preset: null };
+    });
+
+    it('finds the busiest window that the average hides', async () => {
+        const rates = await getRequestRates(env, hour, 'PFjNXBbH290en1kFI653iL');
+        expect(rates).toEqual({
+            requestsPerSecond: 0.17,
+            peakRequestsPerSecond: 50,
+            // 100 of the 101 windows with traffic had one request
+            p99RequestsPerSecond: 0.1,
+        });
+    });
+
+    it('reports rates in the top list and ranks by them', async () => {
+        const { data: byCount } = await getTopUsers(env, hour);
+        expect(byCount.map(user => [user.apiKey, user.requestCount, user.peakRequestsPerSecond, user.p99RequestsPerSecond])).toEqual([
+            ['bHvkxYNQBRU27L2kUTI8G5', 1000, 20, 20],
+            ['PFjNXBbH290en1kFI653iL', 600, 50, 0.1],
+        ]);
+
+        const { data: byPeak } = await getTopUsers(env, hour, 10, { sort: 'peakRequestsPerSecond', order: 'desc' });
+        expect(byPeak.map(user => user.apiKey)).toEqual(['PFjNXBbH290en1kFI653iL', 'bHvkxYNQBRU27L2kUTI8G5']);
+    });
+
+    it('measures the rate of all traffic together', async () => {
+        const rates = await getRequestRates(env, hour);
+        expect(rates.peakRequestsPerSecond).toBe(50);
+        expect(rates.requestsPerSecond).toBe(0.44);
+    });
+});
+
+describe('latency percentiles', () => {
+    // One key that is fast for most requests with a slow tail, and a bucket in between
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:05:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 20, 200, 80],
+            ['2024-03-01 10:10:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 150, 200, 10],
+            ['2024-03-01 10:15:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 600, 200, 5],
+            ['2024-03-01 10:20:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 4000, 200, 4],
+            ['2024-03-01 10:25:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', 12000, 200, 1],
+            ['2024-03-01 10:30:00', 'anon_2_200', '', 400, 200, 10],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'latency_tail', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('weights percentiles by sample interval', async () => {
+        const { data: [user] } = await getTopUsers(env, recent);
+        expect(user).toMatchObject({
+            apiKey: 'PFjNXBbH290en1kFI653iL',
+            // The slow tail pulls the average far above what most requests see
+            avgResponseTime: 341,
+            p50ResponseTime: 20,
+            p90ResponseTime: 150,
+            p95ResponseTime: 600,
+            p99ResponseTime: 4000,
+        });
+    });
+
+    it('bins a key\'s response times', async () => {
+        const { bins, percentiles } = await getLatencyHistogram(env, recent, 'PFjNXBbH290en1kFI653iL');
+        expect(bins).toHaveLength(12);
+        expect(bins.filter(bin => bin.requestCount > 0).map(bin => [bin.minMs, bin.maxMs, bin.requestCount, bin.percentage])).toEqual([
+            [0, 25, 80, 80],
+            [100, 200, 10, 10],
+            [500, 750, 5, 5],
+            [2000, 5000, 4, 4],
+            [10000, null, 1, 1],
+        ]);
+        expect(percentiles).toEqual({ p50ResponseTime: 20, p90ResponseTime: 150, p95ResponseTime: 600, p99ResponseTime: 4000 });
+    });
+
+    it('takes the overall percentiles across keys and buckets', async () => {
+        const { bins, percentiles } = await getLatencyHistogram(env, recent);
+        expect(bins.reduce((sum, bin) => sum + bin.requestCount, 0)).toBe(110);
+        expect(bins.find(bin => bin.minMs === 300)?.requestCount).toBe(10);
+        expect(percentiles).toEqual({ p50ResponseTime: 20, p90ResponseTime: 400, p95ResponseTime: 600, p99ResponseTime: 4000 });
+    });
+
+    it('is empty without traffic', async () => {
+        const { bins, percentiles } = await getLatencyHistogram(env, recent, 'iQ6yJzcDBhz0qXkrss9bGL');
+        expect(bins.every(bin => bin.requestCount === 0 && bin.percentage === 0)).toBe(true);
+        expect(percentiles).toEqual({ p50ResponseTime: 0, p90ResponseTime: 0, p95ResponseTime: 0, p99ResponseTime: 0 });
+    });
+});
+
+describe('request URLs', () => {
+    // OpenAlex URLs in the shapes clients send them
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'blob3', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:05:00', 'anon_1_200', '', '/works/W2741809807', 100, 200, 5],
+            ['2024-03-01 10:10:00', 'anon_1_200', '', 'https://api.openalex.org/W2741809807?select=id', 100, 200, 3],
+            ['2024-03-01 10:15:00', 'anon_1_200', '', 'https://api.openalex.org/works?filter=publication_year:2020', 300, 200, 4],
+            ['2024-03-01 10:20:00', 'anon_1_200', '', '/works/', 300, 200, 2],
+            ['2024-03-01 10:25:00', 'anon_1_200', '', '/autocomplete/works?q=frog', 50, 200, 6],
+            ['2024-03-01 10:30:00', 'anon_1_404', '', '/authors/A5023888391', 80, 404, 1],
+            ['2024-03-01 10:35:00', 'anon_1_404', '', '/favicon.ico', 10, 404, 1],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'request_urls', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('classifies entities and single-entity requests', async () => {
+        const breakdown = await getEntityBreakdownAggregate(env, recent);
+        const rows = breakdown.map(row => [row.entity, row.requestCount, row.singleCount, row.listCount, row.errorCount]);
+        expect(rows).toHaveLength(4);
+        expect(rows).toEqual(expect.arrayContaining([
+            // /works/W..., and the bare /W... with its query string, are single;
+            // the filtered list and the empty trailing segment are not
+            ['works', 14, 8, 6, 0],
+            // The second segment names the entity being completed, not an ID
+            ['autocomplete', 6, 0, 6, 0],
+            ['authors', 1, 1, 0, 1],
+            ['other', 1, 0, 1, 1],
+        ]));
+        const works = breakdown.find(row => row.entity === 'works')!;
+        expect(works.avgResponseTime).toBe(185.71);
+        expect(works.percentage).toBe(63.64);
+    });
+});
+
+describe('query parameters', () => {
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'blob3', 'double1', 'double2', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:05:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', '/works?filter=publication_year:2020,is_oa:true&per_page=200&cursor=*', 400, 200, 3],
+            // "search" inside a filter value is not the search parameter
+            ['2024-03-01 10:10:00', 'PFjNXBbH290en1kFI653iL', 'PFjNXBbH290en1kFI653iL', '/works?filter=default.search:frog,is_oa:true&per-page=200&cursor=IlsxMDAsIC', 800, 200, 2],
+            ['2024-03-01 10:15:00', 'anon_1_200', '', '/works?search=frogs&sort=cited_by_count:desc&select=id,title', 100, 200, 5],
+            ['2024-03-01 10:20:00', 'anon_1_200', '', '/authors?group_by=last_known_institutions.country_code&per_page=50', 200, 200, 4],
+            ['2024-03-01 10:25:00', 'anon_1_200', '', '/works/W2741809807', 50, 200, 6],
+            ['2024-03-01 10:30:00', 'anon_1_200', '', '/works?sample=20&seed=1&page=2', 300, 200, 1],
+            // Requests without a URL are left out
+            ['2024-03-01 10:35:00', 'anon_1_200', '', '', 10, 200, 9],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = { ...world.env, ANALYTICS_DATASET: 'query_params', ANALYTICS_BACKEND: 'local' };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('counts each feature with its latency', async () => {
+        const usage = await getQueryParamUsageAggregate(env, recent);
+        expect(usage.totalRequests).toBe(21);
+        expect(Object.fromEntries(usage.features.map(feature => [feature.feature, [feature.requestCount, feature.avgResponseTime]]))).toEqual({
+            filter: [5, 560],
+            search: [5, 100],
+            group_by: [4, 200],
+            sort: [5, 100],
+            select: [5, 100],
+            // Both spellings
+            per_page: [9, 400],
+            // Not matched inside per_page=
+            page: [1, 300],
+            cursor: [5, 560],
+            sample: [1, 300],
+        });
+        expect(usage.features.find(feature => feature.feature === 'per_page')?.percentage).toBe(42.86);
+    });
+
+    it('breaks down filter fields, per_page values and deep paging', async () => {
+        const usage = await getQueryParamUsageAggregate(env, recent);
+        expect(usage.filterFields).toEqual([
+            { field: 'is_oa', requestCount: 5, avgResponseTime: 560 },
+            { field: 'publication_year', requestCount: 3, avgResponseTime: 400 },
+            { field: 'default.search', requestCount: 2, avgResponseTime: 800 },
+        ]);
+        expect(usage.perPage).toEqual([
+            { perPage: '200', requestCount: 5 },
+            { perPage: '50', requestCount: 4 },
+        ]);
+        // cursor=* starts a walk; only the later page counts
+        expect(usage.deepPagingCount).toBe(2);
+    });
+
+    it('scopes usage to a key or bucket', async () => {
+        const user = await getQueryParamUsageForUser(env, 'PFjNXBbH290en1kFI653iL', recent);
+        expect([user.totalRequests, user.deepPagingCount]).toEqual([5, 2]);
+        expect(user.features.find(feature => feature.feature === 'search')?.requestCount).toBe(0);
+
+        const bucket = await getQueryParamUsageForBucket(env, 'anon_1', recent);
+        expect([bucket.totalRequests, bucket.filterFields]).toEqual([16, []]);
+    });
+});
+
+describe('dataset schema overrides', () => {
+    // A dataset version that writes its fields to other columns than openalex_requests_v2
+    const fixture = {
+        columns: ['timestamp', 'index1', 'blob1', 'blob2', 'blob4', 'blob9', 'double3', 'double4', '_sample_interval'],
+        rows: [
+            ['2024-03-01 10:10:00', 'PFjNXBbH290en1kFI653iL', 'ignored', 'PFjNXBbH290en1kFI653iL', '192.0.2.1', 'curl/8.0', 120, 200, 4],
+            ['2024-03-01 10:20:00', 'PFjNXBbH290en1kFI653iL', 'ignored', 'PFjNXBbH290en1kFI653iL', '192.0.2.1', 'curl/8.0', 80, 429, 1],
+            ['2024-03-01 10:30:00', 'anon_5_200', 'ignored', '', '192.0.2.5', 'python-requests', 50, 200, 2],
+        ],
+    };
+    let env: Env;
+    let recent: TimeRange;
+
+    beforeAll(async () => {
+        env = {
+            ...world.env,
+            ANALYTICS_DATASET: 'requests_v3',
+            ANALYTICS_BACKEND: 'local',
+            ANALYTICS_SCHEMAS: { requests_v3: { apiKey: 'blob2', ip: 'blob4', userAgent: 'blob9', responseTime: 'double3', statusCode: 'double4' } },
+        };
+        await new LocalAnalyticsBackend(world.db, env.ANALYTICS_DATASET, fixture).query('SELECT 1');
+        recent = { from: new Date(Date.now() - 3600000), to: new Date(Date.now() + 60000), preset: null };
+    });
+
+    it('reads keys, status codes and latency from the configured columns', async () => {
+        const { data: users } = await getTopUsers(env, recent);
+        expect(users.map(user => [user.apiKey, user.requestCount, user.avgResponseTime, user.successRate])).toEqual([
+            ['PFjNXBbH290en1kFI653iL', 5, 112, 80],
+        ]);
+    });
+
+    it('reads user agents and IPs from the configured columns', async () => {
+        expect(await getTopUserAgentsForUser(env, 'PFjNXBbH290en1kFI653iL', recent)).toEqual([{ userAgent: 'curl/8.0', requestCount: 5 }]);
+        expect(await getTopIpInBucket(env, 'anon_5', recent)).toBe('192.0.2.5');
+    });
+});
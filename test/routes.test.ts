@@ -0,0 +1,373 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { createTestWorld, createCtx, authorizedRequest } from './worker';
+import type { TestWorld } from './worker';
+import type { Env } from '../src/types';
+
+// Keys and buckets with traffic in fixtures/analytics-engine.json
+const API_KEY = 'PFjNXBbH290en1kFI653iL';
+const BUCKET = 'anon_3';
+
+let world: TestWorld;
+
+beforeAll(async () => {
+    world = await createTestWorld();
+}, 60000);
+
+afterAll(async () => {
+    await world.dispose();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+async function call(path: string, init: RequestInit = {}, env: Env = world.env) {
+    const ctx = createCtx();
+    const response = await worker.fetch(authorizedRequest(path, init), env, ctx as unknown as ExecutionContext);
+    await Promise.all(ctx.pending);
+    return response;
+}
+
+async function callJson(path: string, init: RequestInit = {}, env: Env = world.env) {
+    const response = await call(path, init, env);
+    return { response, body: await response.json() as any };
+}
+
+describe('authentication', () => {
+    const unauthorized = async (authorization?: string) => {
+        const headers: Record<string, string> = authorization ? { Authorization: authorization } : {};
+        const ctx = createCtx();
+        return worker.fetch(new Request('http://analytics.test/api/top-users', { headers }), world.env, ctx as unknown as ExecutionContext);
+    };
+
+    it('asks for credentials when there are none', async () => {
+        const response = await unauthorized();
+        expect(response.status).toBe(401);
+        expect(response.headers.get('WWW-Authenticate')).toContain('Basic');
+    });
+
+    it.each([
+        ['a non-Basic scheme', 'Bearer abc', 'Invalid authentication scheme'],
+        ['missing credentials', 'Basic', 'Invalid authentication credentials'],
+        ['credentials that are not base64', 'Basic ***', 'Invalid authentication encoding'],
+        ['credentials without a colon', `Basic ${btoa('dashboard')}`, 'Invalid authentication format'],
+        ['a wrong password', `Basic ${btoa('dashboard:nope')}`, 'Invalid password'],
+    ])('rejects %s', async (_, authorization, message) => {
+        const response = await unauthorized(authorization);
+        expect(response.status).toBe(401);
+        expect(await response.text()).toBe(message);
+    });
+
+    it('accepts any username with the dashboard password', async () => {
+        const ctx = createCtx();
+        const request = new Request('http://analytics.test/', { headers: { Authorization: `Basic ${btoa('anyone:test-password')}` } });
+        const response = await worker.fetch(request, world.env, ctx as unknown as ExecutionContext);
+        expect(response.status).toBe(200);
+    });
+
+    it('answers CORS preflight without credentials', async () => {
+        const ctx = createCtx();
+        const response = await worker.fetch(new Request('http://analytics.test/api/top-users', { method: 'OPTIONS' }), world.env, ctx as unknown as ExecutionContext);
+        expect(response.status).toBe(204);
+        expect(response.headers.get('Access-Control-Allow-Methods')).toContain('PATCH');
+    });
+});
+
+describe('pages', () => {
+    it.each(['/', '/api-keys'])('serves %s as HTML', async path => {
+        const response = await call(path);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toContain('text/html');
+    });
+
+    it('returns 404 for unknown pages', async () => {
+        expect((await call('/nope')).status).toBe(404);
+    });
+});
+
+describe('analytics routes', () => {
+    it.each([
+        ['/api/top-users?range=24h', 'data'],
+        ['/api/top-anonymous?range=24h', 'data'],
+        ['/api/usage-timeline?range=24h', 'data'],
+        [`/api/user-status-breakdown?range=24h&apiKey=${API_KEY}`, 'data'],
+        [`/api/anonymous-status-breakdown?range=24h&bucket=${BUCKET}`, 'data'],
+        [`/api/user-timeline?range=24h&apiKey=${API_KEY}`, 'data'],
+        [`/api/anonymous-timeline?range=24h&bucket=${BUCKET}`, 'data'],
+        [`/api/top-ip-in-bucket?range=24h&bucket=${BUCKET}`, 'ipAddress'],
+        [`/api/sample-urls-user?range=24h&apiKey=${API_KEY}`, 'urls'],
+        [`/api/sample-urls-bucket?range=24h&bucket=${BUCKET}`, 'urls'],
+        [`/api/user-agents-user?range=24h&apiKey=${API_KEY}`, 'data'],
+        [`/api/referrers-user?range=24h&apiKey=${API_KEY}`, 'data'],
+        [`/api/user-agents-bucket?range=24h&bucket=${BUCKET}`, 'data'],
+        [`/api/referrers-bucket?range=24h&bucket=${BUCKET}`, 'data'],
+        ['/api/user-agents-aggregate?range=24h', 'data'],
+        ['/api/referrers-aggregate?range=24h', 'data'],
+        ['/api/entities-aggregate?range=24h', 'data'],
+        [`/api/entities-user?range=24h&apiKey=${API_KEY}`, 'data'],
+        [`/api/entities-bucket?range=24h&bucket=${BUCKET}`, 'data'],
+        ['/api/query-params-aggregate?range=24h', 'data'],
+        [`/api/query-params-user?range=24h&apiKey=${API_KEY}`, 'data'],
+        [`/api/query-params-bucket?range=24h&bucket=${BUCKET}`, 'data'],
+        ['/api/latency-histogram?range=24h', 'bins'],
+        ['/api/request-rates?range=24h', 'peakRequestsPerSecond'],
+        ['/api/rate-limits?range=24h', 'keys'],
+        ['/api/search?range=24h&q=example', 'data'],
+        ['/api/top-organizations?range=24h', 'data'],
+        ['/api/organization?range=24h&organization=Example%20University', 'keys'],
+        ['/api/organization-timeline?range=24h&organization=Example%20University', 'data'],
+        ['/api/status-breakdown?range=24h', 'data'],
+        ['/api/status-breakdown?range=24h&segment=anonymous', 'data'],
+        ['/api/segment-timeline?range=24h', 'data'],
+        ['/api/premium-domains?range=24h', 'data'],
+        ['/api/key-expiry?range=24h&days=60', 'expiring'],
+        ['/api/dormant-keys?days=7', 'dormant'],
+        ['/api/unknown-keys?range=24h', 'keys'],
+        ['/api/usage-timeline?range=24h&segment=academic', 'data'],
+    ])('%s', async (path, field) => {
+        const { response, body } = await callJson(path);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+        expect(body).toHaveProperty(field);
+        expect(body).toHaveProperty('timestamp');
+    });
+
+    it('echoes the segment and whether its academic split is complete', async () => {
+        const { body } = await callJson('/api/top-users?range=24h&segment=academic');
+        expect(body).toMatchObject({ segment: 'academic', segmentTruncated: false });
+        const { body: all } = await callJson('/api/entities-aggregate?range=24h');
+        expect(all).toMatchObject({ segment: null, segmentTruncated: false });
+    });
+
+    it('ranks fixture keys and names them from api_keys_archive', async () => {
+        const { body } = await callJson('/api/top-users?range=24h&limit=3');
+        expect(body.data).toHaveLength(3);
+        expect(body.truncated).toBe(true);
+        expect(body.data[0]).toMatchObject({ apiKey: API_KEY, name: 'Research Data Services', organization: 'Example University' });
+        const counts = body.data.map((user: any) => user.requestCount);
+        expect(counts).toEqual([...counts].sort((a, b) => b - a));
+    });
+
+    it('continues a top list from its cursor over the same range', async () => {
+        const { body: first } = await callJson('/api/top-anonymous?range=24h&limit=2&sort=errorCount');
+        const { body: second } = await callJson(`/api/top-anonymous?limit=2&cursor=${first.nextCursor}`);
+        expect(second).toMatchObject({ from: first.from, to: first.to, sort: 'errorCount', offset: 2, total: first.total });
+        expect(second.data[0].bucket).not.toBe(first.data[0].bucket);
+
+        // As the dashboard pages: the preset is sent again, but the cursor's window wins
+        const { body: again } = await callJson(`/api/top-anonymous?range=1h&limit=2&cursor=${encodeURIComponent(first.nextCursor)}`);
+        expect(again).toMatchObject({ from: first.from, to: first.to, offset: 2 });
+    });
+
+    it('ranks top lists by the requested column', async () => {
+        const { body } = await callJson('/api/top-users?range=24h&limit=100&sort=avgResponseTime&order=asc');
+        expect([body.sort, body.order]).toEqual(['avgResponseTime', 'asc']);
+        const times = body.data.map((user: any) => user.avgResponseTime);
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+    });
+
+    it('only reports traffic of the requested key', async () => {
+        const { body: breakdown } = await callJson(`/api/user-status-breakdown?range=24h&apiKey=${API_KEY}`);
+        const { body: users } = await callJson('/api/top-users?range=24h&limit=100');
+        const total = breakdown.data.reduce((sum: number, row: any) => sum + row.requestCount, 0);
+        expect(total).toBe(users.data.find((user: any) => user.apiKey === API_KEY).requestCount);
+    });
+
+    it('serves repeated queries from the cache unless fresh=1', async () => {
+        const first = await call('/api/referrers-aggregate?range=7d');
+        expect(first.headers.get('X-Cache-Status')).toBe('MISS');
+        const second = await call('/api/referrers-aggregate?range=7d');
+        expect(second.headers.get('X-Cache-Status')).toBe('HIT');
+        const fresh = await call('/api/referrers-aggregate?range=7d&fresh=1');
+        expect(fresh.headers.get('X-Cache-Status')).toBe('BYPASS');
+    });
+
+    it('caches the dormant keys report, which always ends now', async () => {
+        const first = await call('/api/dormant-keys?days=90');
+        expect(first.headers.get('X-Cache-Status')).toBe('MISS');
+        const second = await call('/api/dormant-keys?days=90');
+        expect(second.headers.get('X-Cache-Status')).toBe('HIT');
+    });
+});
+
+describe('errors', () => {
+    it.each([
+        '/api/user-status-breakdown',
+        '/api/user-timeline',
+        '/api/sample-urls-user',
+        '/api/user-agents-user',
+        '/api/referrers-user',
+        '/api/entities-user',
+        '/api/query-params-user',
+    ])('%s requires apiKey', async path => {
+        const { response, body } = await callJson(path);
+        expect(response.status).toBe(400);
+        expect(body).toMatchObject({ error: 'apiKey parameter is required', code: 'missing_parameter', retryable: false });
+    });
+
+    it.each([
+        '/api/anonymous-status-breakdown',
+        '/api/anonymous-timeline',
+        '/api/top-ip-in-bucket',
+        '/api/sample-urls-bucket',
+        '/api/user-agents-bucket',
+        '/api/referrers-bucket',
+        '/api/entities-bucket',
+        '/api/query-params-bucket',
+    ])('%s requires bucket', async path => {
+        const { response, body } = await callJson(path);
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('missing_parameter');
+    });
+
+    it('/api/search requires q', async () => {
+        const { response, body } = await callJson('/api/search');
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('missing_parameter');
+    });
+
+    it('returns 404 for organizations without keys', async () => {
+        const { response, body } = await callJson('/api/organization?organization=Nowhere');
+        expect(response.status).toBe(404);
+        expect(body.code).toBe('not_found');
+    });
+
+    it('rejects malformed buckets', async () => {
+        const { response, body } = await callJson("/api/anonymous-timeline?bucket=anon_1'--");
+        expect(response.status).toBe(400);
+        expect(body).toMatchObject({ error: 'Invalid bucket format', code: 'invalid_parameter' });
+    });
+
+    it('rejects invalid ranges', async () => {
+        const { response, body } = await callJson('/api/top-users?range=5y');
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('invalid_range');
+    });
+
+    it('rejects unknown top list sorts', async () => {
+        const { response, body } = await callJson('/api/top-anonymous?range=24h&sort=name');
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('invalid_parameter');
+    });
+
+    it('rejects unknown segments', async () => {
+        const { response, body } = await callJson('/api/entities-aggregate?range=24h&segment=commercial');
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('invalid_parameter');
+    });
+
+    it('rejects unknown dormancy windows', async () => {
+        const { response, body } = await callJson('/api/dormant-keys?days=14');
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('invalid_parameter');
+    });
+
+    it('rejects malformed cursors', async () => {
+        const { response, body } = await callJson('/api/top-users?cursor=nope');
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('invalid_parameter');
+    });
+
+    it('returns 404 for unknown API routes', async () => {
+        const { response, body } = await callJson('/api/nope');
+        expect(response.status).toBe(404);
+        expect(body.code).toBe('not_found');
+    });
+
+    it.each([
+        [403, 502, 'analytics_auth_failed'],
+        [422, 500, 'analytics_bad_query'],
+    ])('maps an Analytics Engine %i to %i', async (upstream, status, code) => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('upstream says no', { status: upstream })));
+
+        const { response, body } = await callJson('/api/top-users?range=1h&fresh=1', {}, { ...world.env, ANALYTICS_BACKEND: undefined });
+        expect(response.status).toBe(status);
+        expect(body.code).toBe(code);
+        expect(JSON.stringify(body)).not.toContain('upstream says no');
+    });
+});
+
+describe('/api/ip-info', () => {
+    it('requires ip', async () => {
+        const { response } = await callJson('/api/ip-info');
+        expect(response.status).toBe(400);
+    });
+
+    it('looks addresses up once and caches them', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ status: 'success', query: '192.0.2.10', country: 'Exampleland' })));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const { body } = await callJson('/api/ip-info?ip=192.0.2.10');
+        expect(body).toMatchObject({ query: '192.0.2.10', country: 'Exampleland' });
+        await callJson('/api/ip-info?ip=192.0.2.10');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('/api/api-keys', () => {
+    const patch = (body: unknown) => callJson('/api/api-keys', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    it('lists every archived key, newest first', async () => {
+        const { response, body } = await callJson('/api/api-keys');
+        expect(response.status).toBe(200);
+        expect(body.count).toBe(10);
+        expect(body.data[0].name).toBe('New Key');
+    });
+
+    it('adds recent traffic to each key with usage=1', async () => {
+        const { body: plain } = await callJson('/api/api-keys');
+        expect(plain.data[0]).not.toHaveProperty('usage');
+
+        const { response, body } = await callJson('/api/api-keys?usage=1');
+        expect(response.status).toBe(200);
+        expect(body.count).toBe(10);
+        const key = body.data.find((row: any) => row.api_key === API_KEY);
+        expect(key.usage.requests7d).toBeGreaterThan(0);
+        expect(key.usage.trend.length).toBeGreaterThan(1);
+        expect(body.data.find((row: any) => row.name === 'New Key').usage.lastSeen).toBeNull();
+    });
+
+    describe('PATCH', () => {
+        // A key of its own, so the fixture keys other tests look up keep their names and limits
+        let keyId: number;
+
+        beforeEach(async () => {
+            const row = await world.db
+                .prepare(`INSERT INTO api_keys_archive (api_key, name, max_per_second) VALUES ('patchTestKey0000000000', 'Patch Test', 10) RETURNING id`)
+                .first<{ id: number }>();
+            keyId = row!.id;
+        });
+
+        afterEach(async () => {
+            await world.db.prepare('DELETE FROM api_keys_archive WHERE id = ?').bind(keyId).run();
+        });
+
+        it('updates the name and rate limit of a key', async () => {
+            const { response, body } = await patch({ id: keyId, name: 'Renamed', max_per_second: 25 });
+            expect(response.status).toBe(200);
+            expect(body.success).toBe(true);
+
+            const { body: after } = await callJson('/api/api-keys');
+            expect(after.data.find((row: any) => row.id === keyId)).toMatchObject({ name: 'Renamed', max_per_second: 25 });
+        });
+    });
+
+    it('requires an id', async () => {
+        const { response, body } = await patch({ name: 'x' });
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('missing_parameter');
+    });
+
+    it('requires a field to update', async () => {
+        const { response, body } = await patch({ id: 1 });
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('invalid_parameter');
+    });
+});
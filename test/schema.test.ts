@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { datasetSchema, DEFAULT_SCHEMA } from '../src/schema';
+import type { Env } from '../src/types';
+
+function env(dataset: string, schemas?: Env['ANALYTICS_SCHEMAS']): Env {
+    return { ANALYTICS_DATASET: dataset, ANALYTICS_SCHEMAS: schemas } as Env;
+}
+
+describe('datasetSchema', () => {
+    it('uses the default layout without overrides', () => {
+        expect(datasetSchema(env('openalex_requests_v2'))).toEqual(DEFAULT_SCHEMA);
+        expect(datasetSchema(env('openalex_requests_v2', { openalex_requests_v3: { userAgent: 'blob4' } }))).toEqual(DEFAULT_SCHEMA);
+    });
+
+    it('applies the entry of the configured dataset field by field', () => {
+        const schema = datasetSchema(env('openalex_requests_v3', { openalex_requests_v3: { userAgent: 'blob4', responseTime: 'double3' } }));
+        expect(schema).toEqual({ ...DEFAULT_SCHEMA, userAgent: 'blob4', responseTime: 'double3' });
+    });
+
+    it('reads overrides passed as a JSON string', () => {
+        const schema = datasetSchema(env('openalex_requests_v3', '{"openalex_requests_v3":{"ip":"blob12"}}'));
+        expect(schema.ip).toBe('blob12');
+    });
+
+    it.each([
+        ['an unknown field', { country: 'blob8' }],
+        ['a number field in a blob', { statusCode: 'blob8' }],
+        ['a string field in a double', { url: 'double3' }],
+        ['a column past the dataset width', { url: 'blob21' }],
+        ['anything but a column name', { url: "blob3 = '' OR 1" }],
+    ])('rejects %s', (_, overrides: Record<string, string>) => {
+        expect(() => datasetSchema(env('openalex_requests_v3', { openalex_requests_v3: overrides }))).toThrow(/ANALYTICS_SCHEMAS/);
+    });
+
+    it('rejects overrides that are not an object', () => {
+        expect(() => datasetSchema(env('openalex_requests_v3', '["blob4"]'))).toThrow(/ANALYTICS_SCHEMAS/);
+    });
+});
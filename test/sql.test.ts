@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { stringLiteral, dateTimeLiteral, clampLimit, column, identifier, parseBucket, bucketIndexCondition, QueryValidationError } from '../src/sql';
+import { getUserStatusBreakdown, getAnonymousTimeline, getTopUserAgentsForUser } from '../src/queries';
+import type { Env } from '../src/types';
+
+describe('stringLiteral', () => {
+    it('quotes plain values', () => {
+        expect(stringLiteral('abc123')).toBe("'abc123'");
+    });
+
+    it('escapes single quotes so they cannot close the literal', () => {
+        expect(stringLiteral("x' OR '1'='1")).toBe("'x\\' OR \\'1\\'=\\'1'");
+    });
+
+    it('escapes backslashes before quotes', () => {
+        // A trailing backslash must not be able to escape the closing quote
+        expect(stringLiteral('key\\')).toBe("'key\\\\'");
+        expect(stringLiteral("\\' OR 1=1 --")).toBe("'\\\\\\' OR 1=1 --'");
+    });
+
+    it('rejects control characters', () => {
+        expect(() => stringLiteral('key\n; DROP TABLE x')).toThrow(QueryValidationError);
+        expect(() => stringLiteral('key\u0000')).toThrow(QueryValidationError);
+    });
+
+    it('rejects overlong values', () => {
+        expect(() => stringLiteral('a'.repeat(2000))).toThrow(QueryValidationError);
+        expect(() => stringLiteral('abcdef', 5)).toThrow(QueryValidationError);
+    });
+});
+
+describe('dateTimeLiteral', () => {
+    it('formats dates as UTC DateTime literals', () => {
+        expect(dateTimeLiteral(new Date('2024-03-01T12:34:56.789Z'))).toBe("toDateTime('2024-03-01 12:34:56')");
+    });
+
+    it('rejects invalid dates', () => {
+        expect(() => dateTimeLiteral(new Date('nope'))).toThrow(QueryValidationError);
+    });
+});
+
+describe('clampLimit', () => {
+    it('keeps limits within bounds', () => {
+        expect(clampLimit(10)).toBe(10);
+        expect(clampLimit(0)).toBe(1);
+        expect(clampLimit(-5)).toBe(1);
+        expect(clampLimit(1e9)).toBe(1000);
+        expect(clampLimit(500, 100)).toBe(100);
+        expect(clampLimit(7.9)).toBe(7);
+    });
+
+    it('falls back to the default for non-numeric input', () => {
+        expect(clampLimit(NaN)).toBe(10);
+        expect(clampLimit(parseInt('1; DROP TABLE x', 10))).toBe(1);
+        expect(clampLimit(parseInt('abc', 10), 1000, 25)).toBe(25);
+    });
+});
+
+describe('column', () => {
+    it('accepts dataset columns', () => {
+        expect(column('blob1')).toBe('blob1');
+        expect(column('_sample_interval')).toBe('_sample_interval');
+        expect(column('blob20')).toBe('blob20');
+        expect(column('double20')).toBe('double20');
+    });
+
+    it('rejects anything else', () => {
+        expect(() => column('blob1; DROP TABLE x')).toThrow(QueryValidationError);
+        expect(() => column('password')).toThrow(QueryValidationError);
+        expect(() => column('blob21')).toThrow(QueryValidationError);
+    });
+});
+
+describe('identifier', () => {
+    it('accepts dataset names', () => {
+        expect(identifier('openalex_requests_v2')).toBe('openalex_requests_v2');
+    });
+
+    it('rejects names that are not plain identifiers', () => {
+        expect(() => identifier('requests; DROP TABLE x')).toThrow(QueryValidationError);
+        expect(() => identifier('1requests')).toThrow(QueryValidationError);
+    });
+});
+
+describe('parseBucket / bucketIndexCondition', () => {
+    it('parses bucket numbers', () => {
+        expect(parseBucket('anon_0')).toBe(0);
+        expect(parseBucket('anon_42')).toBe(42);
+    });
+
+    it('rejects malicious or malformed buckets', () => {
+        for (const bucket of ["anon_1' OR '1'='1", 'anon_1_200', 'anon_-1', 'anon_', 'bucket_1', 'anon_1234567890', ' anon_1']) {
+            expect(() => parseBucket(bucket)).toThrow(QueryValidationError);
+        }
+    });
+
+    it('covers exactly the index keys of one bucket', () => {
+        expect(bucketIndexCondition('anon_9')).toBe("index1 >= 'anon_9_' AND index1 < 'anon_9`'");
+        expect(() => bucketIndexCondition('anon_9', 'index2')).toThrow(QueryValidationError);
+
+        // Mirror the string comparison Analytics Engine performs
+        const inRange = (key: string, bucket: number) => key >= `anon_${bucket}_` && key < `anon_${bucket}\``;
+        expect(inRange('anon_9_200', 9)).toBe(true);
+        expect(inRange('anon_9_503', 9)).toBe(true);
+        expect(inRange('anon_90_200', 9)).toBe(false);
+        expect(inRange('anon_10_200', 9)).toBe(false);
+        expect(inRange('anon_1_200', 1)).toBe(true);
+        expect(inRange('anon_10_200', 1)).toBe(false);
+        expect(inRange('anon_19_200', 1)).toBe(false);
+    });
+});
+
+describe('queries', () => {
+    const env = { ACCOUNT_ID: 'acct', API_TOKEN: 'token', ANALYTICS_DATASET: 'openalex_requests_v2' } as Env;
+
+    function stubAnalyticsEngine() {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [] })));
+        vi.stubGlobal('fetch', fetchMock);
+        return fetchMock;
+    }
+
+    function sentQuery(fetchMock: ReturnType<typeof stubAnalyticsEngine>): string {
+        const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        return init.body as string;
+    }
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('neutralizes quotes in API keys', async () => {
+        const fetchMock = stubAnalyticsEngine();
+        await getUserStatusBreakdown(env, "abc' OR blob1 != '");
+
+        const query = sentQuery(fetchMock);
+        expect(query).toContain("blob1 = 'abc\\' OR blob1 != \\''");
+        expect(query).not.toContain("blob1 = 'abc' OR");
+    });
+
+    it('rejects malicious buckets before querying', async () => {
+        const fetchMock = stubAnalyticsEngine();
+        await expect(getAnonymousTimeline(env, "anon_1' OR '1'='1")).rejects.toThrow(QueryValidationError);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('clamps interpolated limits', async () => {
+        const fetchMock = stubAnalyticsEngine();
+        await getTopUserAgentsForUser(env, 'key', undefined, 1e9);
+        expect(sentQuery(fetchMock)).toMatch(/LIMIT 1000\s*$/);
+    });
+
+    it('rejects an invalid dataset name', async () => {
+        const fetchMock = stubAnalyticsEngine();
+        const badEnv = { ...env, ANALYTICS_DATASET: 'x; DROP TABLE y' } as Env;
+        await expect(getUserStatusBreakdown(badEnv, 'key')).rejects.toThrow(QueryValidationError);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { toSqlite, weightedQuantile } from '../src/sqlite';
+
+function squash(sql: string): string {
+    return sql.replace(/\s+/g, ' ').trim();
+}
+
+describe('toSqlite', () => {
+    it('rewrites ClickHouse functions, including nested calls', () => {
+        const { query } = toSqlite("SELECT SUM(if(toUInt32(double2) >= 400, _sample_interval, 0)) as errors, position(substring(index1, 6), '_') as p FROM t");
+        expect(squash(query)).toBe("SELECT SUM(iif(CAST(double2 AS INTEGER) >= 400, _sample_interval, 0)) as errors, instr(substring(index1, 6), '_') as p FROM t");
+    });
+
+    it('buckets timestamps with toStartOfInterval', () => {
+        const { query } = toSqlite("SELECT toStartOfInterval(timestamp, INTERVAL '5' MINUTE) as b FROM t WHERE timestamp >= toDateTime('2024-03-01 10:00:00')");
+        expect(squash(query)).toBe("SELECT datetime((CAST(strftime('%s', timestamp) AS INTEGER) / 300) * 300, 'unixepoch') as b FROM t WHERE timestamp >= '2024-03-01 10:00:00'");
+    });
+
+    it('re-escapes string literals and leaves calls inside them alone', () => {
+        const { query } = toSqlite("SELECT 1 FROM t WHERE blob1 = 'it\\'s if(x)' AND startsWith(blob3, '/works') AND endsWith(blob7, '.edu')");
+        expect(squash(query)).toBe("SELECT 1 FROM t WHERE blob1 = 'it''s if(x)' AND (substr(blob3, 1, length('/works')) = '/works') AND (substr(blob7, -length('.edu')) = '.edu')");
+    });
+
+    it('collects weighted quantile values for the aliases', () => {
+        const { query, quantiles } = toSqlite('SELECT quantileExactWeighted(0.99)(double1, _sample_interval) as p99, count() as n FROM t');
+        expect(squash(query)).toBe('SELECT json_group_array(json_array(double1, _sample_interval)) as p99, COUNT(*) as n FROM t');
+        expect(quantiles).toEqual(new Map([['p99', 0.99]]));
+    });
+
+    it('defers an outer ORDER BY on a quantile until the values are known', () => {
+        const { query, ordering } = toSqlite('SELECT k, quantileExactWeighted(0.5)(double1, n) as sortValue FROM (SELECT k, double1, n FROM t ORDER BY n) GROUP BY k ORDER BY sortValue DESC, k ASC LIMIT 5');
+        expect(squash(query)).toBe('SELECT k, json_group_array(json_array(double1, n)) as sortValue FROM (SELECT k, double1, n FROM t ORDER BY n) GROUP BY k');
+        expect(ordering).toEqual({ terms: [{ name: 'sortValue', descending: true }, { name: 'k', descending: false }], limitBy: null, limit: 5, offset: 0 });
+    });
+
+    it('defers LIMIT n BY, which SQLite lacks', () => {
+        const { query, ordering } = toSqlite('SELECT k, v, SUM(n) as total FROM t GROUP BY k, v ORDER BY total DESC, v LIMIT 2 BY k LIMIT 100');
+        expect(squash(query)).toBe('SELECT k, v, SUM(n) as total FROM t GROUP BY k, v');
+        expect(ordering).toEqual({ terms: [{ name: 'total', descending: true }, { name: 'v', descending: false }], limitBy: { limit: 2, column: 'k' }, limit: 100, offset: 0 });
+    });
+
+    it('keeps other ORDER BYs in the query', () => {
+        const { query, ordering } = toSqlite('SELECT k, SUM(n) as total FROM t GROUP BY k ORDER BY total DESC LIMIT 5');
+        expect(squash(query)).toBe('SELECT k, SUM(n) as total FROM t GROUP BY k ORDER BY total DESC LIMIT 5');
+        expect(ordering).toBeNull();
+    });
+});
+
+describe('weightedQuantile', () => {
+    it('counts each value as many times as its weight', () => {
+        const pairs: [number, number][] = [[300, 1], [100, 8], [200, 1]];
+        expect(weightedQuantile(pairs, 0.5)).toBe(100);
+        expect(weightedQuantile(pairs, 0.9)).toBe(200);
+        expect(weightedQuantile(pairs, 0.99)).toBe(300);
+    });
+
+    it('returns 0 without values', () => {
+        expect(weightedQuantile([], 0.5)).toBe(0);
+    });
+});
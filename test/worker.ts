@@ -0,0 +1,101 @@
+/// <reference types="vite/client" />
+import { Miniflare } from 'miniflare';
+import apiKeysArchiveSql from '../fixtures/api-keys-archive.sql?raw';
+import queryCacheMigrationSql from '../migrations/0001_create_analytics_query_cache.sql?raw';
+import { analyticsBackend } from '../src/backend';
+// Registers the local analytics backend, as wrangler dev does
+import '../src/dev';
+import type { Env, TimeRange } from '../src/types';
+
+/**
+ * Shared setup for tests that need D1: a Miniflare D1 database with the
+ * query cache migration and the api_keys_archive fixture applied
+ */
+
+export const PASSWORD = 'test-password';
+
+export interface TestWorld {
+    env: Env;
+    db: D1Database;
+    dispose(): Promise<void>;
+}
+
+/**
+ * Env on a fresh local D1; Analytics Engine queries run on the local fixture backend
+ */
+export async function createTestWorld(overrides: Partial<Env> = {}): Promise<TestWorld> {
+    const mf = new Miniflare({
+        modules: true,
+        script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+        d1Databases: ['DB'],
+    });
+    const db = await mf.getD1Database('DB') as unknown as D1Database;
+    await runSql(db, queryCacheMigrationSql);
+    await runSql(db, apiKeysArchiveSql);
+
+    const env: Env = {
+        DB: db,
+        ACCOUNT_ID: 'test-account',
+        API_TOKEN: 'test-token',
+        ANALYTICS_DATASET: 'openalex_requests_v2',
+        DASHBOARD_PASSWORD: PASSWORD,
+        ANALYTICS_BACKEND: 'local',
+        ...overrides,
+    };
+
+    // Load the fixture traffic now, so the first test does not pay for it
+    if (env.ANALYTICS_BACKEND === 'local') {
+        await analyticsBackend(env).query('SELECT 1');
+    }
+
+    return { env, db, dispose: () => mf.dispose() };
+}
+
+/**
+ * Env on the world's D1 that queries the local fixture traffic, with the fixture
+ * loaded, and the last week of that traffic
+ */
+export async function localFixtureEnv(world: TestWorld): Promise<{ env: Env; week: TimeRange }> {
+    const env: Env = { ...world.env, ANALYTICS_BACKEND: 'local' };
+    await analyticsBackend(env).query('SELECT 1');
+    const week: TimeRange = { from: new Date(Date.now() - 7 * 86400000), to: new Date(Date.now() + 60000), preset: null };
+    return { env, week };
+}
+
+/**
+ * Run a SQL file, one statement per ";" at the end of a line
+ */
+export async function runSql(db: D1Database, sql: string): Promise<void> {
+    const statements = sql
+        .split('\n')
+        .filter(line => !line.trim().startsWith('--'))
+        .join('\n')
+        .split(/;\s*$/m)
+        .map(statement => statement.trim())
+        .filter(Boolean);
+    await db.batch(statements.map(statement => db.prepare(statement)));
+}
+
+/**
+ * ExecutionContext that keeps waitUntil promises so tests can settle them
+ */
+export function createCtx(): ExecutionContext & { pending: Promise<unknown>[] } {
+    const pending: Promise<unknown>[] = [];
+    return {
+        pending,
+        waitUntil(promise: Promise<unknown>) {
+            pending.push(promise);
+        },
+        passThroughOnException() {},
+        props: {},
+    };
+}
+
+/**
+ * Request carrying Basic credentials for the dashboard password
+ */
+export function authorizedRequest(path: string, init: RequestInit = {}, password: string = PASSWORD): Request {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Basic ${btoa(`dashboard:${password}`)}`);
+    return new Request(`http://analytics.test${path}`, { ...init, headers });
+}